@@ -1,48 +0,0 @@
-
-const CACHE_NAME = 'bragupro-v13';
-const ASSETS = [
-  './',
-  './index.html',
-  './manifest.json',
-  'https://cdn.tailwindcss.com',
-  'https://unpkg.com/@babel/standalone/babel.min.js'
-];
-
-self.addEventListener('install', (event) => {
-  event.waitUntil(
-    caches.open(CACHE_NAME).then((cache) => {
-      return Promise.allSettled(ASSETS.map(url => cache.add(url)));
-    })
-  );
-  self.skipWaiting();
-});
-
-self.addEventListener('activate', (event) => {
-  event.waitUntil(
-    caches.keys().then((keys) => Promise.all(
-      keys.map((key) => {
-        if (key !== CACHE_NAME) return caches.delete(key);
-      })
-    ))
-  );
-  self.clients.claim();
-});
-
-self.addEventListener('fetch', (event) => {
-  if (event.request.method !== 'GET') return;
-
-  if (event.request.url.includes('unpkg.com') || event.request.url.includes('tailwindcss.com')) {
-    event.respondWith(
-      caches.match(event.request).then(response => response || fetch(event.request))
-    );
-    return;
-  }
-
-  event.respondWith(
-    fetch(event.request).catch(() => {
-      return caches.match(event.request) || (
-        event.request.mode === 'navigate' ? caches.match('./index.html') : null
-      );
-    })
-  );
-});
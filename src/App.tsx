@@ -1,64 +1,112 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Coffee, Plus, ChevronLeft, Star, ArrowUpDown, Trash2, 
-  ChevronRight, Database, X, Zap, Download, Upload, Edit3, Camera, CheckCircle
+  ChevronRight, Database, X, Zap, Download, Upload, Edit3, Camera, CheckCircle, FileSpreadsheet, SlidersHorizontal,
+  Search, Filter, Repeat, History, Undo2, Redo2, ArchiveRestore, Share2, Copy, Link2, RefreshCw, HardDrive, Smartphone, ScanLine, Activity, ChartColumn, Crosshair
 } from 'lucide-react';
+import { BAG_STATUSES, BREW_METHODS, EQUIPMENT_KINDS, GRIND_SCALES, ORIGIN_TYPES, PROCESSES, ROAST_TYPES, SENSORY_ATTRIBUTES } from './types';
+import type { BagStatus, Bean, BrewMethod, Equipment, EquipmentKind, Grinder, GrindScale, Shot, OriginType, Process, RecipeTarget, RoastType, SensoryScores } from './types';
+import { generateUUID } from './utils';
+import { SCHEMA_VERSION, SchemaError, parseArchive } from './schema';
+import type { Archive, QuarantinedRecord, Tombstone } from './schema';
+import { createBackup, readBackup } from './backup';
+import { planImport, applyImport, conflictKey, importedImageIds, normalizeOptimal } from './merge';
+import type { ImportPlan, Resolution } from './merge';
+import { CSV_FIELDS, DEFAULT_CSV_RATING, guessMapping, mapCsvRows, parseCsv, shotsToCsv } from './csv';
+import type { CsvMapping } from './csv';
+import { loadArchive, saveArchive, storeImage, exportImages, importImages, getStorageUsage, requestPersistentStorage } from './storage';
+import type { StorageUsage } from './storage';
+import { ShotTimer } from './components/ShotTimer';
+import type { ShotTiming } from './components/ShotTimer';
+import { ShotMetrics } from './components/ShotMetrics';
+import { ScalePanel } from './components/ScalePanel';
+import type { ScaleCapture } from './components/ScalePanel';
+import { WeightCurve } from './components/WeightCurve';
+import { DialInCharts } from './components/DialInCharts';
+import { Chart } from './components/Chart';
+import { SuggestionCard } from './components/SuggestionCard';
+import { DialInPanel } from './components/DialInPanel';
+import { UndoToast } from './components/UndoToast';
+import { showToast } from './toast';
+import { GOOD_RATING, suggestNextShot } from './suggest';
+import { beanTarget, deviations, formatDeviation, openSession, recipeFromShot, sessionShots } from './dialin';
+import { archiveTotals, averageRating, bestRecipeRanges, ratingBy, shotsToOptimal, weeklyActivity } from './analytics';
+import { computeMetrics, formatRange, targetsFor } from './metrics';
+import { BREW_PARAMS, METHOD_PROFILES, formatBrewTime, formatWeights, methodLabel, methodsUsed, shotMethod } from './methods';
+import type { BrewParam } from './methods';
+import { formatGrind, grindNumber, parseGrind } from './grind';
+import { defaultEquipment, equipmentNames, setupIds } from './equipment';
+import { bagStatus, daysOffRoast, remainingWeight, toCalendarDate } from './inventory';
+import { EMPTY_FILTER, isFilterActive, matchesBean, matchesShot } from './search';
+import type { ArchiveFilter } from './search';
+import { FLAVOUR_CHIP, FLAVOUR_WHEEL, flavourCategory, flavoursIn } from './flavours';
+import { SHOT_WEIGHTINGS, hasSensory, pickBestShot } from './sensory';
+import { SensoryRadar } from './components/SensoryRadar';
+import { SHOT_EDIT_FIELDS, diffShot, formatEditValue } from './revisions';
+import { liveRecords, restoreRecord, trashContents, trashRecord } from './trash';
+import { EMPTY_HISTORY, recordChange, restoredSnapshot, stepBack, stepForward } from './history';
+import type { Snapshot } from './history';
+import { currentRoute, viewExists, viewToPath } from './routes';
+import type { RouteState, ViewState } from './routes';
+import { decodeRecipe, recipeFrom, recipeUrl } from './share';
+import type { SharedRecipe } from './share';
+import { QrCode } from './components/QrCode';
+import { checkForUpdate, getAppCacheInfo, registerServiceWorker, resetAppCache } from './serviceWorker';
+import type { AppCacheInfo } from './serviceWorker';
+import { buryRecords, isSyncMessage, mergeRecords, reviveRecords } from './sync';
+import type { SyncMessage, SyncSummary } from './sync';
+import { hostSession, isPeerSupported, joinSession } from './peer';
+import type { PeerEvents, PeerSession } from './peer';
+import { QrScanner } from './components/QrScanner';
+import { isLabelScanSupported, isQrScanSupported, readLabel } from './scan';
+import { LABEL_FIELDS, suggestFromLabel } from './label';
+import type { LabelField, LabelSuggestion } from './label';
 
-// --- Types ---
-type OriginType = 'Single Origin' | 'Blend';
-type RoastType = 'Light-Medium' | 'Medium' | 'Omni' | 'Medium-Dark' | 'Dark';
-
-interface Bean {
-  id: string;
-  roaster: string;
-  name: string;
-  originType: OriginType;
-  roastType: RoastType;
-  tastingNotes: string;
-  image?: string; // Base64 compressed image
-  createdAt: number;
-}
+type BeanGrouping = 'status' | 'origin' | 'process' | 'flavour';
 
-interface Shot {
-  id: string;
-  beanId: string;
-  timestamp: number;
-  dose: number;
-  yield: number;
-  time: number;
-  grindSetting: string;
-  rating: number;
-  notes: string;
-  isOptimal?: boolean; // Manual optimal marker
-}
+type SyncStatus =
+  | { stage: 'idle' }
+  | { stage: 'starting' }
+  | { stage: 'hosting'; code: string; error?: string } // Offer shown, waiting for the answer
+  | { stage: 'answering'; code: string } // Answer shown, waiting for the host
+  | { stage: 'syncing'; progress: string }
+  | { stage: 'done'; summary: SyncSummary; images: number }
+  | { stage: 'failed'; message: string };
 
-type ViewState = 
-  | { type: 'bean-list' }
-  | { type: 'add-bean' }
-  | { type: 'edit-bean'; beanId: string }
-  | { type: 'bean-details'; beanId: string }
-  | { type: 'add-shot'; beanId: string };
+// One sync run with the other device; both sides finish once each has sent
+// and received the photos it was asked for
+interface SyncSession {
+  peer: PeerSession;
+  summary?: SyncSummary;
+  imagesIn?: number;
+  imagesOut?: boolean;
+  doneSent?: boolean;
+  doneReceived?: boolean;
+}
 
-const STORAGE_KEY = 'bean_log_data_v1';
+// What the shot form holds before it's saved. It lives above the form, which
+// remounts on every App render, so neither that nor a trip to grinder or
+// setup management loses it.
+interface ShotDraft {
+  path: string; // The form's screen; a draft only fills in the form it came from
+  method: BrewMethod;
+  fd: Pick<Shot, 'dose' | 'yield' | 'time' | 'grindSetting' | 'rating' | 'notes'> & Partial<Pick<Shot, BrewParam | 'tds'>>;
+  grinderId?: string;
+  setup: Partial<Record<EquipmentKind, string>>;
+  sensory: SensoryScores;
+  balance?: number;
+  weightCurve?: Shot['weightCurve'];
+}
 
-// Stable UUID Fallback
-const generateUUID = () => {
-  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-    try {
-      return crypto.randomUUID();
-    } catch {
-      // Fallback to manual UUID generation
-    }
-  }
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-};
+const BEAN_GROUPINGS: { id: BeanGrouping; label: string }[] = [
+  { id: 'status', label: 'Bag Status' },
+  { id: 'origin', label: 'Origin' },
+  { id: 'process', label: 'Process' },
+  { id: 'flavour', label: 'Flavour' },
+];
 
 // --- Utilities ---
-const compressImage = (file: File): Promise<string> => {
+const compressImage = (file: File): Promise<Blob> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.readAsDataURL(file);
@@ -80,126 +128,692 @@ const compressImage = (file: File): Promise<string> => {
         canvas.height = height;
         const ctx = canvas.getContext('2d');
         ctx?.drawImage(img, 0, 0, width, height);
-        resolve(canvas.toDataURL('image/jpeg', 0.7));
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Image encoding failed')), 'image/jpeg', 0.7);
       };
     };
     reader.onerror = (error) => reject(error);
   });
 };
 
+const downloadFile = (filename: string, content: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
 // --- App Component ---
 const App: React.FC = () => {
-  const [beans, setBeans] = useState<Bean[]>([]);
-  const [shots, setShots] = useState<Shot[]>([]);
-  const [view, setView] = useState<ViewState>({ type: 'bean-list' });
+  // Trashed records included; views read the live `beans` and `shots` below
+  const [allBeans, setBeans] = useState<Bean[]>([]);
+  const [allShots, setShots] = useState<Shot[]>([]);
+  const [grinders, setGrinders] = useState<Grinder[]>([]);
+  const [equipment, setEquipment] = useState<Equipment[]>([]);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [tombstones, setTombstones] = useState<Tombstone[]>([]);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [hydrated, setHydrated] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [view, setViewState] = useState<ViewState>(() => currentRoute().view);
   const [sortOption, setSortOption] = useState<'rating' | 'recent' | 'roaster'>('recent');
+  const [historySort, setHistorySort] = useState<'recent' | 'rating' | 'grind'>('recent');
+  const [historySetup, setHistorySetup] = useState<string | null>(null); // Grinder or equipment id
+  const [historyMethod, setHistoryMethod] = useState<BrewMethod | null>(null);
+  const [bestWeighting, setBestWeighting] = useState(SHOT_WEIGHTINGS[0].id);
   const [showSettings, setShowSettings] = useState(false);
+  const [pendingImport, setPendingImport] = useState<{ archive: Archive; plan: ImportPlan; verified: boolean; exportedAt?: string } | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+  const [csvImport, setCsvImport] = useState<{ fileName: string; headers: string[]; rows: string[][]; mapping: CsvMapping } | null>(null);
+  const [history, setHistory] = useState(EMPTY_HISTORY);
+  const [sharing, setSharing] = useState<{ beanId: string; shotId: string } | null>(null);
+  const [pendingUpdate, setPendingUpdate] = useState<{ apply: () => void; dismissed?: boolean } | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ stage: 'idle' });
+  const syncRef = useRef<SyncSession | null>(null);
+  // Peer events arrive long after the render that started the session
+  const syncHandlers = useRef<PeerEvents | null>(null);
+  // The code being entered on the sync screen, kept here for the same reason as browseRef below
+  const syncEntryRef = useRef<{ code: string; scanning: boolean } | null>(null);
+  // Search lives in a ref, not state: BeanList remounts on every App render, so
+  // App state here would steal focus from the search field on each keystroke
+  const browseRef = useRef<{ filter: ArchiveFilter; mode: 'bags' | 'shots'; showFilters: boolean; groupBy: BeanGrouping }>({ filter: EMPTY_FILTER, mode: 'bags', showFilters: false, groupBy: 'status' });
+  const shotDraftRef = useRef<ShotDraft | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const { beans, shots } = liveRecords(allBeans, allShots);
+  const trash = trashContents(allBeans, allShots);
+  const trashCount = trash.beans.length + trash.shots.length;
+  // Mapping a large file is slow, so it runs once per file, mapping and archive change rather than per render
+  const csvResult = useMemo(
+    () => csvImport && mapCsvRows(csvImport.rows, csvImport.mapping, { ...liveRecords(allBeans, allShots), grinders, equipment }, generateUUID),
+    [csvImport, allBeans, allShots, grinders, equipment],
+  );
 
   // Initialize and mark app as ready
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (parsed && typeof parsed === 'object') {
-          if (Array.isArray(parsed.beans)) {
-            setBeans(parsed.beans);
-          }
-          if (Array.isArray(parsed.shots)) {
-            setShots(parsed.shots);
-          }
-        }
-      } catch (e) { 
-        console.error('Failed to parse local storage:', e); 
-      }
-    }
-    // Remove the HTML loader
-    document.body.classList.add('ready');
+    loadArchive()
+      .then(({ archive, imageUrls, error }) => {
+        setBeans(archive.beans);
+        setShots(archive.shots);
+        setGrinders(archive.grinders);
+        setEquipment(archive.equipment);
+        setQuarantine(archive.quarantine);
+        setTombstones(archive.tombstones);
+        setImageUrls(imageUrls);
+        if (error) setStorageError(`Archive could not be read and was set aside: ${error}`);
+        // A reload or deep link can name a bag or shot that is gone
+        if (!viewExists(currentRoute().view, liveRecords(archive.beans, archive.shots))) setView({ type: 'bean-list' }, { replace: true });
+        setHydrated(true);
+        requestPersistentStorage().catch(() => {});
+      })
+      .catch(e => {
+        console.error('Failed to open archive:', e);
+        setStorageError(`The archive could not be opened${e instanceof Error ? ` (${e.message})` : ''}. Nothing will be saved this session.`);
+      })
+      // Remove the HTML loader
+      .finally(() => document.body.classList.add('ready'));
   }, []);
 
-  // Sync with localStorage
+  // Sync with IndexedDB (only after the archive has been loaded, so an empty
+  // first render never overwrites it, but always afterwards so deletes persist)
   useEffect(() => {
-    if (beans.length > 0 || shots.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify({ beans, shots }));
-    }
-  }, [beans, shots]);
+    if (!hydrated) return;
+    saveArchive({ schemaVersion: SCHEMA_VERSION, beans: allBeans, shots: allShots, grinders, equipment, quarantine, tombstones }).catch(e => {
+      console.error('Failed to save archive:', e);
+      setStorageError('Saving failed. Export a backup before logging more shots.');
+    });
+  }, [allBeans, allShots, grinders, equipment, quarantine, tombstones, hydrated]);
+
+  useEffect(() => {
+    if (!showSettings || !hydrated) return;
+    getStorageUsage().then(setStorageUsage).catch(e => console.error('Failed to read storage usage:', e));
+  }, [showSettings, hydrated, beans]);
+
+  useEffect(() => registerServiceWorker(apply => setPendingUpdate({ apply })), []);
+
+  // Ctrl/Cmd+Z and Shift+Ctrl/Cmd+Z (or Ctrl+Y), except while typing where the field's own undo applies
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || (e.target instanceof HTMLElement && e.target.closest('input, textarea, select'))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  // --- Navigation ---
+  // Screens go through the browser history, so the back gesture, bookmarks and
+  // reloads behave as on any site
+  const setView = (next: ViewState, { replace = false } = {}) => {
+    const { depth } = currentRoute();
+    const state: RouteState = { view: next, depth: replace ? depth : depth + 1 };
+    if (replace) window.history.replaceState(state, '', viewToPath(next));
+    else window.history.pushState(state, '', viewToPath(next));
+    setViewState(next);
+  };
+
+  // Back to the previous entry when this session pushed one, else to `fallback` in place
+  const goBack = (fallback: ViewState) => {
+    if (currentRoute().depth > 0) window.history.back();
+    else setView(fallback, { replace: true });
+  };
+
+  // The shot form's draft goes once its screen is left for anything but equipment management
+  useEffect(() => {
+    if (view.type !== 'equipment' && shotDraftRef.current?.path !== viewToPath(view)) shotDraftRef.current = null;
+  }, [view]);
+
+  // Give the entry the app was opened on a state, and tidy its URL (e.g. /index.html)
+  useEffect(() => {
+    const route = currentRoute();
+    window.history.replaceState(route, '', viewToPath(route.view));
+  }, []);
+
+  useEffect(() => {
+    const onPopState = () => {
+      const { view: next } = currentRoute();
+      if (hydrated && !viewExists(next, { beans, shots })) setView({ type: 'bean-list' }, { replace: true });
+      else setViewState(next);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  });
+
+  // --- Undo / Redo ---
+  const snapshot = (): Snapshot => ({ beans: allBeans, shots: allShots, grinders, equipment, quarantine, tombstones });
+
+  const restoreSnapshot = (saved: Snapshot) => {
+    const s = restoredSnapshot(saved, snapshot(), Date.now());
+    setBeans(s.beans);
+    setShots(s.shots);
+    setGrinders(s.grinders);
+    setEquipment(s.equipment);
+    setQuarantine(s.quarantine);
+    setTombstones(s.tombstones);
+    // Leave a screen whose bag or shot the restored state doesn't have
+    if (!viewExists(view, liveRecords(s.beans, s.shots))) setView({ type: 'bean-list' }, { replace: true });
+  };
+
+  // Call before changing records; destructive changes also offer undo in a toast
+  const checkpoint = (label: string, { destructive = false } = {}) => {
+    setHistory(h => recordChange(h, label, snapshot()));
+    showToast(destructive ? { message: label, action: 'undo' } : null);
+  };
+
+  const undo = () => {
+    const step = stepBack(history, snapshot());
+    if (!step) return;
+    restoreSnapshot(step.entry.snapshot);
+    setHistory(step.history);
+    showToast({ message: `Undone: ${step.entry.label}`, action: 'redo' });
+  };
+
+  const redo = () => {
+    const step = stepForward(history, snapshot());
+    if (!step) return;
+    restoreSnapshot(step.entry.snapshot);
+    setHistory(step.history);
+    showToast({ message: `Redone: ${step.entry.label}`, action: 'undo' });
+  };
 
   // --- Actions ---
   const addBean = (bean: Omit<Bean, 'id' | 'createdAt'>) => {
     const newBean: Bean = { ...bean, id: generateUUID(), createdAt: Date.now() };
+    checkpoint('Bag added');
     setBeans(prev => [newBean, ...prev]);
-    setView({ type: 'bean-list' });
+    goBack({ type: 'bean-list' });
   };
 
   const updateBean = (id: string, updates: Omit<Bean, 'id' | 'createdAt'>) => {
-    setBeans(prev => prev.map(b => b.id === id ? { ...b, ...updates } : b));
-    setView({ type: 'bean-details', beanId: id });
+    checkpoint('Bag edited');
+    setBeans(prev => prev.map(b => b.id === id ? { ...b, ...updates, updatedAt: Date.now() } : b));
+    goBack({ type: 'bean-details', beanId: id });
   };
 
+  // Its shots stay as they are and are hidden along with it
   const deleteBean = (id: string) => {
-    if (window.confirm("Delete this collection and all its history?")) {
-      setBeans(prev => prev.filter(b => b.id !== id));
-      setShots(prev => prev.filter(s => s.beanId !== id));
-      setView({ type: 'bean-list' });
-    }
+    checkpoint('Bag moved to Trash', { destructive: true });
+    const now = Date.now();
+    setBeans(prev => prev.map(b => b.id === id ? trashRecord(b, now) : b));
+    setView({ type: 'bean-list' }, { replace: true });
   };
 
   const addShot = (shot: Omit<Shot, 'id' | 'timestamp'>) => {
     const newShot: Shot = { ...shot, id: generateUUID(), timestamp: Date.now() };
+    checkpoint('Shot logged');
     setShots(prev => [newShot, ...prev]);
-    setView({ type: 'bean-details', beanId: shot.beanId });
+    goBack({ type: 'bean-details', beanId: shot.beanId });
   };
 
-  const deleteShot = (id: string) => {
-    if (window.confirm("Remove this extraction log?")) {
-      setShots(prev => prev.filter(s => s.id !== id));
+  // Fields left empty in the form are dropped rather than kept from the old
+  // version, and whatever changed is appended to the shot's edit history
+  const updateShot = (id: string, fields: Omit<Shot, 'id' | 'beanId' | 'timestamp' | 'isOptimal' | 'edits' | 'sessionId' | 'baseEdit' | 'isReference'>) => {
+    const shot = shots.find(s => s.id === id);
+    if (!shot) return setView({ type: 'bean-list' }, { replace: true });
+    const { beanId, timestamp, isOptimal, edits, sessionId, baseEdit, isReference } = shot;
+    const next: Shot = {
+      id, beanId, timestamp, ...fields,
+      ...(isOptimal ? { isOptimal } : {}),
+      ...(sessionId ? { sessionId } : {}),
+      ...(baseEdit !== undefined ? { baseEdit } : {}),
+      ...(isReference ? { isReference } : {}),
+    };
+    const changes = diffShot(shot, next);
+    if (changes.length > 0) {
+      const now = Date.now();
+      checkpoint('Shot edited');
+      setShots(prev => prev.map(s => s.id === id ? { ...next, edits: [...(edits ?? []), { at: now, changes }], updatedAt: now } : s));
     }
+    goBack({ type: 'bean-details', beanId });
+  };
+
+  const deleteShot = (id: string) => {
+    checkpoint('Shot moved to Trash', { destructive: true });
+    const now = Date.now();
+    setShots(prev => prev.map(s => s.id === id ? trashRecord(s, now) : s));
+  };
+
+  // A shared recipe lands as a reference shot, on a new bag or one the user picks
+  const addSharedRecipe = (recipe: SharedRecipe, beanId: string | null) => {
+    const now = Date.now();
+    const bean: Bean | undefined = beanId ? undefined : {
+      id: generateUUID(),
+      roaster: recipe.roaster,
+      name: recipe.name,
+      originType: recipe.originType,
+      roastType: recipe.roastType,
+      tastingNotes: '',
+      ...(recipe.flavourTags ? { flavourTags: recipe.flavourTags } : {}),
+      ...(recipe.country ? { country: recipe.country } : {}),
+      ...(recipe.process ? { process: recipe.process } : {}),
+      createdAt: now,
+    };
+    const grinder = grinders.find(g => g.name === recipe.grinderName);
+    const grind = parseGrind(recipe.grindSetting, grinder);
+    const shot: Shot = {
+      id: generateUUID(),
+      beanId: beanId ?? (bean as Bean).id,
+      timestamp: now,
+      dose: recipe.dose,
+      yield: recipe.yield,
+      time: recipe.time,
+      grindSetting: recipe.grindSetting,
+      ...(grind ? { grind } : {}),
+      rating: recipe.rating,
+      notes: recipe.grinderName && !grinder ? [recipe.notes, `Grinder: ${recipe.grinderName}`].filter(Boolean).join('\n') : recipe.notes,
+      isReference: true,
+    };
+    checkpoint('Shared recipe added');
+    if (bean) setBeans(prev => [bean, ...prev]);
+    setShots(prev => [shot, ...prev]);
+    setView({ type: 'bean-details', beanId: shot.beanId }, { replace: true });
+  };
+
+  const restoreBean = (id: string) => {
+    checkpoint('Bag restored');
+    const now = Date.now();
+    setBeans(prev => prev.map(b => b.id === id ? restoreRecord(b, now) : b));
+  };
+
+  // A bag keeps the optimal shot it has now for the method; the restored one gives up its marker
+  const restoreShot = (id: string) => {
+    checkpoint('Shot restored');
+    const now = Date.now();
+    setShots(prev => {
+      const shot = prev.find(s => s.id === id);
+      const taken = !!shot && prev.some(s => s.beanId === shot.beanId && shotMethod(s) === shotMethod(shot) && s.isOptimal && s.deletedAt === undefined);
+      return prev.map(s => s.id === id ? { ...restoreRecord(s, now), ...(taken ? { isOptimal: false } : {}) } : s);
+    });
   };
 
-  const toggleShotOptimal = (shotId: string, beanId: string) => {
+  // Purging a bag takes every shot logged against it, trashed or not
+  const purgeTrash = (ids: { beanIds: string[]; shotIds: string[] }, label: string) => {
+    const purged = (s: Shot) => ids.shotIds.includes(s.id) || ids.beanIds.includes(s.beanId);
+    const now = Date.now();
+    checkpoint(label, { destructive: true });
+    setTombstones(prev => [...prev, ...buryRecords('bean', ids.beanIds, now), ...buryRecords('shot', allShots.filter(purged).map(s => s.id), now)]);
+    setBeans(prev => prev.filter(b => !ids.beanIds.includes(b.id)));
+    setShots(prev => prev.filter(s => !purged(s)));
+  };
+
+  const toggleShotOptimal = (shotId: string, beanId: string, method: BrewMethod) => {
+    checkpoint('Optimal marker changed');
+    const now = Date.now();
     setShots(prev => prev.map(s => {
-      if (s.beanId === beanId) {
-        if (s.id === shotId) return { ...s, isOptimal: !s.isOptimal };
-        return { ...s, isOptimal: false }; // Ensure only one manual optimal per bean
+      if (s.beanId === beanId && shotMethod(s) === method) {
+        if (s.id === shotId) return { ...s, isOptimal: !s.isOptimal, updatedAt: now };
+        if (s.isOptimal) return { ...s, isOptimal: false, updatedAt: now }; // Ensure only one manual optimal per bean and method
       }
       return s;
     }));
   };
 
-  const exportData = () => {
-    const data = JSON.stringify({ beans, shots }, null, 2);
-    const blob = new Blob([data], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `bragupro-backup-${new Date().toISOString().split('T')[0]}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+  // --- Dial-In Sessions ---
+  const saveBeanTarget = (beanId: string, target: RecipeTarget | undefined) => {
+    checkpoint(target ? 'Dial-in target saved' : 'Dial-in target reset to preset');
+    setBeans(prev => prev.map(b => {
+      if (b.id !== beanId) return b;
+      const next: Bean = { ...b, updatedAt: Date.now() };
+      if (target) next.target = target;
+      else delete next.target;
+      return next;
+    }));
+  };
+
+  const startSession = (beanId: string) => {
+    const bean = beans.find(b => b.id === beanId);
+    if (!bean || openSession(bean)) return;
+    checkpoint('Dial-in session started');
+    const now = Date.now();
+    const session = { id: generateUUID(), target: beanTarget(bean), startedAt: now };
+    setBeans(prev => prev.map(b => b.id === beanId ? { ...b, sessions: [...(b.sessions ?? []), session], updatedAt: now } : b));
+  };
+
+  // Closing with a winner saves it as the bag's recipe and makes it the optimal shot for its method
+  const finishSession = (beanId: string, winnerId?: string) => {
+    const winner = shots.find(s => s.id === winnerId && s.beanId === beanId);
+    checkpoint(winner ? 'Dial-in session closed with a recipe' : 'Dial-in session ended');
+    const now = Date.now();
+    setBeans(prev => prev.map(b => b.id !== beanId ? b : {
+      ...b,
+      sessions: (b.sessions ?? []).map(s => s.endedAt === undefined ? { ...s, endedAt: now, ...(winner ? { winnerId: winner.id } : {}) } : s),
+      ...(winner ? { recipe: recipeFromShot(winner, now) } : {}),
+      updatedAt: now,
+    }));
+    if (!winner) return;
+    setShots(prev => prev.map(s => {
+      if (s.beanId !== beanId || shotMethod(s) !== shotMethod(winner)) return s;
+      if (s.id === winner.id) return s.isOptimal ? s : { ...s, isOptimal: true, updatedAt: now };
+      return s.isOptimal ? { ...s, isOptimal: false, updatedAt: now } : s;
+    }));
+  };
+
+  const saveGrinder = (grinder: Omit<Grinder, 'id' | 'createdAt'>, id?: string) => {
+    checkpoint(id ? 'Grinder edited' : 'Grinder added');
+    if (id) setGrinders(prev => prev.map(g => g.id === id ? { ...g, ...grinder, updatedAt: Date.now() } : g));
+    else setGrinders(prev => [...prev, { ...grinder, id: generateUUID(), createdAt: Date.now() }]);
+  };
+
+  const saveEquipment = (item: Omit<Equipment, 'id' | 'createdAt'>, id?: string) => {
+    checkpoint(id ? 'Equipment edited' : 'Equipment added');
+    if (id) setEquipment(prev => prev.map(e => e.id === id ? { ...e, ...item, updatedAt: Date.now() } : e));
+    else setEquipment(prev => [...prev, { ...item, id: generateUUID(), createdAt: Date.now() }]);
+  };
+
+  // Grinders and equipment share an id space on shots, so one delete and one default toggle serve both
+  const deleteEquipment = (id: string) => {
+    const used = allShots.filter(s => setupIds(s).includes(id)).length;
+    checkpoint(used ? `Equipment removed and unlinked from ${used} shot(s)` : 'Equipment removed', { destructive: true });
+    setTombstones(prev => [...prev, ...buryRecords(grinders.some(g => g.id === id) ? 'grinder' : 'equipment', [id], Date.now())]);
+    setGrinders(prev => prev.filter(g => g.id !== id));
+    setEquipment(prev => prev.filter(e => e.id !== id));
+    if (used) {
+      const now = Date.now();
+      setShots(prev => prev.map(s => {
+        if (!setupIds(s).includes(id)) return s;
+        const { equipmentIds, ...rest } = s;
+        const remaining = (equipmentIds ?? []).filter(e => e !== id);
+        return {
+          ...rest,
+          ...(s.grind ? { grind: s.grind.grinderId === id ? { value: s.grind.value } : s.grind } : {}),
+          ...(remaining.length > 0 ? { equipmentIds: remaining } : {}),
+          updatedAt: now,
+        };
+      }));
+    }
+  };
+
+  const toggleDefaultEquipment = (id: string) => {
+    checkpoint('Default setup changed');
+    const now = Date.now();
+    const toggle = <T extends Grinder | Equipment>(item: T, sameKind: boolean): T => {
+      if (item.id === id) return { ...item, isDefault: !item.isDefault, updatedAt: now };
+      return sameKind && item.isDefault ? { ...item, isDefault: false, updatedAt: now } : item; // One default per kind
+    };
+    if (grinders.some(g => g.id === id)) setGrinders(prev => prev.map(g => toggle(g, true)));
+    const kind = equipment.find(e => e.id === id)?.kind;
+    if (kind) setEquipment(prev => prev.map(e => toggle(e, e.kind === kind)));
+  };
+
+  const rememberImage = (id: string, url: string) => setImageUrls(prev => ({ ...prev, [id]: url }));
+
+  const exportData = async () => {
+    try {
+      // Trashed records travel too, so a restore elsewhere keeps them in its Trash
+      const images = await exportImages(allBeans.flatMap(b => b.imageId ? [b.imageId] : []));
+      const data = await createBackup({ schemaVersion: SCHEMA_VERSION, beans: allBeans, shots: allShots, grinders, equipment, quarantine: [], tombstones, images });
+      downloadFile(`bragupro-backup-${new Date().toISOString().split('T')[0]}.json`, data, 'application/json');
+    } catch (err) {
+      alert(`Backup failed.${err instanceof Error ? `\n${err.message}` : ''}`);
+    }
   };
 
   const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const result = e.target?.result as string;
-        const parsed = JSON.parse(result);
-        if (parsed.beans && parsed.shots) {
-          if (window.confirm("Overwrite current archive with this backup?")) {
-            setBeans(parsed.beans);
-            setShots(parsed.shots);
-            setShowSettings(false);
-          }
-        }
-      } catch {
-        alert("Invalid backup file.");
+        const { archive, verified, exportedAt } = await readBackup(result, { knownBeanIds: allBeans.map(b => b.id) });
+        setResolutions({});
+        setPendingImport({ archive, plan: planImport({ beans: allBeans, shots: allShots, grinders, equipment }, archive), verified, exportedAt });
+        setShowSettings(false);
+      } catch (err) {
+        alert(`Invalid backup file.${err instanceof Error ? `\n${err.message}` : ''}`);
+      }
+    };
+    reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  // Photos are written before any record changes, so a failure here leaves the archive as it was
+  const storeImportedImages = async (images?: Record<string, string>) => {
+    try {
+      return await importImages(images);
+    } catch (err) {
+      alert(`Could not import the backup's photos; nothing was changed.${err instanceof Error ? `\n${err.message}` : ''}`);
+      return null;
+    }
+  };
+
+  const confirmMergeImport = async () => {
+    if (!pendingImport) return;
+    const { plan } = pendingImport;
+    const imageIds = importedImageIds(plan, resolutions);
+    const urls = await storeImportedImages(Object.fromEntries(imageIds.map(id => [id, plan.images[id]])));
+    if (!urls) return;
+    const merged = applyImport({ beans: allBeans, shots: allShots, grinders, equipment }, plan, resolutions);
+    const now = Date.now();
+    setImageUrls(prev => ({ ...prev, ...urls }));
+    checkpoint('Backup merged into the archive', { destructive: true });
+    setBeans(reviveRecords('bean', merged.beans, tombstones, now));
+    setShots(reviveRecords('shot', merged.shots, tombstones, now));
+    setGrinders(reviveRecords('grinder', merged.grinders, tombstones, now));
+    setEquipment(reviveRecords('equipment', merged.equipment, tombstones, now));
+    setQuarantine(prev => [...prev, ...plan.invalid]);
+    setPendingImport(null);
+  };
+
+  const confirmReplaceImport = async () => {
+    if (!pendingImport) return;
+    const { archive } = pendingImport;
+    const beanIds = new Set(archive.beans.map(b => b.id));
+    const orphaned: QuarantinedRecord[] = archive.shots
+      .filter(s => !beanIds.has(s.beanId))
+      .map(s => ({ kind: 'shot', reason: 'References an unknown bean', record: s, quarantinedAt: Date.now() }));
+    const urls = await storeImportedImages(archive.images);
+    if (!urls) return;
+    const now = Date.now();
+    setImageUrls(prev => ({ ...prev, ...urls }));
+    checkpoint('Archive replaced with the backup', { destructive: true });
+    // This device's tombstones stay, so a sync doesn't bring purged records back
+    setBeans(reviveRecords('bean', archive.beans, tombstones, now));
+    setShots(reviveRecords('shot', archive.shots.filter(s => beanIds.has(s.beanId)), tombstones, now));
+    setGrinders(reviveRecords('grinder', archive.grinders, tombstones, now));
+    setEquipment(reviveRecords('equipment', archive.equipment, tombstones, now));
+    setQuarantine(prev => [...prev, ...archive.quarantine, ...orphaned]);
+    setPendingImport(null);
+  };
+
+  const exportCsv = () => {
+    downloadFile(`bragupro-shots-${new Date().toISOString().split('T')[0]}.csv`, shotsToCsv(beans, shots, grinders, equipment), 'text/csv');
+  };
+
+  const handleCsvImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const [headers, ...rows] = parseCsv(e.target?.result as string);
+      if (!headers || rows.length === 0) {
+        alert("The CSV file has no data rows.");
+        return;
       }
+      setCsvImport({ fileName: file.name, headers, rows, mapping: guessMapping(headers) });
+      setShowSettings(false);
     };
     reader.readAsText(file);
+    event.target.value = '';
+  };
+
+  const confirmCsvImport = () => {
+    if (!csvImport || !csvResult) return;
+    const result = csvResult;
+    checkpoint(`${result.shots.length} shots imported from CSV`);
+    setBeans(prev => [...result.beans, ...prev]);
+    setShots(prev => normalizeOptimal([...result.shots, ...prev]));
+    setCsvImport(null);
+  };
+
+  const exportQuarantine = () => {
+    const data = JSON.stringify(quarantine, null, 2);
+    downloadFile(`bragupro-quarantine-${new Date().toISOString().split('T')[0]}.json`, data, 'application/json');
+  };
+
+  const discardQuarantine = () => {
+    checkpoint(`${quarantine.length} quarantined record(s) discarded`, { destructive: true });
+    setQuarantine([]);
+  };
+
+  // --- Device Sync ---
+  const failSync = (message: string) => {
+    syncRef.current?.peer.close();
+    syncRef.current = null;
+    setSyncStatus({ stage: 'failed', message });
+  };
+
+  const sendSync = (message: SyncMessage) =>
+    syncRef.current?.peer.send(message).catch(e => failSync(e instanceof Error ? e.message : String(e)));
+
+  const finishSync = (session: SyncSession) => {
+    if (session.doneSent || session.imagesIn === undefined || !session.imagesOut || !session.summary) return;
+    session.doneSent = true;
+    sendSync({ type: 'done' });
+    setSyncStatus({ stage: 'done', summary: session.summary, images: session.imagesIn });
+    if (session.doneReceived) endSync();
+  };
+
+  const endSync = () => {
+    syncRef.current?.peer.close();
+    syncRef.current = null;
+  };
+
+  const sendHello = () => {
+    setSyncStatus({ stage: 'syncing', progress: 'Exchanging records…' });
+    sendSync({
+      type: 'hello',
+      archive: { schemaVersion: SCHEMA_VERSION, beans: allBeans, shots: allShots, grinders, equipment, tombstones },
+      imageIds: Object.keys(imageUrls),
+    });
+  };
+
+  // Both devices merge the same two record sets the same way, so neither has to send its result back
+  const receiveHello = (message: Extract<SyncMessage, { type: 'hello' }>, session: SyncSession) => {
+    let remote: Archive;
+    try {
+      remote = parseArchive(message.archive, { knownBeanIds: allBeans.map(b => b.id) });
+    } catch (e) {
+      const newer = e instanceof SchemaError && e.message.includes('newer version');
+      sendSync({ type: 'abort', reason: newer ? 'The other device runs an older Bragu Pro. Update it and try again.' : 'The other device could not read this archive.' });
+      return failSync(newer ? 'The other device runs a newer Bragu Pro. Update this one and try again.' : `The other device sent an archive that can't be read${e instanceof Error ? ` (${e.message})` : ''}.`);
+    }
+    const result = mergeRecords({ beans: allBeans, shots: allShots, grinders, equipment, tombstones }, remote);
+    const now = Date.now();
+    checkpoint('Synced with another device', { destructive: result.summary.removed > 0 });
+    setBeans(result.records.beans);
+    setShots(result.records.shots);
+    setGrinders(result.records.grinders);
+    setEquipment(result.records.equipment);
+    setTombstones(result.records.tombstones);
+    setQuarantine(prev => [
+      ...prev,
+      ...remote.quarantine,
+      ...result.orphans.map((s): QuarantinedRecord => ({ kind: 'shot', reason: 'Its bag was deleted on another device', record: s, quarantinedAt: now })),
+    ]);
+    session.summary = result.summary;
+    const offered = new Set(message.imageIds);
+    const wanted = [...new Set(result.records.beans.flatMap(b => b.imageId && !imageUrls[b.imageId] && offered.has(b.imageId) ? [b.imageId] : []))];
+    setSyncStatus({ stage: 'syncing', progress: wanted.length > 0 ? `Fetching ${wanted.length} photo(s)…` : 'Finishing…' });
+    sendSync({ type: 'want-images', ids: wanted });
+  };
+
+  const receiveSyncMessage = (message: unknown) => {
+    const session = syncRef.current;
+    if (!session || !isSyncMessage(message)) return;
+    switch (message.type) {
+      case 'hello':
+        return receiveHello(message, session);
+      case 'want-images':
+        exportImages(message.ids.filter(id => imageUrls[id]))
+          .then(images => sendSync({ type: 'images', images }))
+          .then(() => {
+            session.imagesOut = true;
+            finishSync(session);
+          })
+          .catch(e => failSync(`Photos could not be sent: ${e instanceof Error ? e.message : e}`));
+        return;
+      case 'images':
+        // Only bag photos this device asked for and doesn't have yet
+        importImages(Object.fromEntries(Object.entries(message.images).filter(([id, url]) => !imageUrls[id] && typeof url === 'string' && url.startsWith('data:image/'))))
+          .then(urls => {
+            setImageUrls(prev => ({ ...prev, ...urls }));
+            session.imagesIn = Object.keys(urls).length;
+            finishSync(session);
+          })
+          .catch(e => failSync(`Photos could not be saved: ${e instanceof Error ? e.message : e}`));
+        return;
+      case 'done':
+        session.doneReceived = true;
+        if (session.doneSent) endSync();
+        return;
+      case 'abort':
+        return failSync(message.reason);
+    }
+  };
+
+  useEffect(() => {
+    syncHandlers.current = {
+      onOpen: sendHello,
+      onMessage: receiveSyncMessage,
+      onClose: () => {
+        if (!syncRef.current) return;
+        if (syncRef.current.doneSent) endSync();
+        else failSync('The connection closed before the sync finished. Both devices need to be on the same network.');
+      },
+    };
+  });
+
+  const peerEvents: PeerEvents = {
+    onOpen: () => syncHandlers.current?.onOpen(),
+    onMessage: (message) => syncHandlers.current?.onMessage(message),
+    onClose: () => syncHandlers.current?.onClose(),
+  };
+
+  // Without an offer this device hosts; with one it joins the device that showed it
+  const startSync = (offer?: string) => {
+    endSync();
+    syncEntryRef.current = null;
+    setSyncStatus({ stage: 'starting' });
+    if (offer) setView({ type: 'sync' }, { replace: true }); // A reload shouldn't answer a stale offer
+    (offer ? joinSession(offer, peerEvents) : hostSession(peerEvents))
+      .then(peer => {
+        syncRef.current = { peer };
+        setSyncStatus({ stage: offer ? 'answering' : 'hosting', code: peer.code });
+      })
+      .catch(e => setSyncStatus({ stage: 'failed', message: e instanceof Error ? e.message : String(e) }));
+  };
+
+  // A mistyped answer leaves the offer open for another try
+  const acceptSyncAnswer = (answer: string) => {
+    const peer = syncRef.current?.peer;
+    if (!peer?.accept) return;
+    setSyncStatus({ stage: 'syncing', progress: 'Connecting…' });
+    peer.accept(answer).catch(e => setSyncStatus({ stage: 'hosting', code: peer.code, error: e instanceof Error ? e.message : String(e) }));
+  };
+
+  const leaveSync = () => {
+    endSync();
+    syncEntryRef.current = null;
+    setSyncStatus({ stage: 'idle' });
+    goBack({ type: 'bean-list' });
   };
 
   // --- Views ---
@@ -209,15 +823,47 @@ const App: React.FC = () => {
       if (sortOption === 'roaster') return (a.roaster || '').localeCompare(b.roaster || '');
       
       // Rating sort
-      const getRating = (beanId: string) => {
-        const bShots = shots.filter(s => s && s.beanId === beanId);
-        if (bShots.length === 0) return 0;
-        return bShots.reduce((acc, s) => acc + (s.rating || 0), 0) / bShots.length;
-      };
-      const ratingA = getRating(a.id);
-      const ratingB = getRating(b.id);
-      return ratingB - ratingA;
+      const getRating = (beanId: string) => averageRating(shots.filter(s => s.beanId === beanId)) ?? 0;
+      return getRating(b.id) - getRating(a.id);
     });
+    const [browse, setBrowseState] = useState(() => browseRef.current);
+    const setBrowse = (next: typeof browse) => {
+      browseRef.current = next;
+      setBrowseState(next);
+    };
+    const { filter, mode } = browse;
+    const setFilter = (patch: Partial<ArchiveFilter>) => setBrowse({ ...browse, filter: { ...filter, ...patch } });
+    const toggleIn = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(v => v !== value) : [...list, value]);
+    const filtering = isFilterActive(filter);
+
+    const visibleBeans = sortedBeans.filter(b => matchesBean(b, shots, filter));
+    // A bag lands in one section per key; flavour grouping can list it under several categories
+    const groupKeys = (bean: Bean): string[] => {
+      if (browse.groupBy === 'origin') return [[bean.country || 'Unknown Origin', bean.process].filter(Boolean).join(' · ')];
+      if (browse.groupBy === 'process') return [bean.process ?? 'Unknown Process'];
+      if (browse.groupBy === 'flavour') {
+        const categories = [...new Set((bean.flavourTags ?? []).map(t => flavourCategory(t)?.name ?? ''))].filter(Boolean);
+        return categories.length > 0 ? categories : ['Untagged'];
+      }
+      return [bagStatus(bean, shots)];
+    };
+    const sectionOrder = browse.groupBy === 'status'
+      ? BAG_STATUSES.map(st => ({ id: st.id as string, label: st.label }))
+      : [...new Set(visibleBeans.flatMap(groupKeys))]
+          .sort((a, b) => Number(a.startsWith('Unknown') || a === 'Untagged') - Number(b.startsWith('Unknown') || b === 'Untagged') || a.localeCompare(b))
+          .map(key => ({ id: key, label: key }));
+    const sections = sectionOrder
+      .map(section => ({ ...section, beans: visibleBeans.filter(b => groupKeys(b).includes(section.id)) }))
+      .filter(section => section.beans.length > 0);
+
+    const beanById = new Map<string, Bean>(beans.map(b => [b.id, b]));
+    const matchingShots = mode === 'shots'
+      ? shots.filter(s => matchesShot(s, beanById.get(s.beanId), filter)).sort((a, b) => {
+          if (sortOption === 'rating') return b.rating - a.rating || b.timestamp - a.timestamp;
+          if (sortOption === 'roaster') return (beanById.get(a.beanId)?.roaster ?? '').localeCompare(beanById.get(b.beanId)?.roaster ?? '') || b.timestamp - a.timestamp;
+          return b.timestamp - a.timestamp;
+        })
+      : [];
 
     return (
       <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
@@ -227,11 +873,79 @@ const App: React.FC = () => {
             <h1 className="text-4xl font-display text-white mt-1 leading-tight truncate">Archive</h1>
           </div>
           <div className="flex items-center gap-4 flex-shrink-0">
+            {(history.past.length > 0 || history.future.length > 0) && (
+              <div className="flex flex-col gap-1">
+                <button onClick={undo} disabled={history.past.length === 0} title={history.past.length ? `Undo: ${history.past[history.past.length - 1].label}` : 'Nothing to undo'} className="p-1.5 text-stone-500 disabled:opacity-20 transition-transform active:scale-90"><Undo2 size={18} /></button>
+                <button onClick={redo} disabled={history.future.length === 0} title={history.future.length ? `Redo: ${history.future[0].label}` : 'Nothing to redo'} className="p-1.5 text-stone-500 disabled:opacity-20 transition-transform active:scale-90"><Redo2 size={18} /></button>
+              </div>
+            )}
+            <button onClick={() => setView({ type: 'analytics' })} className="w-14 h-14 rounded-full flex items-center justify-center text-stone-500 glass-card border-white/5 transition-transform active:scale-90" title="Analytics"><ChartColumn size={22} /></button>
             <button onClick={() => setShowSettings(true)} className="w-14 h-14 rounded-full flex items-center justify-center text-stone-500 glass-card border-white/5 transition-transform active:scale-90"><Database size={22} /></button>
             <button onClick={() => setView({ type: 'add-bean' })} className="btn-primary w-14 h-14 rounded-full flex items-center justify-center text-black shadow-amber-500/20 shadow-2xl transition-transform active:scale-90"><Plus size={26} strokeWidth={3} /></button>
           </div>
         </header>
 
+        {storageError && (
+          <div className="glass-card mb-8 mx-2 p-5 rounded-[2rem] border-red-500/30 flex items-start gap-3">
+            <p className="flex-1 text-[11px] font-bold text-red-400 leading-snug">{storageError}</p>
+            <button onClick={() => setStorageError(null)} className="text-stone-500"><X size={16} /></button>
+          </div>
+        )}
+
+        {beans.length > 0 && (
+          <div className="mb-6 px-2 space-y-4">
+            <div className="flex gap-3">
+              <div className="flex-1 flex items-center gap-3 glass-card rounded-[2rem] px-5 border-white/5">
+                <Search size={16} className="text-stone-600 flex-shrink-0" />
+                <input type="search" placeholder="Search roaster, bean, notes…" className="flex-1 min-w-0 bg-transparent py-4 text-sm text-white outline-none" value={filter.query} onChange={e => setFilter({ query: e.target.value })} />
+              </div>
+              <button onClick={() => setBrowse({ ...browse, showFilters: !browse.showFilters })} className={`w-14 h-14 rounded-full flex items-center justify-center glass-card border-white/5 flex-shrink-0 transition-colors ${filtering ? 'text-amber-500' : 'text-stone-500'}`}><Filter size={20} /></button>
+            </div>
+
+            {browse.showFilters && (
+              <div className="glass-card p-6 rounded-[2.5rem] border-white/5 space-y-5">
+                <div className="flex flex-wrap gap-2">
+                  {ORIGIN_TYPES.map(o => (
+                    <button key={o} onClick={() => setFilter({ originTypes: toggleIn(filter.originTypes, o) })} className={`px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${filter.originTypes.includes(o) ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{o}</button>
+                  ))}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {ROAST_TYPES.map(rt => (
+                    <button key={rt} onClick={() => setFilter({ roastTypes: toggleIn(filter.roastTypes, rt) })} className={`px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest transition-all ${filter.roastTypes.includes(rt) ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{rt}</button>
+                  ))}
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block">
+                    <span className="text-[8px] font-black text-stone-700 uppercase tracking-widest block mb-2">Min Rating</span>
+                    <input type="number" min="0" max="10" step="0.5" className="w-full bg-white/5 rounded-2xl p-3 text-white text-sm outline-none" value={filter.minRating} onChange={e => setFilter({ minRating: +e.target.value })} />
+                  </label>
+                  <label className="block">
+                    <span className="text-[8px] font-black text-stone-700 uppercase tracking-widest block mb-2">Max Rating</span>
+                    <input type="number" min="0" max="10" step="0.5" className="w-full bg-white/5 rounded-2xl p-3 text-white text-sm outline-none" value={filter.maxRating} onChange={e => setFilter({ maxRating: +e.target.value })} />
+                  </label>
+                  <label className="block">
+                    <span className="text-[8px] font-black text-stone-700 uppercase tracking-widest block mb-2">From</span>
+                    <input type="date" className="w-full bg-white/5 rounded-2xl p-3 text-white text-sm outline-none" value={filter.from} onChange={e => setFilter({ from: e.target.value })} />
+                  </label>
+                  <label className="block">
+                    <span className="text-[8px] font-black text-stone-700 uppercase tracking-widest block mb-2">To</span>
+                    <input type="date" className="w-full bg-white/5 rounded-2xl p-3 text-white text-sm outline-none" value={filter.to} onChange={e => setFilter({ to: e.target.value })} />
+                  </label>
+                </div>
+                {filtering && (
+                  <button onClick={() => setFilter(EMPTY_FILTER)} className="w-full py-3 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest text-stone-400">Clear Filters</button>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {([['bags', 'Bags'], ['shots', 'All Shots']] as const).map(([id, label]) => (
+                <button key={id} onClick={() => setBrowse({ ...browse, mode: id })} className={`flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${mode === id ? 'bg-white/10 text-white' : 'text-stone-600'}`}>{label}</button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {beans.length > 0 && (
           <div className="flex gap-2 mb-8 px-2 overflow-x-auto no-scrollbar pb-2">
             {[
@@ -251,6 +965,11 @@ const App: React.FC = () => {
                 {opt.label}
               </button>
             ))}
+            {mode === 'bags' && (
+              <select value={browse.groupBy} onChange={e => setBrowse({ ...browse, groupBy: e.target.value as BeanGrouping })} className="ml-auto px-4 py-2 rounded-full bg-white/5 border border-white/5 text-[10px] font-black uppercase tracking-widest text-stone-400 outline-none">
+                {BEAN_GROUPINGS.map(g => <option key={g.id} value={g.id}>By {g.label}</option>)}
+              </select>
+            )}
           </div>
         )}
 
@@ -263,33 +982,70 @@ const App: React.FC = () => {
           <p className="text-stone-500 text-sm mb-10 text-center max-w-[200px]">Initialize your first bag of beans to start dialling in.</p>
           <button onClick={() => setView({ type: 'add-bean' })} className="btn-primary px-10 py-5 rounded-[2rem] font-black text-black text-[12px] uppercase tracking-widest">Register New Bag</button>
         </div>
-      ) : (
-        <div className="space-y-6 pb-32">
-          {sortedBeans.map(bean => {
-            const bShots = shots.filter(s => s.beanId === bean.id);
-            const avgRating = bShots.length > 0 ? (bShots.reduce((a, s) => a + s.rating, 0) / bShots.length).toFixed(1) : null;
+      ) : mode === 'shots' ? (
+        <div className="space-y-4 pb-32">
+          <p className="text-[10px] font-black text-stone-700 uppercase tracking-widest px-4">{matchingShots.length} of {shots.length} shots</p>
+          {matchingShots.map(shot => {
+            const bean = beanById.get(shot.beanId);
+            if (!bean) return null;
             return (
-              <button key={bean.id} onClick={() => setView({ type: 'bean-details', beanId: bean.id })} className="glass-card w-full p-4 rounded-[38px] flex items-center text-left transition-transform active:scale-[0.98]">
-                <div className="w-20 h-20 rounded-[28px] overflow-hidden mr-5 bg-stone-900 border border-white/5 flex-shrink-0">
-                  {bean.image ? (
-                    <img src={bean.image} className="w-full h-full object-cover opacity-80" alt={bean.name} />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center"><Coffee className="text-stone-700" size={24} /></div>
-                  )}
+              <button key={shot.id} onClick={() => setView({ type: 'bean-details', beanId: bean.id })} className="glass-card w-full p-6 rounded-[2.5rem] text-left space-y-3 border-white/5 transition-transform active:scale-[0.98]">
+                <div className="flex items-center gap-3">
+                  <div className="bg-amber-500 text-black px-2.5 py-0.5 rounded-full text-[10px] font-black">{shot.rating.toFixed(1)}</div>
+                  <span className="text-[10px] font-black text-stone-600 uppercase tracking-tighter">{new Date(shot.timestamp).toLocaleDateString()}</span>
+                  <span className="flex-1 min-w-0 text-right text-[10px] font-black text-amber-500/70 uppercase tracking-widest truncate">{bean.roaster} · {bean.name}</span>
                 </div>
-                <div className="flex-1 min-w-0 pr-4">
-                  <div className="flex items-center gap-2 mb-1.5">
-                    <span className="text-[7px] font-black uppercase tracking-[0.2em] text-amber-500 bg-amber-500/10 px-1.5 py-0.5 rounded-sm">{bean.roastType}</span>
-                    {avgRating && <div className="flex items-center gap-1 text-[9px] font-bold text-amber-200/80"><Star size={8} className="fill-amber-500 text-amber-500" />{avgRating}</div>}
-                  </div>
-                  <h3 className="text-xl font-display text-white mb-0.5 truncate">{bean.name}</h3>
-                  <p className="text-stone-500 text-xs font-semibold truncate uppercase tracking-tighter">{bean.roaster}</p>
+                <div className="flex justify-between text-[12px] font-bold text-stone-300">
+                  <span>{formatWeights(shot)}</span>
+                  <span>{formatBrewTime(shotMethod(shot), shot.time)}</span>
+                  <span className="text-amber-500/60 text-[10px] font-black uppercase tracking-widest">G:{shot.grindSetting}</span>
                 </div>
-                <ChevronRight size={20} className="text-stone-600 flex-shrink-0" />
+                {shot.notes && <p className="text-[11px] text-stone-400 italic leading-snug line-clamp-2">{shot.notes}</p>}
               </button>
             );
           })}
         </div>
+      ) : sections.length === 0 && filtering ? (
+        <p className="text-center py-16 text-stone-600 text-[10px] font-black uppercase tracking-widest">No bags match</p>
+      ) : (
+        <div className="space-y-10 pb-32">
+          {sections.map(section => (
+            <div key={section.id} className="space-y-6">
+              <h2 className="text-[11px] font-black text-stone-700 uppercase tracking-widest px-4">{section.label} <span className="text-stone-800">{section.beans.length}</span></h2>
+              {section.beans.map(bean => {
+                const bShots = shots.filter(s => s.beanId === bean.id);
+                const avgRating = averageRating(bShots)?.toFixed(1);
+                const rested = daysOffRoast(bean, Date.now());
+                const remaining = remainingWeight(bean, shots);
+                return (
+                  <button key={bean.id} onClick={() => setView({ type: 'bean-details', beanId: bean.id })} className="glass-card w-full p-4 rounded-[38px] flex items-center text-left transition-transform active:scale-[0.98]">
+                    <div className="w-20 h-20 rounded-[28px] overflow-hidden mr-5 bg-stone-900 border border-white/5 flex-shrink-0">
+                      {bean.imageId && imageUrls[bean.imageId] ? (
+                        <img src={imageUrls[bean.imageId]} className="w-full h-full object-cover opacity-80" alt={bean.name} />
+                      ) : (
+                        <div className="w-full h-full flex items-center justify-center"><Coffee className="text-stone-700" size={24} /></div>
+                      )}
+                    </div>
+                    <div className="flex-1 min-w-0 pr-4">
+                      <div className="flex items-center gap-2 mb-1.5">
+                        <span className="text-[7px] font-black uppercase tracking-[0.2em] text-amber-500 bg-amber-500/10 px-1.5 py-0.5 rounded-sm">{bean.roastType}</span>
+                        {avgRating && <div className="flex items-center gap-1 text-[9px] font-bold text-amber-200/80"><Star size={8} className="fill-amber-500 text-amber-500" />{avgRating}</div>}
+                      </div>
+                      <h3 className="text-xl font-display text-white mb-0.5 truncate">{bean.name}</h3>
+                      <p className="text-stone-500 text-xs font-semibold truncate uppercase tracking-tighter">{[bean.roaster, bean.country, bean.process].filter(Boolean).join(' · ')}</p>
+                      {(rested !== undefined || remaining !== undefined) && (
+                        <p className="text-[9px] font-black text-stone-600 uppercase tracking-widest mt-1">
+                          {[rested !== undefined && `${rested}d off roast`, remaining !== undefined && `${Math.round(remaining)}g left`].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                    <ChevronRight size={20} className="text-stone-600 flex-shrink-0" />
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+        </div>
       )}
 
       {showSettings && (
@@ -301,11 +1057,51 @@ const App: React.FC = () => {
                 <h3 className="text-3xl font-display text-white mb-1">Data Vault</h3>
                 <p className="text-stone-500 text-xs font-bold uppercase tracking-widest">v0.5.3 Local Archive</p>
             </div>
+            {storageUsage && (
+              <div className="px-7 py-5 bg-white/5 rounded-[2rem] border border-white/5 space-y-3">
+                <div className="flex justify-between items-baseline">
+                  <span className="text-[10px] font-black text-stone-600 uppercase tracking-widest">Storage Used</span>
+                  <span className="text-white font-bold text-sm">
+                    {storageUsage.usage !== undefined ? formatBytes(storageUsage.usage) : '—'}
+                    {storageUsage.quota ? <span className="text-stone-600 text-[10px] ml-1">/ {formatBytes(storageUsage.quota)}</span> : null}
+                  </span>
+                </div>
+                {storageUsage.usage !== undefined && storageUsage.quota ? (
+                  <div className="h-1.5 bg-white/5 rounded-full overflow-hidden">
+                    <div className="h-full bg-amber-500" style={{ width: `${Math.max(1, Math.min(100, storageUsage.usage / storageUsage.quota * 100))}%` }} />
+                  </div>
+                ) : null}
+                <p className="text-[10px] text-stone-500 font-bold">{beans.length} bags · {shots.length} shots · {storageUsage.imageCount} photos ({formatBytes(storageUsage.imageBytes)})</p>
+              </div>
+            )}
             <div className="space-y-4 pt-4">
               <button onClick={exportData} className="w-full flex items-center justify-between p-7 bg-white/5 rounded-[2.5rem] border border-white/5 hover:bg-white/10 transition-colors"><span className="text-white font-bold">Export Backup</span><Download className="text-stone-500" /></button>
               <button onClick={() => fileInputRef.current?.click()} className="w-full flex items-center justify-between p-7 bg-white/5 rounded-[2.5rem] border border-white/5 hover:bg-white/10 transition-colors"><span className="text-white font-bold">Restore Backup</span><Upload className="text-stone-500" /></button>
               <input type="file" ref={fileInputRef} onChange={handleImport} className="hidden" accept=".json" />
-              <button onClick={() => (window as unknown as { emergencyReset: () => void }).emergencyReset()} className="w-full py-4 text-stone-600 text-[10px] font-black uppercase tracking-widest hover:text-red-500 transition-colors">Emergency System Reset</button>
+              <button onClick={() => { setShowSettings(false); setView({ type: 'sync' }); }} className="w-full flex items-center justify-between p-7 bg-white/5 rounded-[2.5rem] border border-white/5 hover:bg-white/10 transition-colors"><span className="text-white font-bold">Sync Devices</span><Smartphone className="text-stone-500" /></button>
+              <div className="flex gap-4">
+                <button onClick={exportCsv} className="flex-1 flex items-center justify-between p-6 bg-white/5 rounded-[2rem] border border-white/5 hover:bg-white/10 transition-colors"><span className="text-white font-bold text-sm">Export CSV</span><FileSpreadsheet size={18} className="text-stone-500" /></button>
+                <button onClick={() => csvInputRef.current?.click()} className="flex-1 flex items-center justify-between p-6 bg-white/5 rounded-[2rem] border border-white/5 hover:bg-white/10 transition-colors"><span className="text-white font-bold text-sm">Import CSV</span><Upload size={18} className="text-stone-500" /></button>
+              </div>
+              <input type="file" ref={csvInputRef} onChange={handleCsvImport} className="hidden" accept=".csv,text/csv" />
+              <button onClick={() => { setShowSettings(false); setView({ type: 'equipment' }); }} className="w-full flex items-center justify-between p-7 bg-white/5 rounded-[2.5rem] border border-white/5 hover:bg-white/10 transition-colors"><span className="text-white font-bold">Equipment</span><SlidersHorizontal className="text-stone-500" /></button>
+              <button onClick={() => { setShowSettings(false); setView({ type: 'trash' }); }} className="w-full flex items-center justify-between p-7 bg-white/5 rounded-[2.5rem] border border-white/5 hover:bg-white/10 transition-colors">
+                <span className="text-white font-bold">Trash{trashCount > 0 && <span className="text-stone-500 font-black ml-2">{trashCount}</span>}</span><Trash2 className="text-stone-500" />
+              </button>
+              {quarantine.length > 0 && (
+                <div className="p-7 bg-red-500/5 rounded-[2.5rem] border border-red-500/20 space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-white font-bold">Quarantined Records</span>
+                    <span className="text-red-400 font-black">{quarantine.length}</span>
+                  </div>
+                  <p className="text-[10px] text-stone-500 leading-snug">These records failed validation and are hidden from the archive.</p>
+                  <div className="flex gap-3">
+                    <button onClick={exportQuarantine} className="flex-1 py-3 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest text-stone-300">Export</button>
+                    <button onClick={discardQuarantine} className="flex-1 py-3 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest text-red-400">Discard</button>
+                  </div>
+                </div>
+              )}
+              <button onClick={() => { setShowSettings(false); setView({ type: 'app-cache' }); }} className="w-full py-4 text-stone-600 text-[10px] font-black uppercase tracking-widest hover:text-amber-500 transition-colors">App Cache & Updates</button>
             </div>
           </div>
         </div>
@@ -322,36 +1118,93 @@ const App: React.FC = () => {
       originType: existing?.originType || 'Single Origin' as OriginType, 
       roastType: existing?.roastType || 'Medium' as RoastType, 
       tastingNotes: existing?.tastingNotes || '',
-      image: existing?.image || ''
+      flavourTags: existing?.flavourTags || [] as string[],
+      country: existing?.country || '',
+      region: existing?.region || '',
+      farm: existing?.farm || '',
+      process: existing?.process,
+      varietal: existing?.varietal || '',
+      altitude: existing?.altitude,
+      imageId: existing?.imageId,
+      roastDate: existing?.roastDate || '',
+      openDate: existing?.openDate || '',
+      bagWeight: existing?.bagWeight,
+      status: existing?.status || 'active' as BagStatus
     });
+    const [flavourCategoryOpen, setFlavourCategoryOpen] = useState(FLAVOUR_WHEEL[0].name);
+    // Kept local until submit: touching App state here would remount the form
+    const [photo, setPhoto] = useState<{ id: string; url: string } | null>(null);
+    const photoUrl = photo?.url ?? (formData.imageId ? imageUrls[formData.imageId] : undefined);
     const photoInputRef = useRef<HTMLInputElement>(null);
+    // What the bag's label says, read on the device; nothing is filled in until the user picks it
+    const [label, setLabel] = useState<LabelSuggestion | 'reading' | 'unavailable' | null>(null);
+    const labelFields = label && typeof label === 'object' ? LABEL_FIELDS.filter(f => label[f.id] !== undefined) : [];
 
     const handlePhotoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
       if (file) {
         try {
           const compressed = await compressImage(file);
-          setFormData({ ...formData, image: compressed });
+          const id = await storeImage(compressed);
+          setPhoto({ id, url: URL.createObjectURL(compressed) });
+          setFormData(prev => ({ ...prev, imageId: id }));
         } catch {
           alert("Error processing image.");
+          return;
         }
+        if (!isLabelScanSupported()) return setLabel('unavailable');
+        // The original file rather than the thumbnail, so small print stays legible
+        setLabel('reading');
+        readLabel(file)
+          .then(lines => setLabel(suggestFromLabel(lines, [...new Set(beans.map(b => b.roaster))])))
+          .catch(() => setLabel({}));
       }
     };
 
+    const applyLabel = (fields: LabelField[]) => {
+      if (!label || typeof label !== 'object') return;
+      setFormData(prev => {
+        const picked = Object.fromEntries(fields.map(f => [f, label[f]]));
+        // Notes read off the label tag the wheel flavours they name, as the v6 migration did for older bags (typed notes aren't tagged)
+        const tags = fields.includes('tastingNotes') && label.tastingNotes ? flavoursIn(label.tastingNotes) : [];
+        return { ...prev, ...picked, flavourTags: [...new Set([...prev.flavourTags, ...tags])] };
+      });
+      const rest = Object.fromEntries(Object.entries(label).filter(([f]) => !fields.includes(f as LabelField)));
+      setLabel(Object.keys(rest).length > 0 ? rest : null);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (photo) rememberImage(photo.id, photo.url);
+      // Blank fields are written as undefined so clearing one on edit sticks
+      const bean = {
+        ...formData,
+        roastDate: formData.roastDate || undefined,
+        openDate: formData.openDate || undefined,
+        flavourTags: formData.flavourTags.length > 0 ? formData.flavourTags : undefined,
+        country: formData.country.trim() || undefined,
+        region: formData.region.trim() || undefined,
+        farm: formData.farm.trim() || undefined,
+        varietal: formData.varietal.trim() || undefined,
+        status: formData.status === 'active' ? undefined : formData.status,
+      };
+      if (existing) { updateBean(existing.id, bean); } else { addBean(bean); }
+    };
+
     return (
       <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
         <header className="flex items-center justify-between mb-10 mt-4 px-2">
-          <button onClick={() => setView(existing ? { type: 'bean-details', beanId: existing.id } : { type: 'bean-list' })} className="glass-card w-14 h-14 rounded-full flex items-center justify-center text-stone-500"><ChevronLeft size={28} /></button>
+          <button onClick={() => goBack(existing ? { type: 'bean-details', beanId: existing.id } : { type: 'bean-list' })} className="glass-card w-14 h-14 rounded-full flex items-center justify-center text-stone-500"><ChevronLeft size={28} /></button>
           <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">{existing ? 'Update' : 'Register'}</h2>
           <div className="w-14" />
         </header>
 
-        <form onSubmit={e => { e.preventDefault(); if (existing) { updateBean(existing.id, formData); } else { addBean(formData); } }} className="space-y-10 flex-1 flex flex-col pb-12">
+        <form onSubmit={handleSubmit} className="space-y-10 flex-1 flex flex-col pb-12">
           <div className="flex justify-center mb-4">
             <button type="button" onClick={() => photoInputRef.current?.click()} className="relative w-32 h-32 rounded-[2.5rem] overflow-hidden glass-card border-white/10 flex items-center justify-center transition-transform active:scale-95 group">
-              {formData.image ? (
+              {photoUrl ? (
                 <>
-                  <img src={formData.image} className="w-full h-full object-cover" />
+                  <img src={photoUrl} className="w-full h-full object-cover" />
                   <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity"><Edit3 size={24} className="text-white" /></div>
                 </>
               ) : (
@@ -364,6 +1217,37 @@ const App: React.FC = () => {
             </button>
           </div>
 
+          {label && (
+            <div className="glass-card p-8 rounded-[48px] space-y-5 border-amber-500/20 bg-amber-500/[0.03]">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-amber-500 text-[10px] font-black uppercase tracking-[0.3em]"><ScanLine size={14} /> From the Label</span>
+                {label !== 'reading' && <button type="button" onClick={() => setLabel(null)} className="text-stone-600 p-1" title="Dismiss"><X size={14} /></button>}
+              </div>
+              {label === 'reading' ? (
+                <p className="text-[10px] font-bold text-stone-500 uppercase tracking-widest">Reading the label…</p>
+              ) : label === 'unavailable' ? (
+                <p className="text-[10px] font-bold text-stone-500">This browser can't read text from photos; fill in the details by hand.</p>
+              ) : labelFields.length === 0 ? (
+                <p className="text-[10px] font-bold text-stone-500">No bag details could be read from this photo.</p>
+              ) : (
+                <>
+                  {labelFields.map(f => (
+                    <div key={f.id} className="flex items-center justify-between gap-4">
+                      <div className="min-w-0">
+                        <span className="text-[8px] font-black text-stone-600 uppercase tracking-widest block">{f.label}</span>
+                        <span className="text-sm font-bold text-stone-200 break-words">{label[f.id]}</span>
+                      </div>
+                      <button type="button" onClick={() => applyLabel([f.id])} className="px-4 py-2 rounded-full bg-white/5 text-[9px] font-black uppercase tracking-widest text-stone-300 flex-shrink-0">Use</button>
+                    </div>
+                  ))}
+                  {labelFields.length > 1 && (
+                    <button type="button" onClick={() => applyLabel(labelFields.map(f => f.id))} className="w-full py-4 rounded-2xl bg-amber-500/10 text-amber-500 text-[10px] font-black uppercase tracking-widest">Use All</button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           <div className="glass-card p-8 rounded-[48px] space-y-6 shadow-2xl">
             <input required type="text" placeholder="Roaster" className="w-full bg-white/5 border border-white/5 rounded-[2rem] p-6 text-white outline-none focus:border-amber-500/30 transition-colors" value={formData.roaster} onChange={e => setFormData({ ...formData, roaster: e.target.value })} />
             <input required type="text" placeholder="Bean Name" className="w-full bg-white/5 border border-white/5 rounded-[2rem] p-6 text-white outline-none focus:border-amber-500/30 transition-colors" value={formData.name} onChange={e => setFormData({ ...formData, name: e.target.value })} />
@@ -372,24 +1256,87 @@ const App: React.FC = () => {
           <div className="grid grid-cols-2 gap-6">
             <div className="glass-card p-8 rounded-[48px]">
               <label className="text-[10px] font-black text-stone-600 uppercase mb-6 block">Origin</label>
-              {['Single Origin', 'Blend'].map(t => (
-                <button key={t} type="button" onClick={() => setFormData({...formData, originType: t as OriginType})} className={`w-full py-4 mb-3 rounded-2xl text-[10px] font-black transition-all ${formData.originType === t ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'bg-white/5 text-stone-500 hover:text-stone-300'}`}>{t}</button>
+              {ORIGIN_TYPES.map(t => (
+                <button key={t} type="button" onClick={() => setFormData({...formData, originType: t})} className={`w-full py-4 mb-3 rounded-2xl text-[10px] font-black transition-all ${formData.originType === t ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'bg-white/5 text-stone-500 hover:text-stone-300'}`}>{t}</button>
               ))}
             </div>
             <div className="glass-card p-8 rounded-[48px] overflow-auto">
               <label className="text-[10px] font-black text-stone-600 uppercase mb-6 block">Roast</label>
               <div className="space-y-2 max-h-[220px] overflow-y-auto pr-1">
-                {['Light-Medium', 'Medium', 'Omni', 'Medium-Dark', 'Dark'].map(r => (
-                  <button key={r} type="button" onClick={() => setFormData({...formData, roastType: r as RoastType})} className={`w-full text-left p-2.5 rounded-lg text-[10px] font-bold tracking-wide transition-colors ${formData.roastType === r ? 'text-amber-500 bg-amber-500/5' : 'text-stone-600 hover:text-stone-400'}`}>{r}</button>
+                {ROAST_TYPES.map(r => (
+                  <button key={r} type="button" onClick={() => setFormData({...formData, roastType: r})} className={`w-full text-left p-2.5 rounded-lg text-[10px] font-bold tracking-wide transition-colors ${formData.roastType === r ? 'text-amber-500 bg-amber-500/5' : 'text-stone-600 hover:text-stone-400'}`}>{r}</button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="glass-card p-8 rounded-[48px] space-y-6 shadow-xl">
+            <label className="text-[10px] font-black text-stone-600 uppercase block">Bag</label>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <span className="text-[8px] font-black text-stone-700 uppercase tracking-widest block mb-2">Roasted</span>
+                <input type="date" max={toCalendarDate(Date.now())} className="w-full bg-white/5 border border-white/5 rounded-2xl p-4 text-white text-sm outline-none focus:border-amber-500/30 transition-colors" value={formData.roastDate} onChange={e => setFormData({ ...formData, roastDate: e.target.value })} />
+              </div>
+              <div>
+                <span className="text-[8px] font-black text-stone-700 uppercase tracking-widest block mb-2">Opened</span>
+                <input type="date" min={formData.roastDate || undefined} className="w-full bg-white/5 border border-white/5 rounded-2xl p-4 text-white text-sm outline-none focus:border-amber-500/30 transition-colors" value={formData.openDate} onChange={e => setFormData({ ...formData, openDate: e.target.value })} />
+              </div>
+            </div>
+            <div>
+              <span className="text-[8px] font-black text-stone-700 uppercase tracking-widest block mb-2">Bag Weight (g)</span>
+              <input type="number" min="1" step="1" placeholder="e.g. 250" className="w-full bg-white/5 border border-white/5 rounded-2xl p-4 text-white outline-none focus:border-amber-500/30 transition-colors" value={formData.bagWeight ?? ''} onChange={e => setFormData({ ...formData, bagWeight: e.target.value === '' ? undefined : +e.target.value })} />
+            </div>
+            <div className="flex gap-2">
+              {BAG_STATUSES.map(st => (
+                <button key={st.id} type="button" onClick={() => setFormData({ ...formData, status: st.id })} className={`flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${formData.status === st.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{st.label}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="glass-card p-8 rounded-[48px] space-y-4 shadow-xl">
+            <label className="text-[10px] font-black text-stone-600 uppercase block">Origin Details</label>
+            <div className="grid grid-cols-2 gap-4">
+              <input type="text" placeholder="Country" className="w-full bg-white/5 border border-white/5 rounded-2xl p-4 text-white text-sm outline-none focus:border-amber-500/30 transition-colors" value={formData.country} onChange={e => setFormData({ ...formData, country: e.target.value })} />
+              <input type="text" placeholder="Region" className="w-full bg-white/5 border border-white/5 rounded-2xl p-4 text-white text-sm outline-none focus:border-amber-500/30 transition-colors" value={formData.region} onChange={e => setFormData({ ...formData, region: e.target.value })} />
+              <input type="text" placeholder="Farm / Washing Station" className="w-full bg-white/5 border border-white/5 rounded-2xl p-4 text-white text-sm outline-none focus:border-amber-500/30 transition-colors" value={formData.farm} onChange={e => setFormData({ ...formData, farm: e.target.value })} />
+              <input type="text" placeholder="Varietal" className="w-full bg-white/5 border border-white/5 rounded-2xl p-4 text-white text-sm outline-none focus:border-amber-500/30 transition-colors" value={formData.varietal} onChange={e => setFormData({ ...formData, varietal: e.target.value })} />
+            </div>
+            <input type="number" min="0" max="9000" step="10" placeholder="Altitude (m)" className="w-full bg-white/5 border border-white/5 rounded-2xl p-4 text-white text-sm outline-none focus:border-amber-500/30 transition-colors" value={formData.altitude ?? ''} onChange={e => setFormData({ ...formData, altitude: e.target.value === '' ? undefined : +e.target.value })} />
+            <div className="flex gap-2">
+              {PROCESSES.map(pr => (
+                <button key={pr} type="button" onClick={() => setFormData({ ...formData, process: formData.process === pr ? undefined : pr as Process })} className={`flex-1 py-3 rounded-2xl text-[9px] font-black uppercase tracking-widest transition-all ${formData.process === pr ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{pr}</button>
+              ))}
+            </div>
+          </div>
+
+          <div className="glass-card p-8 rounded-[48px] space-y-4 shadow-xl">
+            <label className="text-[10px] font-black text-stone-600 uppercase block">Flavour Wheel</label>
+            {formData.flavourTags.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {formData.flavourTags.map(tag => (
+                  <button key={tag} type="button" onClick={() => setFormData({ ...formData, flavourTags: formData.flavourTags.filter(t => t !== tag) })} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[10px] font-bold ${FLAVOUR_CHIP[flavourCategory(tag)?.color ?? 'stone']}`}>{tag} <X size={10} /></button>
                 ))}
               </div>
+            )}
+            <div className="flex gap-2 overflow-x-auto no-scrollbar">
+              {FLAVOUR_WHEEL.map(c => (
+                <button key={c.name} type="button" onClick={() => setFlavourCategoryOpen(c.name)} className={`px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${flavourCategoryOpen === c.name ? 'bg-white/15 text-white' : 'text-stone-600'}`}>{c.name}</button>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {FLAVOUR_WHEEL.find(c => c.name === flavourCategoryOpen)?.notes.map(note => {
+                const picked = formData.flavourTags.includes(note);
+                return (
+                  <button key={note} type="button" onClick={() => setFormData({ ...formData, flavourTags: picked ? formData.flavourTags.filter(t => t !== note) : [...formData.flavourTags, note] })} className={`px-3 py-1.5 rounded-full text-[10px] font-bold transition-all ${picked ? FLAVOUR_CHIP[flavourCategory(note)?.color ?? 'stone'] : 'bg-white/5 text-stone-500'}`}>{note}</button>
+                );
+              })}
             </div>
           </div>
 
           <div className="glass-card p-8 rounded-[48px] shadow-xl">
             <label className="text-[10px] font-black text-stone-600 uppercase mb-4 block">Tasting Notes</label>
             <textarea 
-              placeholder="e.g. Milk Chocolate, Stone Fruit..." 
+              placeholder="Anything the wheel doesn't cover..." 
               className="w-full bg-white/5 border border-white/5 rounded-[2rem] p-6 text-white outline-none focus:border-amber-500/30 transition-colors min-h-[120px] resize-none" 
               value={formData.tastingNotes} 
               onChange={e => setFormData({ ...formData, tastingNotes: e.target.value })}
@@ -401,7 +1348,7 @@ const App: React.FC = () => {
               {existing ? 'Save Telemetry' : 'Register Bag'}
             </button>
             {existing && (
-              <button type="button" onClick={() => deleteBean(existing.id)} className="w-full mt-6 py-4 text-red-500/50 text-[10px] font-black uppercase tracking-widest hover:text-red-500 transition-colors">Discard Collection</button>
+              <button type="button" onClick={() => deleteBean(existing.id)} className="w-full mt-6 py-4 text-red-500/50 text-[10px] font-black uppercase tracking-widest hover:text-red-500 transition-colors">Move to Trash</button>
             )}
           </div>
         </form>
@@ -414,24 +1361,52 @@ const App: React.FC = () => {
     if (!bean) return null;
     const bShots = shots.filter(s => s.beanId === beanId);
     
-    // Custom optimal selection: Priority to manual marker, fallback to highest rating
-    const manualOptimal = bShots.find(s => s.isOptimal);
-    const bestShot = manualOptimal || [...bShots].sort((a, b) => b.rating - a.rating)[0];
+    // Custom optimal selection: Priority to manual marker, fallback to highest rating; one per brew method
+    const weighting = SHOT_WEIGHTINGS.find(w => w.id === bestWeighting) ?? SHOT_WEIGHTINGS[0];
+    const methods = methodsUsed(bShots);
+    const bestShots = methods.flatMap(m => {
+      const best = pickBestShot(bShots.filter(s => shotMethod(s) === m), weighting);
+      return best ? [best] : [];
+    });
+    const anySensory = bShots.some(hasSensory);
     
-    const sortedShots = [...bShots].sort((a, b) => sortOption === 'rating' ? b.rating - a.rating : b.timestamp - a.timestamp);
+    // Setup items and methods this bean's shots were pulled with; a filter left over from another bean is ignored
+    const setupOptions = [...grinders, ...equipment].filter(item => bShots.some(s => setupIds(s).includes(item.id)));
+    const activeSetup = setupOptions.some(o => o.id === historySetup) ? historySetup : null;
+    const activeMethod = historyMethod && methods.includes(historyMethod) ? historyMethod : null;
+    // Charts only compare like with like: the filtered method, else the one brewed last
+    const chartMethod = activeMethod ?? shotMethod([...bShots].sort((a, b) => b.timestamp - a.timestamp)[0] ?? {});
+    const chartShots = bShots.filter(s => shotMethod(s) === chartMethod);
+    const sortedShots = bShots.filter(s => (!activeSetup || setupIds(s).includes(activeSetup)) && (!activeMethod || shotMethod(s) === activeMethod)).sort((a, b) => {
+      if (historySort === 'rating') return b.rating - a.rating;
+      if (historySort === 'grind') return (grindNumber(a) ?? Infinity) - (grindNumber(b) ?? Infinity) || b.timestamp - a.timestamp;
+      return b.timestamp - a.timestamp;
+    });
+    const grinderName = (shot: Shot) => grinders.find(g => g.id === shot.grind?.grinderId)?.name;
+    const paramsOf = (shot: Shot) => BREW_PARAMS.filter(p => shot[p.id] !== undefined);
+    const rested = daysOffRoast(bean, Date.now());
+    const remaining = remainingWeight(bean, shots);
+    const originDetails = ([
+      ['Country', bean.country],
+      ['Region', bean.region],
+      ['Farm', bean.farm],
+      ['Process', bean.process],
+      ['Varietal', bean.varietal],
+      ['Altitude', bean.altitude !== undefined ? `${bean.altitude} m` : undefined],
+    ] as [string, string | undefined][]).filter((entry): entry is [string, string] => !!entry[1]);
 
     return (
       <div className="min-h-[100dvh] pt-safe pb-safe bg-[#050505] fade-in flex flex-col">
         <div className="relative h-[45vh] w-full overflow-hidden">
-          {bean.image ? (
-            <img src={bean.image} className="absolute inset-0 w-full h-full object-cover" alt={bean.name} />
+          {bean.imageId && imageUrls[bean.imageId] ? (
+            <img src={imageUrls[bean.imageId]} className="absolute inset-0 w-full h-full object-cover" alt={bean.name} />
           ) : (
             <div className="absolute inset-0 bg-stone-900 flex items-center justify-center opacity-30"><Coffee size={120} className="text-stone-700" /></div>
           )}
           <div className="absolute inset-0 bg-gradient-to-b from-black/40 via-transparent to-[#050505]" />
           
           <div className="absolute top-0 left-0 right-0 p-8 flex justify-between items-center mt-2">
-            <button onClick={() => setView({ type: 'bean-list' })} className="glass-card p-4 rounded-3xl text-white backdrop-blur-md transition-transform active:scale-95"><ChevronLeft size={24} /></button>
+            <button onClick={() => goBack({ type: 'bean-list' })} className="glass-card p-4 rounded-3xl text-white backdrop-blur-md transition-transform active:scale-95"><ChevronLeft size={24} /></button>
             <button onClick={() => setView({ type: 'edit-bean', beanId: bean.id })} className="glass-card p-4 rounded-3xl text-white backdrop-blur-md transition-transform active:scale-95"><Edit3 size={20} /></button>
           </div>
 
@@ -453,40 +1428,138 @@ const App: React.FC = () => {
             </div>
           </div>
 
-          {bean.tastingNotes && (
-             <div className="glass-card p-8 rounded-[48px] border-white/5">
-                <h3 className="text-[10px] font-black text-stone-700 uppercase tracking-widest mb-3">Tasting Profile</h3>
-                <p className="text-stone-300 font-medium leading-relaxed italic">"{bean.tastingNotes}"</p>
-             </div>
+          {(rested !== undefined || remaining !== undefined || bean.status) && (
+            <div className="flex gap-4">
+              {rested !== undefined && (
+                <div className="glass-card flex-1 p-5 rounded-[2.5rem] text-center">
+                  <span className="text-[8px] font-black text-stone-600 uppercase block mb-1 tracking-widest">Off Roast</span>
+                  <span className="text-xs font-bold text-stone-200">{rested} days</span>
+                </div>
+              )}
+              {remaining !== undefined && (
+                <div className="glass-card flex-1 p-5 rounded-[2.5rem] text-center">
+                  <span className="text-[8px] font-black text-stone-600 uppercase block mb-1 tracking-widest">Remaining</span>
+                  <span className={`text-xs font-bold ${remaining < (bestShots[0]?.dose ?? 18) ? 'text-orange-400' : 'text-stone-200'}`}>{Math.round(remaining)}g of {bean.bagWeight}g</span>
+                </div>
+              )}
+              {bean.status && (
+                <div className="glass-card flex-1 p-5 rounded-[2.5rem] text-center">
+                  <span className="text-[8px] font-black text-stone-600 uppercase block mb-1 tracking-widest">Bag</span>
+                  <span className="text-xs font-bold text-stone-200">{BAG_STATUSES.find(st => st.id === bean.status)?.label}</span>
+                </div>
+              )}
+            </div>
           )}
 
-          <div className="glass-card p-12 rounded-[64px] border-white/10 shadow-2xl relative overflow-hidden bg-white/[0.02]">
-            <h3 className="text-[11px] font-black text-white/50 uppercase tracking-[0.3em] mb-8 text-center">Optimal Logic</h3>
-            {bestShot ? (
-              <div className="space-y-8">
-                <div className="grid grid-cols-2 gap-x-6 gap-y-10 text-center relative z-10">
-                  <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Dose</p><p className="text-4xl font-display text-white">{bestShot.dose}<span className="text-xs ml-0.5 opacity-40 font-sans">g</span></p></div>
-                  <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Yield</p><p className="text-4xl font-display text-white">{bestShot.yield}<span className="text-xs ml-0.5 opacity-40 font-sans">g</span></p></div>
-                  <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Time</p><p className="text-4xl font-display text-white">{bestShot.time}<span className="text-xs ml-0.5 opacity-40 font-sans">s</span></p></div>
-                  <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Grind</p><p className="text-4xl font-display text-amber-500">{bestShot.grindSetting}</p></div>
+          {originDetails.length > 0 && (
+            <div className="glass-card p-8 rounded-[48px] border-white/5 grid grid-cols-2 gap-x-6 gap-y-5">
+              {originDetails.map(([label, value]) => (
+                <div key={label}>
+                  <span className="text-[8px] font-black text-stone-600 uppercase block mb-1 tracking-widest">{label}</span>
+                  <span className="text-sm font-bold text-stone-200">{value}</span>
                 </div>
-                {bestShot.notes && (
-                  <div className="pt-8 border-t border-white/5">
-                     <p className="text-[9px] font-black text-amber-500/50 uppercase tracking-[0.4em] mb-3 text-center">Observation</p>
-                     <p className="text-xs text-stone-400 text-center leading-relaxed italic max-w-xs mx-auto">"{bestShot.notes}"</p>
+              ))}
+            </div>
+          )}
+
+          {(bean.tastingNotes || bean.flavourTags) && (
+             <div className="glass-card p-8 rounded-[48px] border-white/5 space-y-4">
+                <h3 className="text-[10px] font-black text-stone-700 uppercase tracking-widest">Tasting Profile</h3>
+                {bean.flavourTags && (
+                  <div className="flex flex-wrap gap-2">
+                    {bean.flavourTags.map(tag => <span key={tag} className={`px-3 py-1.5 rounded-full text-[10px] font-bold ${FLAVOUR_CHIP[flavourCategory(tag)?.color ?? 'stone']}`}>{tag}</span>)}
                   </div>
                 )}
-              </div>
-            ) : <p className="text-stone-600 italic text-center py-4 font-bold uppercase tracking-widest text-[10px]">No extractions recorded</p>}
-          </div>
-
+                {bean.tastingNotes && <p className="text-stone-300 font-medium leading-relaxed italic">"{bean.tastingNotes}"</p>}
+             </div>
+          )}
+
+          <DialInPanel
+            bean={bean}
+            shots={bShots}
+            onSaveTarget={target => saveBeanTarget(beanId, target)}
+            onStartSession={() => startSession(beanId)}
+            onFinishSession={winnerId => finishSession(beanId, winnerId)}
+            onLogShot={() => setView({ type: 'add-shot', beanId })}
+            onRepeat={shotId => setView({ type: 'add-shot', beanId, fromShotId: shotId })}
+          />
+
+          <div className="glass-card p-12 rounded-[64px] border-white/10 shadow-2xl relative overflow-hidden bg-white/[0.02]">
+            <h3 className="text-[11px] font-black text-white/50 uppercase tracking-[0.3em] mb-8 text-center">Optimal Logic</h3>
+            {anySensory && bestShots.some(s => !s.isOptimal) && (
+              <div className="flex gap-2 mb-8 -mx-4 overflow-x-auto no-scrollbar justify-center">
+                {SHOT_WEIGHTINGS.map(w => (
+                  <button key={w.id} onClick={() => setBestWeighting(w.id)} className={`px-3 py-1.5 rounded-full text-[8px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${weighting.id === w.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{w.label}</button>
+                ))}
+              </div>
+            )}
+            {bestShots.length > 0 ? bestShots.map((bestShot, i) => {
+              const method = shotMethod(bestShot);
+              const profile = METHOD_PROFILES[method];
+              return (
+                <div key={method} className={`space-y-8 ${i > 0 ? 'mt-12 pt-12 border-t border-white/10' : ''}`}>
+                  {methods.length > 1 && <p className="text-[9px] font-black text-amber-500/50 uppercase tracking-[0.4em] text-center">{methodLabel(method)}</p>}
+                  <div className="grid grid-cols-2 gap-x-6 gap-y-10 text-center relative z-10">
+                    <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Dose</p><p className="text-4xl font-display text-white">{bestShot.dose}<span className="text-xs ml-0.5 opacity-40 font-sans">g</span></p></div>
+                    <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">{profile.yieldLabel}</p><p className="text-4xl font-display text-white">{bestShot.yield}<span className="text-xs ml-0.5 opacity-40 font-sans">g</span></p></div>
+                    <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Time</p><p className={`text-4xl font-display ${computeMetrics(bestShot, bean.roastType).time.status === 'ok' ? 'text-white' : 'text-orange-400'}`}>{method === 'espresso' ? <>{bestShot.time}<span className="text-xs ml-0.5 opacity-40 font-sans">s</span></> : formatBrewTime(method, bestShot.time)}</p></div>
+                    <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Grind</p><p className="text-4xl font-display text-amber-500">{bestShot.grindSetting}</p>{grinderName(bestShot) && <p className="text-[9px] text-stone-600 font-bold uppercase tracking-widest mt-1">{grinderName(bestShot)}</p>}</div>
+                  </div>
+                  {method !== 'espresso' && paramsOf(bestShot).length > 0 && (
+                    <div className="flex flex-wrap justify-center gap-x-6 gap-y-3 text-center">
+                      {paramsOf(bestShot).map(p => (
+                        <div key={p.id}><p className="text-[8px] text-stone-600 uppercase font-black mb-1 tracking-widest">{p.label}</p><p className="text-lg font-display text-stone-200">{bestShot[p.id]}{p.unit}</p></div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="pt-8 border-t border-white/5">
+                    <ShotMetrics shot={bestShot} roastType={bean.roastType} size="lg" />
+                  </div>
+                  {bestShot.notes && (
+                    <div className="pt-8 border-t border-white/5">
+                       <p className="text-[9px] font-black text-amber-500/50 uppercase tracking-[0.4em] mb-3 text-center">Observation</p>
+                       <p className="text-xs text-stone-400 text-center leading-relaxed italic max-w-xs mx-auto">"{bestShot.notes}"</p>
+                    </div>
+                  )}
+                  {method === 'espresso' && (
+                    <button onClick={() => setSharing({ beanId, shotId: bestShot.id })} className="w-full flex items-center justify-center gap-2 py-4 rounded-[2rem] bg-white/5 text-[10px] font-black uppercase tracking-widest text-stone-400 active:scale-[0.98] transition-transform">
+                      <Share2 size={14} /> Share Recipe
+                    </button>
+                  )}
+                </div>
+              );
+            }) : <p className="text-stone-600 italic text-center py-4 font-bold uppercase tracking-widest text-[10px]">No extractions recorded</p>}
+          </div>
+
+          {chartShots.length >= 2 && (
+            <div className="space-y-4">
+              <h3 className="text-[11px] font-black text-stone-700 uppercase tracking-widest px-4">Dial-In Trends{methods.length > 1 && ` · ${methodLabel(chartMethod)}`}</h3>
+              <DialInCharts shots={chartShots} grinders={grinders} optimalShotId={chartShots.find(s => s.isOptimal)?.id} />
+            </div>
+          )}
+
           <div className="space-y-4 pb-12">
             <div className="flex justify-between items-center px-4">
               <h3 className="text-[11px] font-black text-stone-700 uppercase tracking-widest">Extraction History</h3>
-              <button onClick={() => setSortOption(s => s === 'rating' ? 'recent' : 'rating')} className="p-2 text-stone-600 active:text-amber-500 transition-colors">
+              <button onClick={() => setHistorySort(s => s === 'recent' ? 'rating' : s === 'rating' ? 'grind' : 'recent')} className="flex items-center gap-2 p-2 text-stone-600 active:text-amber-500 transition-colors">
+                <span className="text-[9px] font-black uppercase tracking-widest">{historySort === 'recent' ? 'Recent' : historySort === 'rating' ? 'Rating' : 'Grind'}</span>
                 <ArrowUpDown size={18} />
               </button>
             </div>
+            {methods.length > 1 && (
+              <div className="flex gap-2 px-2 overflow-x-auto no-scrollbar">
+                {[{ id: null, label: 'All Methods' }, ...BREW_METHODS.filter(m => methods.includes(m.id))].map(m => (
+                  <button key={m.id ?? 'all'} onClick={() => setHistoryMethod(m.id)} className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${activeMethod === m.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{m.label}</button>
+                ))}
+              </div>
+            )}
+            {setupOptions.length > 1 && (
+              <div className="flex gap-2 px-2 overflow-x-auto no-scrollbar">
+                {[{ id: null, name: 'All Setups' }, ...setupOptions].map(o => (
+                  <button key={o.id ?? 'all'} onClick={() => setHistorySetup(o.id)} className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${activeSetup === o.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{o.name}</button>
+                ))}
+              </div>
+            )}
             {sortedShots.length === 0 ? (
                <div className="text-center py-12 text-stone-700 font-black text-[10px] uppercase tracking-widest">Archive Empty</div>
             ) : (
@@ -498,8 +1571,11 @@ const App: React.FC = () => {
                         <div className="bg-amber-500 text-black px-3 py-1 rounded-full text-[11px] font-black shadow-lg shadow-amber-500/10">
                           {shot.rating.toFixed(1)}/10
                         </div>
+                        {shotMethod(shot) !== 'espresso' && <span className="px-2 py-0.5 rounded-full bg-amber-500/10 text-[8px] font-black text-amber-500 uppercase tracking-widest">{methodLabel(shotMethod(shot))}</span>}
+                        {shot.isReference && <span className="px-2 py-0.5 rounded-full bg-white/10 text-[8px] font-black text-stone-300 uppercase tracking-widest">Shared</span>}
                         <span className="text-[10px] font-black text-stone-600 uppercase tracking-tighter">
                           {new Date(shot.timestamp).toLocaleDateString()}
+                          {daysOffRoast(bean, shot.timestamp) !== undefined && <span className="text-stone-700"> · Day {daysOffRoast(bean, shot.timestamp)}</span>}
                         </span>
                       </div>
                       {shot.notes && (
@@ -509,8 +1585,14 @@ const App: React.FC = () => {
                       )}
                     </div>
                     <div className="flex items-center gap-2 flex-shrink-0">
+                      <button onClick={() => setView({ type: 'add-shot', beanId, fromShotId: shot.id })} className="p-2 bg-white/5 rounded-full text-stone-700 hover:text-stone-400 transition-colors active:scale-90" title="Repeat this Shot">
+                        <Repeat size={16} />
+                      </button>
+                      <button onClick={() => setView({ type: 'edit-shot', shotId: shot.id })} className="p-2 bg-white/5 rounded-full text-stone-700 hover:text-stone-400 transition-colors active:scale-90" title="Edit Shot">
+                        <Edit3 size={16} />
+                      </button>
                       <button 
-                        onClick={() => toggleShotOptimal(shot.id, beanId)} 
+                        onClick={() => toggleShotOptimal(shot.id, beanId, shotMethod(shot))} 
                         className={`p-2 rounded-full transition-all ${shot.isOptimal ? 'bg-amber-500 text-black shadow-lg shadow-amber-500/20' : 'bg-white/5 text-stone-700 hover:text-stone-400'}`}
                         title="Set as Optimal"
                       >
@@ -522,10 +1604,62 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   <div className="flex justify-between text-[13px] font-bold text-stone-300 px-1 border-t border-white/5 pt-4">
-                    <span className="opacity-80 tracking-tight">{shot.dose}g <span className="text-[10px] text-stone-600 mx-1">→</span> {shot.yield}g</span>
-                    <span className="opacity-80">{shot.time}s</span>
-                    <span className="text-amber-500/60 font-black uppercase text-[10px] tracking-widest">G:{shot.grindSetting}</span>
+                    {shotMethod(shot) === 'espresso'
+                      ? <span className="opacity-80 tracking-tight">{shot.dose}g <span className="text-[10px] text-stone-600 mx-1">→</span> {shot.yield}g</span>
+                      : <span className="opacity-80 tracking-tight">{shot.dose}g <span className="text-[10px] text-stone-600 mx-1">+</span> {shot.yield}g <span className="text-[10px] text-stone-600">water</span></span>}
+                    <span className={computeMetrics(shot, bean.roastType).time.status === 'ok' ? 'opacity-80' : 'text-orange-400'}>{formatBrewTime(shotMethod(shot), shot.time)}</span>
+                    <span className="text-amber-500/60 font-black uppercase text-[10px] tracking-widest">G:{shot.grindSetting}{grinderName(shot) && <span className="text-stone-600"> · {grinderName(shot)}</span>}</span>
                   </div>
+                  <ShotMetrics shot={shot} roastType={bean.roastType} />
+                  {paramsOf(shot).length > 0 && (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 px-1 text-[10px] font-black text-stone-600 uppercase tracking-widest">
+                      {paramsOf(shot).map(p => <span key={p.id}>{p.label} {shot[p.id]}{p.unit}</span>)}
+                    </div>
+                  )}
+                  {shot.equipmentIds && (
+                    <p className="px-1 text-[10px] font-bold text-stone-600 truncate">{equipmentNames(shot, equipment).join(' · ')}</p>
+                  )}
+                  {hasSensory(shot) && (
+                    <div className="flex items-center gap-6 border-t border-white/5 pt-4">
+                      {shot.sensory && <SensoryRadar scores={shot.sensory} size={120} />}
+                      {shot.balance !== undefined && (
+                        <div className="flex-1 space-y-2">
+                          <div className="relative h-1.5 rounded-full bg-gradient-to-r from-lime-500/40 via-white/10 to-orange-700/50">
+                            <div className="absolute top-1/2 w-3 h-3 -mt-1.5 -ml-1.5 rounded-full bg-amber-500" style={{ left: `${(shot.balance + 5) * 10}%` }} />
+                          </div>
+                          <div className="flex justify-between text-[8px] font-black text-stone-600 uppercase tracking-widest"><span>Sour</span><span>Bitter</span></div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {shot.weightCurve && (
+                    <details className="border-t border-white/5 pt-4 px-1">
+                      <summary className="flex items-center gap-2 text-[9px] font-black text-stone-600 uppercase tracking-widest cursor-pointer list-none">
+                        <Activity size={12} /> Weight Curve
+                      </summary>
+                      <div className="mt-3"><WeightCurve curve={shot.weightCurve} /></div>
+                    </details>
+                  )}
+                  {shot.edits && (
+                    <details className="border-t border-white/5 pt-4 px-1">
+                      <summary className="flex items-center gap-2 text-[9px] font-black text-stone-600 uppercase tracking-widest cursor-pointer list-none">
+                        <History size={12} /> Edited {shot.edits.length === 1 ? 'once' : `${shot.edits.length} times`}
+                      </summary>
+                      <div className="mt-3 space-y-3">
+                        {[...shot.edits].reverse().map(edit => (
+                          <div key={edit.at} className="space-y-1">
+                            <p className="text-[9px] font-black text-stone-700 uppercase tracking-widest">{new Date(edit.at).toLocaleString()}</p>
+                            {edit.changes.map(c => (
+                              <p key={c.field} className="text-[11px] text-stone-400 leading-snug">
+                                <span className="font-black text-stone-500">{SHOT_EDIT_FIELDS.find(f => f.id === c.field)?.label}</span>{' '}
+                                <span className="line-through opacity-50">{formatEditValue(c.field, c.from, grinders, equipment)}</span> → {formatEditValue(c.field, c.to, grinders, equipment)}
+                              </p>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
                 </div>
               ))
             )}
@@ -541,28 +1675,156 @@ const App: React.FC = () => {
     );
   };
 
-  const AddShotForm = ({ beanId }: { beanId: string }) => {
-    const last = shots.filter(s => s.beanId === beanId)[0];
-    const [fd, setFd] = useState({ 
-      beanId, 
-      dose: last?.dose || 18, 
-      yield: last?.yield || 36, 
-      time: last?.time || 30, 
-      grindSetting: last?.grindSetting || '', 
-      rating: 7.0, 
-      notes: '', 
-      isOptimal: false 
+  // Logs a new shot, edits a logged one (`shotId`), or starts a new log from a
+  // past shot's recipe (`fromShotId`)
+  const ShotForm = ({ beanId, shotId, fromShotId }: { beanId: string; shotId?: string; fromShotId?: string }) => {
+    const editing = shots.find(s => s.id === shotId);
+    const template = editing ?? shots.find(s => s.id === fromShotId);
+    const self: ViewState = editing ? { type: 'edit-shot', shotId: editing.id } : { type: 'add-shot', beanId, ...(template ? { fromShotId: template.id } : {}) };
+    const bean = beans.find(b => b.id === beanId);
+    const roastType = bean?.roastType ?? 'Medium';
+    const history = shots.filter(s => s.beanId === beanId);
+    const latest = (list: Shot[]) => list.reduce<Shot | undefined>((a, s) => (!a || s.timestamp > a.timestamp ? s : a), undefined);
+    // A new brew joins the bag's open session; an edit stays with the session it was logged in
+    const session = editing ? bean?.sessions?.find(s => s.id === editing.sessionId) : bean && openSession(bean);
+    const target = session?.target ?? (bean && beanTarget(bean));
+    const suggestion = suggestNextShot(history.filter(s => shotMethod(s) === 'espresso'), roastType, grinders, target && shotMethod(target) === 'espresso' ? target : undefined);
+    // Default to the grinder this bean was last pulled on, else the default setup's, else the last one used at all
+    const lastGrinderId = [latest(history)?.grind?.grinderId, grinders.find(g => g.isDefault)?.id, latest(shots)?.grind?.grinderId]
+      .find(id => id && grinders.some(g => g.id === id));
+    // A new brew starts from the dial-in suggestion for espresso; other methods
+    // repeat this bean's last brew with the method, else the method's defaults
+    const startingRecipe = (m: BrewMethod) => {
+      const blank = { preInfusion: undefined, firstDrip: undefined, waterTemp: undefined, bloomWater: undefined, bloomTime: undefined, pours: undefined };
+      if (m === 'espresso') return { ...blank, dose: suggestion.dose, yield: suggestion.yield, time: Math.round(suggestion.expectedTime), grindSetting: suggestion.grindSetting };
+      const last = latest(history.filter(s => shotMethod(s) === m));
+      if (!last) return { ...blank, ...METHOD_PROFILES[m].defaults, grindSetting: '' };
+      const params = Object.fromEntries(METHOD_PROFILES[m].params.map(p => [p, last[p]]));
+      return { ...blank, ...params, dose: last.dose, yield: last.yield, time: last.time, grindSetting: last.grindSetting };
+    };
+    const draft = shotDraftRef.current?.path === viewToPath(self) ? shotDraftRef.current : undefined;
+    const [method, setMethod] = useState<BrewMethod>(() => draft?.method ?? shotMethod(template ?? session?.target ?? latest(history) ?? {}));
+    const profile = METHOD_PROFILES[method];
+    const targets = targetsFor(method, roastType);
+    const [fd, setFd] = useState<ShotDraft['fd']>(() => draft?.fd ?? ({
+      ...(template ? {
+        dose: template.dose,
+        yield: template.yield,
+        time: template.time,
+        // Repeats re-time the brew, so only an edit keeps the timer marks
+        preInfusion: editing?.preInfusion,
+        firstDrip: editing?.firstDrip,
+        waterTemp: template.waterTemp,
+        bloomWater: template.bloomWater,
+        bloomTime: template.bloomTime,
+        pours: template.pours,
+        grindSetting: template.grindSetting,
+      } : startingRecipe(method)),
+      tds: editing?.tds,
+      rating: editing?.rating ?? 7.0,
+      notes: editing?.notes ?? '',
+    }));
+    const [grinderId, setGrinderId] = useState(draft ? draft.grinderId : template ? template.grind?.grinderId : suggestion.grind?.grinderId ?? lastGrinderId);
+    // A past shot's setup replaces the defaults wholesale, so a kind it didn't use stays empty
+    const [setup, setSetup] = useState(() => draft?.setup ?? (template
+      ? Object.fromEntries(equipment.filter(e => template.equipmentIds?.includes(e.id)).map(e => [e.kind, e.id])) as Partial<Record<EquipmentKind, string>>
+      : defaultEquipment(equipment)));
+    // Optional: only the attributes the user touches are saved
+    const [sensory, setSensory] = useState<SensoryScores>(draft?.sensory ?? editing?.sensory ?? {});
+    const [balance, setBalance] = useState<number | undefined>(draft ? draft.balance : editing?.balance);
+    // Only ever from the scale; a repeated shot starts without one
+    const [weightCurve, setWeightCurve] = useState(draft ? draft.weightCurve : editing?.weightCurve);
+
+    useEffect(() => {
+      shotDraftRef.current = { path: viewToPath(self), method, fd, grinderId, setup, sensory, balance, weightCurve };
     });
 
+    // Correcting a logged shot keeps its numbers; a new brew starts over from the method's recipe
+    const switchMethod = (m: BrewMethod) => {
+      setMethod(m);
+      if (!editing) setFd({ ...fd, ...startingRecipe(m) });
+    };
+
+    const applySuggestion = () => {
+      setFd({
+        ...fd,
+        dose: suggestion.dose,
+        yield: suggestion.yield,
+        time: Math.round(suggestion.expectedTime),
+        grindSetting: suggestion.grindSetting,
+      });
+      if (suggestion.grind?.grinderId) setGrinderId(suggestion.grind.grinderId);
+    };
+    const grinder = grinders.find(g => g.id === grinderId);
+    const parsedGrind = parseGrind(fd.grindSetting, grinder);
+    // Only brews of the session's method count towards it
+    const inSession = session && shotMethod(session.target) === method ? session : undefined;
+    const sessionNumber = inSession ? sessionShots(history, inSession.id).filter(s => !editing || s.timestamp < editing.timestamp).length + 1 : 0;
+    const offTarget = inSession ? deviations({ ...fd, sensory }, inSession.target) : [];
+
+    const applyTiming = ({ time, preInfusion, firstDrip }: ShotTiming) => setFd({ ...fd, time, preInfusion, firstDrip });
+
+    const applyCapture = (capture: ScaleCapture) => {
+      setFd({ ...fd, yield: capture.yield, time: capture.time, firstDrip: capture.firstDrip });
+      setWeightCurve(capture.weightCurve);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+      e.preventDefault();
+      const { preInfusion, firstDrip, waterTemp, bloomWater, bloomTime, pours, tds, ...rest } = fd;
+      const params: Partial<Record<BrewParam, number>> = { preInfusion, firstDrip, waterTemp, bloomWater, bloomTime, pours };
+      const equipmentIds = EQUIPMENT_KINDS.flatMap(k => setup[k.id] ? [setup[k.id] as string] : []);
+      const fields = {
+        ...(method !== 'espresso' ? { method } : {}),
+        ...rest,
+        ...(parsedGrind ? { grind: parsedGrind } : {}),
+        ...(equipmentIds.length > 0 ? { equipmentIds } : {}),
+        ...(Object.keys(sensory).length > 0 ? { sensory } : {}),
+        ...(balance !== undefined ? { balance } : {}),
+        // Only the parameters the method uses, so a switched method leaves nothing stale behind
+        ...Object.fromEntries(profile.params.filter(p => params[p] !== undefined).map(p => [p, params[p]])),
+        ...(tds !== undefined ? { tds } : {}),
+        ...(method === 'espresso' && weightCurve ? { weightCurve } : {}),
+      };
+      if (editing) updateShot(editing.id, fields);
+      else addShot({ ...fields, beanId, isOptimal: false, ...(inSession ? { sessionId: inSession.id } : {}) });
+    };
+
     return (
       <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
         <header className="flex items-center justify-between mb-12 mt-4 px-2">
-          <button onClick={() => setView({ type: 'bean-details', beanId })} className="glass-card p-4 rounded-full transition-transform active:scale-90"><ChevronLeft size={28} /></button>
-          <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">Log Protocol</h2>
+          <button onClick={() => goBack({ type: 'bean-details', beanId })} className="glass-card p-4 rounded-full transition-transform active:scale-90"><ChevronLeft size={28} /></button>
+          <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">{editing ? 'Edit Protocol' : 'Log Protocol'}</h2>
           <div className="w-14"/>
         </header>
         
-        <form onSubmit={e => { e.preventDefault(); addShot(fd); }} className="space-y-8 flex-1 flex flex-col pb-12">
+        <form onSubmit={handleSubmit} className="space-y-8 flex-1 flex flex-col pb-12">
+          <div className="flex gap-2 overflow-x-auto no-scrollbar justify-center">
+            {BREW_METHODS.map(m => (
+              <button type="button" key={m.id} onClick={() => switchMethod(m.id)} className={`px-5 py-3 rounded-full text-[10px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${method === m.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{m.label}</button>
+            ))}
+          </div>
+          {template ? (
+            <div className="glass-card px-8 py-5 rounded-[2.5rem] flex items-center gap-4 border-amber-500/10">
+              {editing ? <Edit3 size={18} className="text-amber-500 flex-shrink-0" /> : <Repeat size={18} className="text-amber-500 flex-shrink-0" />}
+              <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest">
+                {editing ? 'Editing' : 'Repeating'} the shot from {new Date(template.timestamp).toLocaleString()}
+                {!editing && <span className="block text-stone-600 mt-1 normal-case tracking-normal font-bold">Recipe and setup copied; rate it fresh.</span>}
+              </p>
+            </div>
+          ) : method === 'espresso' && <SuggestionCard suggestion={suggestion} onApply={applySuggestion} />}
+          {inSession && (
+            <div className="glass-card px-8 py-5 rounded-[2.5rem] space-y-3 border-amber-500/10">
+              <p className="flex items-center gap-2 text-[10px] font-black text-stone-400 uppercase tracking-widest">
+                <Crosshair size={14} className="text-amber-500" /> Dial-In Session · Shot {sessionNumber}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {offTarget.length === 0
+                  ? <span className="px-3 py-1.5 rounded-full bg-green-500/10 text-green-400 text-[9px] font-black uppercase tracking-widest">On target</span>
+                  : offTarget.map(d => <span key={d.id} className="px-3 py-1.5 rounded-full bg-orange-500/10 text-orange-400 text-[9px] font-black uppercase tracking-widest">{formatDeviation(d)}</span>)}
+              </div>
+            </div>
+          )}
           <div className="glass-card p-12 rounded-[64px] space-y-12 shadow-2xl">
             <div className="grid grid-cols-2 gap-10 text-center">
               <div>
@@ -570,23 +1832,88 @@ const App: React.FC = () => {
                 <input type="number" step="0.1" className="w-full bg-white/5 p-5 rounded-3xl text-3xl font-display text-center outline-none text-white focus:border-amber-500/20 border border-transparent transition-colors" value={fd.dose} onChange={e => setFd({...fd, dose: +e.target.value})} />
               </div>
               <div>
-                <label className="text-[10px] text-stone-600 uppercase font-black block mb-4 tracking-widest">Yield (g)</label>
+                <label className="text-[10px] text-stone-600 uppercase font-black block mb-4 tracking-widest">{profile.yieldLabel} (g)</label>
                 <input type="number" step="0.5" className="w-full bg-white/5 p-5 rounded-3xl text-3xl font-display text-center outline-none text-white focus:border-amber-500/20 border border-transparent transition-colors" value={fd.yield} onChange={e => setFd({...fd, yield: +e.target.value})} />
               </div>
             </div>
             <div className="text-center relative">
-                <label className="text-[10px] text-stone-600 uppercase font-black block mb-4 tracking-widest">Extraction Time</label>
+                <label className="text-[10px] text-stone-600 uppercase font-black block mb-4 tracking-widest">{profile.timeLabel}</label>
                 <div className="relative inline-block w-full">
-                  <input type="number" className="w-full bg-white/5 p-10 rounded-[3rem] text-7xl font-display text-center outline-none text-white focus:border-amber-500/20 border border-transparent transition-colors" value={fd.time} onChange={e => setFd({...fd, time: +e.target.value})} />
+                  <input type="number" step="0.1" className="w-full bg-white/5 p-10 rounded-[3rem] text-7xl font-display text-center outline-none text-white focus:border-amber-500/20 border border-transparent transition-colors" value={fd.time} onChange={e => setFd({...fd, time: +e.target.value})} />
                   <span className="absolute top-1/2 right-12 -translate-y-1/2 opacity-20 text-4xl font-display pointer-events-none">s</span>
                 </div>
+                {method !== 'espresso' && fd.time >= 60 && (
+                  <p className="text-[9px] text-stone-600 font-bold text-center uppercase tracking-widest mt-3">{formatBrewTime(method, fd.time)}</p>
+                )}
+                {method === 'espresso' && (fd.preInfusion !== undefined || fd.firstDrip !== undefined) && (
+                  <div className="flex justify-center gap-3 mt-4">
+                    {fd.preInfusion !== undefined && (
+                      <button type="button" onClick={() => setFd({ ...fd, preInfusion: undefined })} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-500/10 text-amber-500 text-[10px] font-black uppercase tracking-widest">PI {fd.preInfusion.toFixed(1)}s <X size={10} /></button>
+                    )}
+                    {fd.firstDrip !== undefined && (
+                      <button type="button" onClick={() => setFd({ ...fd, firstDrip: undefined })} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-500/10 text-amber-500 text-[10px] font-black uppercase tracking-widest">Drip {fd.firstDrip.toFixed(1)}s <X size={10} /></button>
+                    )}
+                  </div>
+                )}
+            </div>
+            {method !== 'espresso' && (
+              <div className="pt-10 border-t border-white/5 grid grid-cols-2 gap-6 text-center">
+                {BREW_PARAMS.filter(p => profile.params.includes(p.id)).map(p => (
+                  <div key={p.id}>
+                    <label className="text-[10px] text-stone-600 uppercase font-black block mb-3 tracking-widest">{p.label}{p.unit && ` (${p.unit})`}</label>
+                    <input type="number" step={p.step} min="0" className="w-full bg-white/5 p-4 rounded-3xl text-2xl font-display text-center outline-none text-white focus:border-amber-500/20 border border-transparent transition-colors" value={fd[p.id] ?? ''} onChange={e => setFd({ ...fd, [p.id]: e.target.value === '' ? undefined : +e.target.value })} />
+                  </div>
+                ))}
+              </div>
+            )}
+            {method === 'espresso' && (
+              <div className="pt-10 border-t border-white/5 space-y-6">
+                <label className="text-[10px] text-stone-600 uppercase font-black block tracking-widest text-center">Scale</label>
+                <ScalePanel onDose={dose => setFd({ ...fd, dose })} onCapture={applyCapture} />
+                {weightCurve && (
+                  <div className="space-y-2">
+                    <WeightCurve curve={weightCurve} />
+                    <button type="button" onClick={() => setWeightCurve(undefined)} className="mx-auto flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-500/10 text-amber-500 text-[10px] font-black uppercase tracking-widest">Curve · {weightCurve.length} readings <X size={10} /></button>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="pt-10 border-t border-white/5">
+              <label className="text-[10px] text-stone-600 uppercase font-black block mb-6 tracking-widest text-center">{method === 'espresso' ? 'Shot Timer' : 'Brew Timer'}</label>
+              <ShotTimer onChange={applyTiming} marks={method === 'espresso'} />
+            </div>
+            <div className="pt-10 border-t border-white/5 space-y-6">
+              <ShotMetrics shot={{ ...fd, method }} roastType={roastType} size="lg" />
+              <p className="text-[9px] text-stone-600 font-bold text-center uppercase tracking-widest">
+                {method === 'espresso' ? roastType : methodLabel(method)} target · 1:{formatRange(targets.ratio)} · {formatRange(targets.time, 's')}
+              </p>
             </div>
           </div>
 
           <div className="glass-card p-10 rounded-[56px] space-y-10 shadow-xl">
             <div>
-              <label className="text-[10px] text-stone-600 uppercase font-black mb-6 block tracking-widest">Grind Index</label>
-              <input type="text" className="w-full bg-white/5 p-6 rounded-[2rem] text-4xl font-display outline-none text-amber-500 text-center focus:border-amber-500/20 border border-transparent transition-colors" placeholder="e.g. 1.4" value={fd.grindSetting} onChange={e => setFd({...fd, grindSetting: e.target.value})} />
+              <div className="flex justify-between items-center mb-6">
+                <label className="text-[10px] text-stone-600 uppercase font-black tracking-widest">Grind Index</label>
+                <button type="button" onClick={() => setView({ type: 'equipment', returnTo: self })} className="text-[9px] font-black uppercase tracking-widest text-stone-500">Grinders</button>
+              </div>
+              {grinders.length > 0 && (
+                <div className="flex gap-2 mb-4 overflow-x-auto no-scrollbar">
+                  {[{ id: undefined, name: 'None' }, ...grinders].map(g => (
+                    <button type="button" key={g.id ?? 'none'} onClick={() => setGrinderId(g.id)} className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${grinderId === g.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{g.name}</button>
+                  ))}
+                </div>
+              )}
+              <input type="text" className="w-full bg-white/5 p-6 rounded-[2rem] text-4xl font-display outline-none text-amber-500 text-center focus:border-amber-500/20 border border-transparent transition-colors" placeholder={grinder?.scale === 'rotations' ? 'e.g. 1+5' : 'e.g. 1.4'} value={fd.grindSetting} onChange={e => setFd({...fd, grindSetting: e.target.value})} />
+              {fd.grindSetting.trim() && (
+                <p className="text-[9px] text-stone-600 font-bold text-center uppercase tracking-widest mt-3">
+                  {parsedGrind ? `Reads as ${formatGrind(parsedGrind.value, grinder)}${grinder ? ` on ${grinder.name}` : ''}` : 'Not a number: kept as text only'}
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="text-[10px] text-stone-600 uppercase font-black mb-6 block tracking-widest">TDS (%) <span className="text-stone-700 normal-case tracking-normal">— optional</span></label>
+              <input type="number" step="0.01" min="0" max="30" className="w-full bg-white/5 p-6 rounded-[2rem] text-3xl font-display outline-none text-white text-center focus:border-amber-500/20 border border-transparent transition-colors" placeholder={method === 'espresso' ? 'e.g. 9.5' : 'e.g. 1.35'} value={fd.tds ?? ''} onChange={e => setFd({...fd, tds: e.target.value === '' ? undefined : +e.target.value})} />
             </div>
             
             <div>
@@ -596,12 +1923,60 @@ const App: React.FC = () => {
                 </div>
                 <input type="range" min="1" max="10" step="0.5" className="w-full h-3 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-500" value={fd.rating} onChange={e => setFd({...fd, rating: +e.target.value})} />
             </div>
+
+            <div>
+                <div className="flex justify-between items-center mb-6 px-2">
+                  <label className="text-[10px] text-stone-600 uppercase font-black tracking-widest">Balance</label>
+                  {balance !== undefined ? (
+                    <button type="button" onClick={() => setBalance(undefined)} className="flex items-center gap-1.5 text-amber-500 text-[10px] font-black uppercase tracking-widest">
+                      {balance === 0 ? 'Balanced' : `${Math.abs(balance)} ${balance < 0 ? 'Sour' : 'Bitter'}`} <X size={10} />
+                    </button>
+                  ) : <span className="text-stone-700 text-[10px] font-black uppercase tracking-widest">Not Scored</span>}
+                </div>
+                <input type="range" min="-5" max="5" step="0.5" className={`w-full h-3 bg-gradient-to-r from-lime-500/40 via-white/10 to-orange-700/50 rounded-lg appearance-none cursor-pointer accent-amber-500 ${balance === undefined ? 'opacity-40' : ''}`} value={balance ?? 0} onChange={e => setBalance(+e.target.value)} />
+                <div className="flex justify-between mt-2 px-1 text-[8px] font-black text-stone-600 uppercase tracking-widest"><span>Sour</span><span>Bitter</span></div>
+            </div>
+          </div>
+
+          <div className="glass-card p-10 rounded-[56px] space-y-6 shadow-xl">
+            <div className="flex justify-between items-center">
+              <label className="text-[10px] text-stone-600 uppercase font-black tracking-widest">Sensory <span className="text-stone-700 normal-case tracking-normal">— optional</span></label>
+              {Object.keys(sensory).length > 0 && <button type="button" onClick={() => setSensory({})} className="text-[9px] font-black uppercase tracking-widest text-stone-500">Clear</button>}
+            </div>
+            {SENSORY_ATTRIBUTES.map(a => (
+              <div key={a.id}>
+                <div className="flex justify-between items-center mb-2 px-1">
+                  <span className="text-[9px] font-black text-stone-500 uppercase tracking-widest">{a.label}</span>
+                  <span className={`text-sm font-black ${sensory[a.id] === undefined ? 'text-stone-700' : 'text-amber-500'}`}>{sensory[a.id]?.toFixed(1) ?? '—'}</span>
+                </div>
+                <input type="range" min="0" max="10" step="0.5" className={`w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-500 ${sensory[a.id] === undefined ? 'opacity-40' : ''}`} value={sensory[a.id] ?? 5} onChange={e => setSensory({ ...sensory, [a.id]: +e.target.value })} />
+              </div>
+            ))}
+          </div>
+
+          <div className="glass-card p-10 rounded-[56px] space-y-6 shadow-xl">
+            <div className="flex justify-between items-center">
+              <label className="text-[10px] text-stone-600 uppercase font-black tracking-widest">Setup</label>
+              <button type="button" onClick={() => setView({ type: 'equipment', returnTo: self })} className="text-[9px] font-black uppercase tracking-widest text-stone-500">Manage</button>
+            </div>
+            {equipment.length === 0 ? (
+              <p className="text-[11px] text-stone-600 font-bold">Add machines, baskets, puck screens and distribution tools to record the setup with each shot.</p>
+            ) : EQUIPMENT_KINDS.filter(k => equipment.some(e => e.kind === k.id)).map(k => (
+              <div key={k.id}>
+                <p className="text-[8px] font-black text-stone-700 uppercase tracking-widest mb-2">{k.label}</p>
+                <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                  {[{ id: undefined, name: 'None' }, ...equipment.filter(e => e.kind === k.id)].map(e => (
+                    <button type="button" key={e.id ?? 'none'} onClick={() => setSetup({ ...setup, [k.id]: e.id })} className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${setup[k.id] === e.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{e.name}</button>
+                  ))}
+                </div>
+              </div>
+            ))}
           </div>
 
           <div className="glass-card p-10 rounded-[56px] shadow-xl">
             <label className="text-[10px] text-stone-600 uppercase font-black mb-4 block tracking-widest">Extraction Notes</label>
             <textarea 
-              placeholder="Record observations like channelling, use of a puck screen, turbo shot, or taste nuances..." 
+              placeholder="Record observations like channelling, a turbo shot, or taste nuances..." 
               className="w-full bg-white/5 border border-white/5 rounded-[2rem] p-6 text-white outline-none focus:border-amber-500/30 transition-colors min-h-[120px] resize-none text-sm leading-relaxed" 
               value={fd.notes} 
               onChange={e => setFd({ ...fd, notes: e.target.value })}
@@ -610,7 +1985,7 @@ const App: React.FC = () => {
 
           <div className="mt-auto pt-4">
             <button type="submit" className="btn-primary w-full py-8 rounded-[3.5rem] font-black uppercase text-black shadow-2xl text-[16px] tracking-[0.2em] active:scale-[0.98] transition-transform">
-              Commit Telemetry
+              {editing ? 'Save Changes' : 'Commit Telemetry'}
             </button>
           </div>
         </form>
@@ -618,6 +1993,728 @@ const App: React.FC = () => {
     );
   };
 
+  const EquipmentInventory = ({ returnTo, tab = 'grinder' }: { returnTo?: ViewState; tab?: 'grinder' | EquipmentKind }) => {
+    const blankGrinder = { name: '', scale: 'stepless' as GrindScale, step: 0.1, numbersPerRotation: undefined as number | undefined };
+    const [editingGrinder, setEditingGrinder] = useState<{ id?: string; draft: typeof blankGrinder } | null>(null);
+    const [editingItem, setEditingItem] = useState<{ id?: string; name: string; notes: string } | null>(null);
+    const kindLabel = tab === 'grinder' ? 'Grinder' : EQUIPMENT_KINDS.find(k => k.id === tab)?.label;
+    const items = tab === 'grinder' ? [] : equipment.filter(e => e.kind === tab);
+    const usage = (id: string) => shots.filter(s => setupIds(s).includes(id)).length;
+
+    // In the route, so saving an item (which re-renders App) keeps the tab; an open editor closes
+    const switchTab = (next: typeof tab) =>
+      setView({ type: 'equipment', ...(returnTo ? { returnTo } : {}), ...(next !== 'grinder' ? { tab: next } : {}) }, { replace: true });
+
+    const startNew = () => {
+      if (tab === 'grinder') setEditingGrinder({ draft: blankGrinder });
+      else setEditingItem({ name: '', notes: '' });
+    };
+
+    const submitGrinder = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!editingGrinder) return;
+      const { numbersPerRotation, ...draft } = editingGrinder.draft;
+      const existing = grinders.find(g => g.id === editingGrinder.id);
+      saveGrinder({
+        ...draft,
+        name: draft.name.trim(),
+        ...(draft.scale === 'rotations' && numbersPerRotation ? { numbersPerRotation } : {}),
+        ...(existing?.isDefault ? { isDefault: true } : {}),
+      }, editingGrinder.id);
+    };
+
+    const submitItem = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!editingItem || tab === 'grinder') return;
+      const existing = equipment.find(i => i.id === editingItem.id);
+      saveEquipment({
+        kind: tab,
+        name: editingItem.name.trim(),
+        notes: editingItem.notes.trim(),
+        ...(existing?.isDefault ? { isDefault: true } : {}),
+      }, editingItem.id);
+    };
+
+    const row = (id: string, name: string, detail: string, isDefault: boolean | undefined, onEdit: () => void) => (
+      <div key={id} className="glass-card p-6 rounded-[2.5rem] flex items-center gap-3">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-xl font-display text-white truncate">{name}</h3>
+          <p className="text-[10px] font-black text-stone-600 uppercase tracking-widest">{detail} · {usage(id)} shots</p>
+        </div>
+        <button onClick={() => toggleDefaultEquipment(id)} className={`p-3 rounded-full transition-all ${isDefault ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-700'}`} title="Default Setup">
+          <Star size={16} className={isDefault ? 'fill-black' : ''} />
+        </button>
+        <button onClick={onEdit} className="p-3 bg-white/5 rounded-full text-stone-500"><Edit3 size={16} /></button>
+        <button onClick={() => deleteEquipment(id)} className="p-3 bg-white/5 rounded-full text-stone-700 hover:text-red-500 transition-colors"><Trash2 size={16} /></button>
+      </div>
+    );
+
+    const isEmpty = tab === 'grinder' ? grinders.length === 0 : items.length === 0;
+
+    return (
+      <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
+        <header className="flex items-center justify-between mb-8 mt-4 px-2">
+          <button onClick={() => goBack(returnTo ?? { type: 'bean-list' })} className="glass-card w-14 h-14 rounded-full flex items-center justify-center text-stone-500"><ChevronLeft size={28} /></button>
+          <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">Equipment</h2>
+          <button onClick={startNew} className="btn-primary w-14 h-14 rounded-full flex items-center justify-center text-black"><Plus size={24} strokeWidth={3} /></button>
+        </header>
+
+        <div className="flex gap-2 mb-8 px-2 overflow-x-auto no-scrollbar pb-2">
+          {[{ id: 'grinder' as const, label: 'Grinder' }, ...EQUIPMENT_KINDS].map(k => (
+            <button key={k.id} onClick={() => switchTab(k.id)} className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${tab === k.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500 border border-white/5'}`}>{k.label}s</button>
+          ))}
+        </div>
+
+        {editingGrinder && (
+          <form onSubmit={submitGrinder} className="glass-card p-8 rounded-[48px] space-y-6 mb-8 shadow-2xl">
+            <input required type="text" placeholder="Grinder Name" className="w-full bg-white/5 border border-white/5 rounded-[2rem] p-6 text-white outline-none focus:border-amber-500/30 transition-colors" value={editingGrinder.draft.name} onChange={e => setEditingGrinder({ ...editingGrinder, draft: { ...editingGrinder.draft, name: e.target.value } })} />
+            <div className="flex gap-2">
+              {GRIND_SCALES.map(sc => (
+                <button key={sc.id} type="button" onClick={() => setEditingGrinder({ ...editingGrinder, draft: { ...editingGrinder.draft, scale: sc.id } })} className={`flex-1 py-3 rounded-2xl text-[9px] font-black uppercase tracking-widest transition-all ${editingGrinder.draft.scale === sc.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{sc.label}</button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="text-[10px] font-black text-stone-600 uppercase mb-3 block tracking-widest">{editingGrinder.draft.scale === 'stepped' ? 'Click Size' : 'Step'}</label>
+                <input required type="number" step="any" min="0.001" className="w-full bg-white/5 p-4 rounded-2xl text-xl font-display text-center outline-none text-white" value={editingGrinder.draft.step} onChange={e => setEditingGrinder({ ...editingGrinder, draft: { ...editingGrinder.draft, step: +e.target.value } })} />
+              </div>
+              {editingGrinder.draft.scale === 'rotations' && (
+                <div>
+                  <label className="text-[10px] font-black text-stone-600 uppercase mb-3 block tracking-widest">Numbers / Turn</label>
+                  <input required type="number" step="any" min="1" className="w-full bg-white/5 p-4 rounded-2xl text-xl font-display text-center outline-none text-white" value={editingGrinder.draft.numbersPerRotation ?? ''} onChange={e => setEditingGrinder({ ...editingGrinder, draft: { ...editingGrinder.draft, numbersPerRotation: e.target.value === '' ? undefined : +e.target.value } })} />
+                </div>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button type="button" onClick={() => setEditingGrinder(null)} className="flex-1 py-4 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest text-stone-400">Cancel</button>
+              <button type="submit" className="btn-primary flex-1 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest">{editingGrinder.id ? 'Save' : 'Add Grinder'}</button>
+            </div>
+          </form>
+        )}
+
+        {editingItem && (
+          <form onSubmit={submitItem} className="glass-card p-8 rounded-[48px] space-y-6 mb-8 shadow-2xl">
+            <input required type="text" placeholder={`${kindLabel} Name`} className="w-full bg-white/5 border border-white/5 rounded-[2rem] p-6 text-white outline-none focus:border-amber-500/30 transition-colors" value={editingItem.name} onChange={e => setEditingItem({ ...editingItem, name: e.target.value })} />
+            <input type="text" placeholder={tab === 'basket' ? 'e.g. 18g precision, ridgeless' : 'Notes'} className="w-full bg-white/5 border border-white/5 rounded-[2rem] p-6 text-white outline-none focus:border-amber-500/30 transition-colors" value={editingItem.notes} onChange={e => setEditingItem({ ...editingItem, notes: e.target.value })} />
+            <div className="flex gap-3">
+              <button type="button" onClick={() => setEditingItem(null)} className="flex-1 py-4 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest text-stone-400">Cancel</button>
+              <button type="submit" className="btn-primary flex-1 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest">{editingItem.id ? 'Save' : `Add ${kindLabel}`}</button>
+            </div>
+          </form>
+        )}
+
+        {isEmpty && !editingGrinder && !editingItem ? (
+          <p className="text-center py-12 text-stone-600 text-[11px] font-bold leading-relaxed px-8">
+            {tab === 'grinder'
+              ? 'Add a grinder so grind settings can be compared, sorted and charted. Shots without one keep their grind as plain text.'
+              : `No ${kindLabel?.toLowerCase()}s yet. Starred items form the default setup for new shots.`}
+          </p>
+        ) : (
+          <div className="space-y-4 pb-12">
+            {tab === 'grinder'
+              ? grinders.map(g => row(g.id, g.name, `${GRIND_SCALES.find(sc => sc.id === g.scale)?.label} · step ${g.step}${g.numbersPerRotation ? ` · ${g.numbersPerRotation}/turn` : ''}`, g.isDefault,
+                  () => setEditingGrinder({ id: g.id, draft: { name: g.name, scale: g.scale, step: g.step, numbersPerRotation: g.numbersPerRotation } })))
+              : items.map(i => row(i.id, i.name, i.notes || kindLabel || '', i.isDefault, () => setEditingItem({ id: i.id, name: i.name, notes: i.notes })))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const TrashBin = () => {
+    const since = (at?: number) => at ? new Date(at).toLocaleDateString() : '';
+    const actions = (onRestore: () => void, onPurge: () => void) => (
+      <>
+        <button onClick={onRestore} className="p-3 bg-white/5 rounded-full text-stone-500 hover:text-amber-500 transition-colors" title="Restore"><ArchiveRestore size={16} /></button>
+        <button onClick={onPurge} className="p-3 bg-white/5 rounded-full text-stone-700 hover:text-red-500 transition-colors" title="Delete Permanently"><X size={16} /></button>
+      </>
+    );
+
+    return (
+      <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
+        <header className="flex items-center justify-between mb-8 mt-4 px-2">
+          <button onClick={() => goBack({ type: 'bean-list' })} className="glass-card w-14 h-14 rounded-full flex items-center justify-center text-stone-500"><ChevronLeft size={28} /></button>
+          <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">Trash</h2>
+          <div className="w-14"/>
+        </header>
+
+        {trashCount === 0 ? (
+          <p className="text-center py-12 text-stone-600 text-[11px] font-bold leading-relaxed px-8">
+            Deleted bags and shots wait here until you restore them or delete them for good.
+          </p>
+        ) : (
+          <div className="space-y-4 pb-12">
+            {trash.beans.map(({ bean, shotCount }) => (
+              <div key={bean.id} className="glass-card p-6 rounded-[2.5rem] flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-[10px] font-black text-amber-500/60 uppercase tracking-widest truncate">{bean.roaster}</p>
+                  <h3 className="text-xl font-display text-white truncate">{bean.name}</h3>
+                  <p className="text-[10px] font-black text-stone-600 uppercase tracking-widest">Bag · {shotCount} shots · Deleted {since(bean.deletedAt)}</p>
+                </div>
+                {actions(() => restoreBean(bean.id), () => purgeTrash({ beanIds: [bean.id], shotIds: [] }, 'Bag deleted permanently'))}
+              </div>
+            ))}
+            {trash.shots.map(({ shot, bean }) => (
+              <div key={shot.id} className="glass-card p-6 rounded-[2.5rem] flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-[10px] font-black text-amber-500/60 uppercase tracking-widest truncate">{bean.name} · {new Date(shot.timestamp).toLocaleDateString()}</p>
+                  <h3 className="text-xl font-display text-white truncate">{formatWeights(shot)} · {formatBrewTime(shotMethod(shot), shot.time)}</h3>
+                  <p className="text-[10px] font-black text-stone-600 uppercase tracking-widest">{methodLabel(shotMethod(shot))} · {shot.rating.toFixed(1)}/10 · Deleted {since(shot.deletedAt)}</p>
+                </div>
+                {actions(() => restoreShot(shot.id), () => purgeTrash({ beanIds: [], shotIds: [shot.id] }, 'Shot deleted permanently'))}
+              </div>
+            ))}
+            <button
+              onClick={() => purgeTrash({ beanIds: trash.beans.map(t => t.bean.id), shotIds: trash.shots.map(t => t.shot.id) }, 'Trash emptied')}
+              className="w-full py-4 text-stone-600 text-[10px] font-black uppercase tracking-widest hover:text-red-500 transition-colors"
+            >
+              Empty Trash
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const Analytics = () => {
+    const [activityTab, setActivityTab] = useState<'shots' | 'coffee'>('shots');
+    const [ratingTab, setRatingTab] = useState<'roast' | 'origin' | 'roaster'>('roast');
+    const beanById = new Map<string, Bean>(beans.map(b => [b.id, b]));
+    const totals = archiveTotals(shots);
+    const weeks = weeklyActivity(shots, Date.now());
+    const ratings = ratingBy(beans, shots, b => (ratingTab === 'roast' ? b.roastType : ratingTab === 'origin' ? b.originType : b.roaster));
+    const dialIns = shotsToOptimal(shots).filter(d => beanById.has(d.beanId));
+    const recipes = bestRecipeRanges(beans, shots);
+    const shortDate = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+    // Is dialling in getting quicker? The older half of the optimal shots against the newer half
+    const half = Math.floor(dialIns.length / 2);
+    const meanShots = (list: typeof dialIns) => list.reduce((acc, d) => acc + d.shots, 0) / list.length;
+    const tabButton = (active: boolean, label: string, onClick: () => void) => (
+      <button key={label} onClick={onClick} className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${active ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{label}</button>
+    );
+
+    return (
+      <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
+        <header className="flex items-center justify-between mb-8 mt-4 px-2">
+          <button onClick={() => goBack({ type: 'bean-list' })} className="glass-card w-14 h-14 rounded-full flex items-center justify-center text-stone-500"><ChevronLeft size={28} /></button>
+          <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">Analytics</h2>
+          <div className="w-14"/>
+        </header>
+
+        {totals.shots === 0 ? (
+          <p className="text-center py-12 text-stone-600 text-[11px] font-bold leading-relaxed px-8">
+            Log a few shots to see trends across your bags.
+          </p>
+        ) : (
+          <div className="space-y-8 pb-12">
+            <div className="grid grid-cols-4 gap-3">
+              {[
+                ['Shots', String(totals.shots)],
+                ['Bags', String(totals.beans)],
+                ['Coffee', totals.grams >= 1000 ? `${(totals.grams / 1000).toFixed(1)}kg` : `${Math.round(totals.grams)}g`],
+                ['Rating', totals.averageRating?.toFixed(1) ?? '—'],
+              ].map(([label, value]) => (
+                <div key={label} className="glass-card p-4 rounded-[2rem] text-center">
+                  <span className="text-[8px] font-black text-stone-600 uppercase block mb-1 tracking-widest">{label}</span>
+                  <span className="text-lg font-display text-white">{value}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="glass-card p-8 rounded-[48px] border-white/5 space-y-6">
+              <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                {tabButton(activityTab === 'shots', 'Shots per Week', () => setActivityTab('shots'))}
+                {tabButton(activityTab === 'coffee', 'Coffee Used', () => setActivityTab('coffee'))}
+              </div>
+              <Chart
+                line
+                points={weeks.map(w => ({ x: w.week, y: activityTab === 'shots' ? w.shots : w.grams, label: `Week of ${shortDate(w.week)} · ${w.shots} shots · ${Math.round(w.grams)}g` }))}
+                xLabel="Week"
+                yLabel={activityTab === 'shots' ? 'Shots' : 'Coffee (g)'}
+                xFormat={shortDate}
+                yFormat={v => v.toFixed(0)}
+              />
+            </div>
+
+            <div className="glass-card p-8 rounded-[48px] border-white/5 space-y-6">
+              <h3 className="text-[10px] font-black text-stone-700 uppercase tracking-widest">Average Rating</h3>
+              <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                {tabButton(ratingTab === 'roast', 'Roast', () => setRatingTab('roast'))}
+                {tabButton(ratingTab === 'origin', 'Origin', () => setRatingTab('origin'))}
+                {tabButton(ratingTab === 'roaster', 'Roaster', () => setRatingTab('roaster'))}
+              </div>
+              <div className="space-y-4">
+                {ratings.map(g => (
+                  <div key={g.label} className="space-y-1.5">
+                    <div className="flex justify-between items-baseline gap-3">
+                      <span className="text-sm font-bold text-stone-200 truncate">{g.label}</span>
+                      <span className="text-[9px] font-black text-stone-600 uppercase tracking-widest whitespace-nowrap">{g.shots} shots · {g.beans} {g.beans === 1 ? 'bag' : 'bags'} · <span className="text-amber-500 text-xs">{g.average.toFixed(1)}</span></span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-white/5"><div className="h-full rounded-full bg-amber-500/70" style={{ width: `${g.average * 10}%` }} /></div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="glass-card p-8 rounded-[48px] border-white/5 space-y-6">
+              <h3 className="text-[10px] font-black text-stone-700 uppercase tracking-widest">Shots to Optimal</h3>
+              {dialIns.length === 0 ? (
+                <p className="text-[11px] text-stone-600 font-bold">Mark a bag's optimal shot to track how many brews each dial-in takes.</p>
+              ) : (
+                <>
+                  <Chart
+                    line
+                    points={dialIns.map(d => ({ x: d.reachedAt, y: d.shots, label: `${beanById.get(d.beanId)?.name} · ${methodLabel(d.method)} · ${d.shots} shots` }))}
+                    xLabel="Optimal shot logged"
+                    yLabel="Shots"
+                    xFormat={shortDate}
+                    yFormat={v => v.toFixed(0)}
+                  />
+                  <p className="text-[11px] text-stone-400 font-bold text-center leading-relaxed">
+                    {half >= 2
+                      ? `Your last ${dialIns.length - half} dial-ins took ${meanShots(dialIns.slice(half)).toFixed(1)} shots on average, against ${meanShots(dialIns.slice(0, half)).toFixed(1)} for the ${half} before.`
+                      : `${meanShots(dialIns).toFixed(1)} shots on average to reach the optimal shot.`}
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              <h3 className="text-[11px] font-black text-stone-700 uppercase tracking-widest px-4">Best-Performing Recipes</h3>
+              {recipes.length === 0 ? (
+                <p className="text-[11px] text-stone-600 font-bold px-4">Ranges appear once a method and roast have a few shots rated {GOOD_RATING} or higher.</p>
+              ) : recipes.map(r => (
+                <div key={`${r.method}:${r.roastType ?? ''}`} className="glass-card p-6 rounded-[2.5rem] space-y-4">
+                  <div className="flex justify-between items-baseline">
+                    <span className="text-[10px] font-black text-amber-500/70 uppercase tracking-widest">{methodLabel(r.method)}{r.roastType && ` · ${r.roastType}`}</span>
+                    <span className="text-[9px] font-black text-stone-600 uppercase tracking-widest">{r.shots} shots rated {GOOD_RATING}+</span>
+                  </div>
+                  <div className="grid grid-cols-3 gap-3 text-center">
+                    {[
+                      ['Dose', formatRange(r.dose, 'g')],
+                      ['Ratio', `1:${formatRange(r.ratio)}`],
+                      ['Time', r.method === 'espresso' ? formatRange(r.time, 's') : `${formatBrewTime(r.method, r.time.min)}–${formatBrewTime(r.method, r.time.max)}`],
+                    ].map(([label, value]) => (
+                      <div key={label}>
+                        <span className="text-[8px] font-black text-stone-600 uppercase block mb-1 tracking-widest">{label}</span>
+                        <span className="text-sm font-bold text-stone-200">{value}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const ShareSheet = () => {
+    const bean = beans.find(b => b.id === sharing?.beanId);
+    const shot = shots.find(s => s.id === sharing?.shotId);
+    if (!sharing || !bean || !shot) return null;
+    const url = recipeUrl(recipeFrom(bean, shot, grinders));
+    const copy = () => navigator.clipboard.writeText(url)
+      .then(() => showToast({ message: 'Recipe link copied' }))
+      .catch(() => showToast({ message: 'Copying failed; select the link instead' }));
+    const share = () => navigator.share({ title: `${bean.roaster} · ${bean.name}`, text: `My ${bean.name} recipe: ${shot.dose}g → ${shot.yield}g in ${shot.time}s`, url }).catch(() => {});
+
+    return (
+      <div className="fixed inset-0 z-50 flex items-end justify-center px-4 pb-12 bg-black/90 backdrop-blur-xl fade-in">
+        <div className="glass-card w-full max-w-md rounded-[56px] p-10 space-y-8 relative mb-safe shadow-2xl border-white/20 max-h-[90dvh] overflow-y-auto">
+          <button onClick={() => setSharing(null)} className="absolute top-8 right-8 text-stone-500 p-2"><X size={24} /></button>
+          <div className="text-center pt-4">
+            <Share2 size={40} className="text-amber-500 mx-auto mb-5" />
+            <h3 className="text-3xl font-display text-white mb-1">Share Recipe</h3>
+            <p className="text-stone-500 text-[10px] font-bold uppercase tracking-widest truncate">{bean.roaster} · {bean.name}</p>
+          </div>
+          <div className="flex justify-center">
+            <div className="rounded-[2rem] overflow-hidden"><QrCode value={url} size={232} /></div>
+          </div>
+          <p className="text-center text-[11px] font-bold text-stone-400">
+            {shot.dose}g → {shot.yield}g · {shot.time}s · Grind {shot.grindSetting || '—'} · {shot.rating.toFixed(1)}/10
+          </p>
+          <input readOnly value={url} onFocus={e => e.target.select()} className="w-full bg-white/5 border border-white/5 rounded-2xl px-5 py-4 text-[10px] text-stone-500 font-mono outline-none" />
+          <div className="flex gap-3">
+            <button onClick={copy} className="flex-1 flex items-center justify-center gap-2 py-4 rounded-2xl bg-white/5 text-[10px] font-black uppercase tracking-widest text-stone-300"><Copy size={14} /> Copy Link</button>
+            {'share' in navigator && (
+              <button onClick={share} className="btn-primary flex-1 flex items-center justify-center gap-2 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest"><Share2 size={14} /> Share</button>
+            )}
+          </div>
+          <p className="text-[10px] text-stone-600 leading-snug text-center">The recipe is inside the link itself. Scanning it opens Bragu Pro with a preview, nothing is uploaded.</p>
+        </div>
+      </div>
+    );
+  };
+
+  const SharedRecipePreview = ({ payload }: { payload: string }) => {
+    const decoded = decodeRecipe(payload);
+    const fold = (text: string) => text.trim().toLowerCase();
+    // Offer the bag the user already has of this coffee, if any
+    const match = decoded.ok ? beans.find(b => fold(b.roaster) === fold(decoded.value.roaster) && fold(b.name) === fold(decoded.value.name)) : undefined;
+    const [target, setTarget] = useState<string>(match?.id ?? 'new');
+
+    return (
+      <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
+        <header className="flex items-center justify-between mb-8 mt-4 px-2">
+          <button onClick={() => setView({ type: 'bean-list' }, { replace: true })} className="glass-card w-14 h-14 rounded-full flex items-center justify-center text-stone-500"><X size={24} /></button>
+          <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">Shared Recipe</h2>
+          <div className="w-14"/>
+        </header>
+
+        {decoded.ok === false ? (
+          <div className="glass-card p-10 rounded-[48px] text-center space-y-4">
+            <Link2 size={40} className="text-stone-600 mx-auto" />
+            <p className="text-white font-bold">This recipe link can't be read.</p>
+            <p className="text-[11px] text-stone-500 font-bold">{decoded.reason}</p>
+          </div>
+        ) : (
+          <div className="space-y-6 pb-12">
+            <div className="glass-card p-10 rounded-[56px] space-y-8 shadow-2xl">
+              <div className="text-center">
+                <p className="text-[10px] font-black text-amber-500/60 uppercase tracking-[0.3em]">{decoded.value.roaster}</p>
+                <h3 className="text-4xl font-display text-white mt-2">{decoded.value.name}</h3>
+                <p className="text-[10px] font-black text-stone-600 uppercase tracking-widest mt-2">
+                  {[decoded.value.originType, decoded.value.roastType, decoded.value.country, decoded.value.process].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-x-6 gap-y-8 text-center">
+                <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Dose</p><p className="text-4xl font-display text-white">{decoded.value.dose}<span className="text-xs ml-0.5 opacity-40 font-sans">g</span></p></div>
+                <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Yield</p><p className="text-4xl font-display text-white">{decoded.value.yield}<span className="text-xs ml-0.5 opacity-40 font-sans">g</span></p></div>
+                <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Time</p><p className="text-4xl font-display text-white">{decoded.value.time}<span className="text-xs ml-0.5 opacity-40 font-sans">s</span></p></div>
+                <div><p className="text-[9px] text-stone-600 uppercase font-black mb-2 tracking-tighter">Grind</p><p className="text-4xl font-display text-amber-500">{decoded.value.grindSetting || '—'}</p>{decoded.value.grinderName && <p className="text-[9px] text-stone-600 font-bold uppercase tracking-widest mt-1">{decoded.value.grinderName}</p>}</div>
+              </div>
+              <ShotMetrics shot={decoded.value} roastType={decoded.value.roastType} />
+              {decoded.value.notes && <p className="text-xs text-stone-400 text-center leading-relaxed italic">"{decoded.value.notes}"</p>}
+              {decoded.value.flavourTags && (
+                <div className="flex flex-wrap justify-center gap-2">
+                  {decoded.value.flavourTags.map(tag => <span key={tag} className={`px-3 py-1.5 rounded-full text-[10px] font-bold ${FLAVOUR_CHIP[flavourCategory(tag)?.color ?? 'stone']}`}>{tag}</span>)}
+                </div>
+              )}
+            </div>
+
+            <label className="flex items-center justify-between gap-4 glass-card rounded-[2rem] px-7 py-5">
+              <span className="text-[10px] font-black text-stone-400 uppercase tracking-widest">Add To</span>
+              <select value={target} onChange={e => setTarget(e.target.value)} className="bg-transparent text-white text-xs font-bold outline-none text-right max-w-[60%]">
+                <option value="new" className="bg-stone-900">New bag</option>
+                {beans.map(b => <option key={b.id} value={b.id} className="bg-stone-900">{b.roaster} · {b.name}</option>)}
+              </select>
+            </label>
+            <p className="text-[10px] text-stone-600 font-bold leading-snug px-4">
+              The recipe is saved as a reference shot marked Shared, so it guides your next suggestion without counting as a shot you pulled.
+            </p>
+            <button onClick={() => addSharedRecipe(decoded.value, target === 'new' ? null : target)} className="btn-primary w-full py-6 rounded-[2.5rem] font-black text-[12px] uppercase tracking-widest">
+              {target === 'new' ? 'Add as New Bag' : 'Add Reference Shot'}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const AppCache = () => {
+    const [info, setInfo] = useState<AppCacheInfo | null>(null);
+    const [status, setStatus] = useState<string | null>(null);
+    useEffect(() => {
+      getAppCacheInfo().then(setInfo).catch(e => setStatus(`Cache status unavailable: ${e instanceof Error ? e.message : e}`));
+    }, []);
+
+    const check = () => {
+      setStatus('Checking…');
+      checkForUpdate()
+        .then(found => setStatus(found ? 'A new version is downloading; you will be asked to reload.' : 'You are on the latest version.'))
+        .catch(() => setStatus('Could not reach the server. The cached version keeps working offline.'));
+    };
+    const reset = () => {
+      if (window.confirm('Clear the offline cache and reload from the network? Your bags and shots are kept.')) resetAppCache();
+    };
+    const stateLabel = { none: 'Not installed', installing: 'Installing', waiting: 'Update waiting', active: 'Ready offline' };
+
+    return (
+      <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
+        <header className="flex items-center justify-between mb-8 mt-4 px-2">
+          <button onClick={() => goBack({ type: 'bean-list' })} className="glass-card w-14 h-14 rounded-full flex items-center justify-center text-stone-500"><ChevronLeft size={28} /></button>
+          <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">App Cache</h2>
+          <div className="w-14"/>
+        </header>
+
+        <div className="space-y-4 pb-12">
+          <div className="glass-card p-8 rounded-[48px] space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black text-stone-600 uppercase tracking-widest">Offline Mode</span>
+              <span className={`text-sm font-bold ${info?.state === 'active' ? 'text-emerald-400' : 'text-stone-400'}`}>
+                {!info ? '…' : info.supported ? stateLabel[info.state] : 'Unavailable in this build'}
+              </span>
+            </div>
+            {info?.version && (
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black text-stone-600 uppercase tracking-widest">Build</span>
+                <span className="text-sm font-mono text-stone-400">{info.version}</span>
+              </div>
+            )}
+            {info && info.caches.map(c => (
+              <div key={c.name} className="flex items-center justify-between">
+                <span className="text-[11px] font-mono text-stone-500 truncate">{c.name}</span>
+                <span className="text-[10px] font-black text-stone-600 uppercase tracking-widest">{c.entries} files</span>
+              </div>
+            ))}
+          </div>
+          {status && <p className="text-[11px] text-stone-400 font-bold text-center px-6">{status}</p>}
+          {pendingUpdate ? (
+            <button onClick={pendingUpdate.apply} className="btn-primary w-full flex items-center justify-center gap-3 py-6 rounded-[2.5rem] font-black text-[12px] uppercase tracking-widest"><RefreshCw size={16} /> Reload Into Update</button>
+          ) : (
+            <button onClick={check} disabled={!info?.supported} className="w-full flex items-center justify-between p-7 bg-white/5 rounded-[2.5rem] border border-white/5 hover:bg-white/10 transition-colors disabled:opacity-30"><span className="text-white font-bold">Check for Update</span><RefreshCw className="text-stone-500" /></button>
+          )}
+          <button onClick={reset} className="w-full flex items-center justify-between p-7 bg-white/5 rounded-[2.5rem] border border-white/5 hover:bg-white/10 transition-colors"><span className="text-white font-bold">Clear Cache & Reload</span><HardDrive className="text-stone-500" /></button>
+          <p className="text-[10px] text-stone-600 leading-snug px-6">
+            Clearing only removes the stored copy of the app, which is downloaded again on reload. Bags, shots and photos live in the archive and are not touched.
+          </p>
+        </div>
+      </div>
+    );
+  };
+
+  const SyncDevices = ({ offer }: { offer?: string }) => {
+    const [entry, setEntryState] = useState(() => syncEntryRef.current ?? { code: offer ?? '', scanning: false });
+    const setEntry = (patch: Partial<typeof entry>) => {
+      syncEntryRef.current = { ...entry, ...patch };
+      setEntryState(syncEntryRef.current);
+    };
+    const { code, scanning } = entry;
+    const copy = (text: string) => navigator.clipboard.writeText(text)
+      .then(() => showToast({ message: 'Sync code copied' }))
+      .catch(() => showToast({ message: 'Copying failed; select the code instead' }));
+    const codeBox = (value: string) => (
+      <div className="flex gap-3">
+        <input readOnly value={value} onFocus={e => e.target.select()} className="flex-1 min-w-0 bg-white/5 border border-white/5 rounded-2xl px-5 py-4 text-[10px] text-stone-500 font-mono outline-none" />
+        <button onClick={() => copy(value)} className="px-5 rounded-2xl bg-white/5 text-stone-300" title="Copy Code"><Copy size={16} /></button>
+      </div>
+    );
+    // Where the camera can read QR codes, the other device's code can be scanned instead of pasted
+    const codeEntry = (label: string, onSubmit: (value: string) => void) => (
+      <div className="space-y-3">
+        <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest px-2">{label}</p>
+        {scanning && <QrScanner onScan={value => { setEntry({ scanning: false }); onSubmit(value); }} />}
+        <div className="flex gap-3">
+          <input value={code} onChange={e => setEntry({ code: e.target.value })} placeholder="BRS1.…" className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-2xl px-5 py-4 text-xs text-white font-mono outline-none focus:border-amber-500/50" />
+          {isQrScanSupported() && <button onClick={() => setEntry({ scanning: !scanning })} className={`px-5 rounded-2xl ${scanning ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-300'}`} title="Scan Code"><ScanLine size={16} /></button>}
+        </div>
+        <button onClick={() => onSubmit(code)} disabled={!code.trim()} className="btn-primary w-full py-5 rounded-[2rem] font-black text-[11px] uppercase tracking-widest disabled:opacity-30">Connect</button>
+      </div>
+    );
+    const joinUrl = (offerCode: string) => new URL(viewToPath({ type: 'sync', offer: offerCode }), window.location.origin).href;
+
+    return (
+      <div className="max-w-xl mx-auto px-6 pt-safe pb-safe min-h-[100dvh] flex flex-col fade-in">
+        <header className="flex items-center justify-between mb-8 mt-4 px-2">
+          <button onClick={leaveSync} className="glass-card w-14 h-14 rounded-full flex items-center justify-center text-stone-500"><ChevronLeft size={28} /></button>
+          <h2 className="text-[10px] font-black text-white uppercase tracking-[0.4em]">Sync Devices</h2>
+          <div className="w-14"/>
+        </header>
+
+        <div className="space-y-6 pb-12">
+          {!isPeerSupported() ? (
+            <p className="text-center py-12 text-stone-600 text-[11px] font-bold leading-relaxed px-8">This browser can't open a direct connection to another device.</p>
+          ) : syncStatus.stage === 'idle' ? (
+            <>
+              <p className="text-[11px] text-stone-500 font-bold leading-relaxed px-4">
+                Sync connects two devices on the same Wi-Fi directly, with nothing uploaded. Each ends up with every bag, shot and piece of equipment from both; where the same record was changed on both, the later edit wins.
+              </p>
+              <button onClick={() => startSync()} className="w-full flex items-center justify-between p-7 bg-white/5 rounded-[2.5rem] border border-white/5 hover:bg-white/10 transition-colors"><span className="text-white font-bold">Show a Code on This Device</span><Smartphone className="text-stone-500" /></button>
+              <div className="glass-card p-8 rounded-[48px]">
+                {codeEntry(offer ? 'Code from the link you opened' : 'Or enter the code the other device shows', value => startSync(value))}
+              </div>
+            </>
+          ) : syncStatus.stage === 'starting' ? (
+            <p className="text-center py-12 text-stone-400 text-[11px] font-bold">Preparing the connection…</p>
+          ) : syncStatus.stage === 'hosting' ? (
+            <>
+              <div className="glass-card p-8 rounded-[48px] space-y-5">
+                <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest text-center">1 · Scan on the other device</p>
+                <div className="flex justify-center"><div className="rounded-[2rem] overflow-hidden"><QrCode value={joinUrl(syncStatus.code)} size={232} /></div></div>
+                {codeBox(syncStatus.code)}
+              </div>
+              <div className="glass-card p-8 rounded-[48px] space-y-3">
+                {codeEntry('2 · Enter the code it shows back', acceptSyncAnswer)}
+                {syncStatus.error && <p className="text-[10px] font-bold text-red-400 px-2">{syncStatus.error}</p>}
+              </div>
+            </>
+          ) : syncStatus.stage === 'answering' ? (
+            <div className="glass-card p-8 rounded-[48px] space-y-5">
+              <p className="text-[10px] font-black text-stone-400 uppercase tracking-widest text-center">Scan or enter this on the first device</p>
+              <div className="flex justify-center"><div className="rounded-[2rem] overflow-hidden"><QrCode value={syncStatus.code} size={232} /></div></div>
+              {codeBox(syncStatus.code)}
+              <p className="text-[10px] text-stone-600 font-bold text-center">Waiting for the other device…</p>
+            </div>
+          ) : syncStatus.stage === 'syncing' ? (
+            <div className="glass-card p-10 rounded-[48px] text-center space-y-4">
+              <RefreshCw size={32} className="text-amber-500 mx-auto animate-spin" />
+              <p className="text-white font-bold">{syncStatus.progress}</p>
+              <p className="text-[10px] text-stone-600 font-bold">Keep both devices on this screen.</p>
+            </div>
+          ) : syncStatus.stage === 'done' ? (
+            <div className="glass-card p-10 rounded-[48px] text-center space-y-6">
+              <CheckCircle size={40} className="text-emerald-400 mx-auto" />
+              <p className="text-white font-bold">Both devices are in sync.</p>
+              <div className="grid grid-cols-4 gap-2">
+                {[['Added', syncStatus.summary.added], ['Updated', syncStatus.summary.updated], ['Removed', syncStatus.summary.removed], ['Photos', syncStatus.images]].map(([label, count]) => (
+                  <div key={label}><p className="text-3xl font-display text-white">{count}</p><p className="text-[9px] text-stone-600 uppercase font-black tracking-tighter">{label}</p></div>
+                ))}
+              </div>
+              <p className="text-[10px] text-stone-600 font-bold">Changes on this device; Undo reverts them here only.</p>
+              <button onClick={leaveSync} className="btn-primary w-full py-5 rounded-[2rem] font-black text-[11px] uppercase tracking-widest">Done</button>
+            </div>
+          ) : (
+            <div className="glass-card p-10 rounded-[48px] text-center space-y-6">
+              <p className="text-white font-bold">Sync didn't finish.</p>
+              <p className="text-[11px] text-stone-500 font-bold">{syncStatus.message}</p>
+              <button onClick={() => setSyncStatus({ stage: 'idle' })} className="btn-primary w-full py-5 rounded-[2rem] font-black text-[11px] uppercase tracking-widest">Try Again</button>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const UpdateBanner = () => {
+    if (!pendingUpdate || pendingUpdate.dismissed) return null;
+    return (
+      <div className="fixed top-0 left-0 right-0 z-[60] flex justify-center px-6 pt-safe fade-in">
+        <div className="glass-card mt-4 flex items-center gap-4 pl-6 pr-3 py-3 rounded-full shadow-2xl border-amber-500/30 max-w-md">
+          <span className="text-[11px] font-bold text-stone-300">Update available</span>
+          <button onClick={pendingUpdate.apply} className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest"><RefreshCw size={12} /> Reload</button>
+          <button onClick={() => setPendingUpdate({ ...pendingUpdate, dismissed: true })} className="p-1 text-stone-500"><X size={14} /></button>
+        </div>
+      </div>
+    );
+  };
+
+  const ImportPreview = () => {
+    if (!pendingImport) return null;
+    const { plan, verified, exportedAt } = pendingImport;
+    const stats = [
+      { label: 'New', value: plan.newBeans.length + plan.newShots.length, tone: 'text-emerald-400' },
+      { label: 'Updated', value: plan.updatedBeans.length + plan.updatedShots.length, tone: 'text-amber-500' },
+      { label: 'Conflicting', value: plan.conflicts.length, tone: 'text-orange-400' },
+      { label: 'Invalid', value: plan.invalid.length, tone: 'text-red-400' },
+    ];
+    const describe = (c: ImportPlan['conflicts'][number]) => {
+      if (c.kind === 'bean') return `${c.local.roaster} · ${c.local.name}`;
+      const bean = allBeans.find(b => b.id === c.local.beanId);
+      return `${new Date(c.local.timestamp).toLocaleDateString()} · ${bean?.name ?? 'Unknown bag'}`;
+    };
+
+    return (
+      <div className="fixed inset-0 z-50 flex items-end justify-center px-4 pb-12 bg-black/90 backdrop-blur-xl fade-in">
+        <div className="glass-card w-full max-w-md rounded-[56px] p-10 space-y-8 relative mb-safe shadow-2xl border-white/20 max-h-[90dvh] overflow-y-auto">
+          <button onClick={() => setPendingImport(null)} className="absolute top-8 right-8 text-stone-500 p-2"><X size={24} /></button>
+          <div className="text-center pt-4">
+            <Upload size={40} className="text-amber-500 mx-auto mb-5" />
+            <h3 className="text-3xl font-display text-white mb-1">Import Preview</h3>
+            <p className="text-stone-500 text-[10px] font-bold uppercase tracking-widest">
+              {verified ? `Checksum verified${exportedAt ? ` · ${new Date(exportedAt).toLocaleDateString()}` : ''}` : 'Legacy backup · not verified'}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-white/5 rounded-2xl py-4">
+                <p className={`text-2xl font-display ${stat.tone}`}>{stat.value}</p>
+                <p className="text-[7px] font-black text-stone-600 uppercase tracking-widest mt-1">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+          {plan.unchanged > 0 && <p className="text-center text-[10px] text-stone-600 font-bold -mt-4">{plan.unchanged} identical record(s) skipped</p>}
+
+          {plan.conflicts.length > 0 && (
+            <div className="space-y-3">
+              <h4 className="text-[10px] font-black text-stone-600 uppercase tracking-widest px-2">Resolve Conflicts</h4>
+              {plan.conflicts.map(c => {
+                const choice = resolutions[conflictKey(c)] ?? 'local';
+                return (
+                  <div key={conflictKey(c)} className="bg-white/5 rounded-[2rem] p-5 space-y-3">
+                    <div>
+                      <span className="text-[7px] font-black uppercase tracking-[0.2em] text-amber-500 bg-amber-500/10 px-1.5 py-0.5 rounded-sm">{c.kind}</span>
+                      <p className="text-white text-sm font-bold mt-2 truncate">{describe(c)}</p>
+                      <p className="text-[10px] text-stone-500 mt-1">Differs in: {c.fields.join(', ')}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      {(['local', 'incoming'] as Resolution[]).map(r => (
+                        <button key={r} onClick={() => setResolutions(prev => ({ ...prev, [conflictKey(c)]: r }))} className={`flex-1 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${choice === r ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>
+                          {r === 'local' ? 'Keep Mine' : 'Use Theirs'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <button onClick={confirmMergeImport} className="btn-primary w-full py-6 rounded-[2.5rem] font-black text-[12px] uppercase tracking-widest">Merge Into Archive</button>
+            <button onClick={confirmReplaceImport} className="w-full py-4 text-stone-600 text-[10px] font-black uppercase tracking-widest hover:text-red-500 transition-colors">Replace Entire Archive</button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const CsvImportSheet = () => {
+    if (!csvImport || !csvResult) return null;
+    const { fileName, headers, rows, mapping } = csvImport;
+    const result = csvResult;
+    const missing = CSV_FIELDS.filter(f => f.required && mapping[f.field] < 0);
+    const setColumn = (field: keyof CsvMapping, index: number) =>
+      setCsvImport({ ...csvImport, mapping: { ...mapping, [field]: index } });
+
+    return (
+      <div className="fixed inset-0 z-50 flex items-end justify-center px-4 pb-12 bg-black/90 backdrop-blur-xl fade-in">
+        <div className="glass-card w-full max-w-md rounded-[56px] p-10 space-y-8 relative mb-safe shadow-2xl border-white/20 max-h-[90dvh] overflow-y-auto">
+          <button onClick={() => setCsvImport(null)} className="absolute top-8 right-8 text-stone-500 p-2"><X size={24} /></button>
+          <div className="text-center pt-4">
+            <FileSpreadsheet size={40} className="text-amber-500 mx-auto mb-5" />
+            <h3 className="text-3xl font-display text-white mb-1">Map Columns</h3>
+            <p className="text-stone-500 text-[10px] font-bold uppercase tracking-widest truncate">{fileName} · {rows.length} rows</p>
+          </div>
+
+          <div className="space-y-2">
+            {CSV_FIELDS.map(({ field, label, required }) => (
+              <label key={field} className="flex items-center justify-between gap-4 bg-white/5 rounded-2xl px-5 py-3">
+                <span className="text-[10px] font-black text-stone-400 uppercase tracking-widest">{label}{required && <span className="text-amber-500 ml-1">*</span>}</span>
+                <select value={mapping[field]} onChange={e => setColumn(field, +e.target.value)} className="bg-transparent text-white text-xs font-bold outline-none text-right max-w-[50%]">
+                  <option value={-1} className="bg-stone-900">—</option>
+                  {headers.map((h, i) => <option key={i} value={i} className="bg-stone-900">{h || `Column ${i + 1}`}</option>)}
+                </select>
+              </label>
+            ))}
+            {mapping.rating < 0 && <p className="text-[10px] text-stone-600 px-2">Unmapped ratings default to {DEFAULT_CSV_RATING}/10.</p>}
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-white/5 rounded-2xl py-4"><p className="text-2xl font-display text-emerald-400">{result.shots.length}</p><p className="text-[7px] font-black text-stone-600 uppercase tracking-widest mt-1">Shots</p></div>
+            <div className="bg-white/5 rounded-2xl py-4"><p className="text-2xl font-display text-amber-500">{result.beans.length}</p><p className="text-[7px] font-black text-stone-600 uppercase tracking-widest mt-1">New Bags</p></div>
+            <div className="bg-white/5 rounded-2xl py-4"><p className="text-2xl font-display text-red-400">{result.errors.length + result.duplicates}</p><p className="text-[7px] font-black text-stone-600 uppercase tracking-widest mt-1">Skipped</p></div>
+          </div>
+          {(result.errors.length > 0 || result.duplicates > 0) && (
+            <div className="text-[10px] text-stone-500 space-y-1 px-2">
+              {result.duplicates > 0 && <p>{result.duplicates} row(s) already in the archive</p>}
+              {result.errors.slice(0, 5).map(err => <p key={err.row}>Row {err.row}: {err.reason}</p>)}
+              {result.errors.length > 5 && <p>…and {result.errors.length - 5} more</p>}
+            </div>
+          )}
+
+          <button disabled={missing.length > 0 || result.shots.length === 0} onClick={confirmCsvImport} className="btn-primary w-full py-6 rounded-[2.5rem] font-black text-[12px] uppercase tracking-widest disabled:opacity-30">
+            {missing.length > 0 ? `Map ${missing.map(f => f.label).join(', ')}` : `Import ${result.shots.length} Shots`}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const editedShot = view.type === 'edit-shot' ? shots.find(s => s.id === view.shotId) : undefined;
+
   return (
     <div className="h-[100dvh] w-screen bg-[#050505] text-stone-100 flex flex-col overflow-hidden">
       <div className="flex-1 overflow-y-auto">
@@ -625,8 +2722,20 @@ const App: React.FC = () => {
         {view.type === 'add-bean' && <BeanForm />}
         {view.type === 'edit-bean' && <BeanForm beanId={view.beanId} />}
         {view.type === 'bean-details' && <BeanDetails beanId={view.beanId} />}
-        {view.type === 'add-shot' && <AddShotForm beanId={view.beanId} />}
+        {view.type === 'add-shot' && <ShotForm beanId={view.beanId} fromShotId={view.fromShotId} />}
+        {view.type === 'edit-shot' && editedShot && <ShotForm beanId={editedShot.beanId} shotId={editedShot.id} />}
+        {view.type === 'equipment' && <EquipmentInventory returnTo={view.returnTo} tab={view.tab} />}
+        {view.type === 'trash' && <TrashBin />}
+        {view.type === 'analytics' && <Analytics />}
+        {view.type === 'shared-recipe' && <SharedRecipePreview payload={view.payload} />}
+        {view.type === 'app-cache' && <AppCache />}
+        {view.type === 'sync' && <SyncDevices offer={view.offer} />}
       </div>
+      <UpdateBanner />
+      <ImportPreview />
+      <CsvImportSheet />
+      <ShareSheet />
+      <UndoToast onUndo={undo} onRedo={redo} />
     </div>
   );
 };
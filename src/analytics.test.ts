@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { archiveTotals, bestRecipeRanges, ratingBy, shotsToOptimal, weeklyActivity } from './analytics';
+import { bean, shot } from './testing/fixtures';
+
+const day = (d: number) => new Date(2024, 4, d, 9).getTime(); // May 2024; the 6th is a Monday
+
+describe('archiveTotals', () => {
+  it('leaves shared reference recipes out', () => {
+    expect(archiveTotals([shot({ rating: 6 }), shot({ id: 's2', beanId: 'b2', rating: 8 }), shot({ id: 'r', rating: 10, isReference: true })]))
+      .toEqual({ shots: 2, beans: 2, grams: 36, averageRating: 7 });
+  });
+});
+
+describe('weeklyActivity', () => {
+  it('runs from the first brew to now, with quiet weeks at zero', () => {
+    const weeks = weeklyActivity([shot({ timestamp: day(7) }), shot({ id: 's2', timestamp: day(22), dose: 20 })], day(23));
+    expect(weeks.map(w => [new Date(w.week).getDate(), w.shots, w.grams])).toEqual([[6, 1, 18], [13, 0, 0], [20, 1, 20]]);
+  });
+
+  it('is empty without brews', () => {
+    expect(weeklyActivity([], day(23))).toEqual([]);
+  });
+});
+
+describe('ratingBy', () => {
+  it('averages per group, best first, skipping bags without the attribute', () => {
+    const beans = [bean({ country: 'Kenya' }), bean({ id: 'b2', country: 'Brazil' }), bean({ id: 'b3' })];
+    const shots = [shot({ rating: 9 }), shot({ id: 's2', beanId: 'b2', rating: 6 }), shot({ id: 's3', beanId: 'b2', rating: 8 }), shot({ id: 's4', beanId: 'b3' })];
+    expect(ratingBy(beans, shots, b => b.country)).toEqual([
+      { label: 'Kenya', average: 9, shots: 1, beans: 1 },
+      { label: 'Brazil', average: 7, shots: 2, beans: 1 },
+    ]);
+  });
+});
+
+describe('shotsToOptimal', () => {
+  it('counts the brews of the same method up to the optimal one', () => {
+    const shots = [
+      shot({ id: 'a', timestamp: 1 }),
+      shot({ id: 'p', timestamp: 2, method: 'pour-over' }),
+      shot({ id: 'b', timestamp: 3, isOptimal: true }),
+      shot({ id: 'c', timestamp: 4 }),
+    ];
+    expect(shotsToOptimal(shots)).toEqual([{ beanId: 'b1', method: 'espresso', shots: 2, reachedAt: 3 }]);
+  });
+});
+
+describe('bestRecipeRanges', () => {
+  it('gives the middle half of well-rated shots per roast, once there are enough', () => {
+    const shots = [17, 18, 18, 19, 20].map((dose, i) => shot({ id: `s${i}`, dose, yield: dose * 2, time: 26 + i }));
+    const ranges = bestRecipeRanges([bean(), bean({ id: 'b2', roastType: 'Dark' })], [...shots, shot({ id: 'd', beanId: 'b2' }), shot({ id: 'low', rating: 5, dose: 30 })]);
+    expect(ranges).toEqual([{ method: 'espresso', roastType: 'Medium', shots: 5, dose: { min: 18, max: 19 }, ratio: { min: 2, max: 2 }, time: { min: 27, max: 29 } }]);
+  });
+});
@@ -0,0 +1,158 @@
+import { ROAST_TYPES } from './types';
+import type { Bean, BrewMethod, RoastType, Shot } from './types';
+import type { Range } from './metrics';
+import { brewRatio } from './metrics';
+import { methodsUsed, shotMethod } from './methods';
+import { GOOD_RATING } from './suggest';
+
+// --- Archive Analytics ---
+// Trends across every bag. Shared reference recipes were never brewed here,
+// so they count toward none of it.
+const brewed = (shots: Shot[]) => shots.filter(s => !s.isReference);
+
+export const averageRating = (shots: Shot[]): number | undefined =>
+  shots.length > 0 ? shots.reduce((acc, s) => acc + s.rating, 0) / shots.length : undefined;
+
+export interface ArchiveTotals {
+  shots: number;
+  beans: number; // Bags with at least one brew
+  grams: number; // Coffee dosed
+  averageRating?: number;
+}
+
+export const archiveTotals = (shots: Shot[]): ArchiveTotals => {
+  const own = brewed(shots);
+  return {
+    shots: own.length,
+    beans: new Set(own.map(s => s.beanId)).size,
+    grams: own.reduce((acc, s) => acc + s.dose, 0),
+    averageRating: averageRating(own),
+  };
+};
+
+// Weeks start on Monday, in local time
+const weekStart = (ms: number) => {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+export interface WeekActivity {
+  week: number; // Start of the week
+  shots: number;
+  grams: number; // Coffee dosed
+}
+
+/** Shots and coffee per week, from the first brew's week to `now`'s; quiet weeks are zero rather than missing. */
+export const weeklyActivity = (shots: Shot[], now: number): WeekActivity[] => {
+  const byWeek = new Map<number, WeekActivity>();
+  for (const s of brewed(shots)) {
+    const week = weekStart(s.timestamp);
+    const entry = byWeek.get(week) ?? { week, shots: 0, grams: 0 };
+    byWeek.set(week, { week, shots: entry.shots + 1, grams: entry.grams + s.dose });
+  }
+  if (byWeek.size === 0) return [];
+  const weeks: WeekActivity[] = [];
+  const last = weekStart(Math.max(now, ...byWeek.keys()));
+  // Stepped by calendar day rather than 7 × 24 h, which drifts across DST changes
+  for (const d = new Date(Math.min(...byWeek.keys())); d.getTime() <= last; d.setDate(d.getDate() + 7)) {
+    weeks.push(byWeek.get(d.getTime()) ?? { week: d.getTime(), shots: 0, grams: 0 });
+  }
+  return weeks;
+};
+
+export interface RatingGroup {
+  label: string;
+  average: number;
+  shots: number;
+  beans: number;
+}
+
+/** Average shot rating per bag attribute (roast, origin, roaster…), best first. */
+export const ratingBy = (beans: Bean[], shots: Shot[], keyOf: (bean: Bean) => string | undefined): RatingGroup[] => {
+  const groups = new Map<string, { shots: Shot[]; beans: Set<string> }>();
+  const byId = new Map<string, Bean>(beans.map(b => [b.id, b]));
+  for (const s of brewed(shots)) {
+    const bean = byId.get(s.beanId);
+    const key = bean && keyOf(bean)?.trim();
+    if (!bean || !key) continue;
+    const group = groups.get(key) ?? { shots: [], beans: new Set<string>() };
+    group.shots.push(s);
+    group.beans.add(bean.id);
+    groups.set(key, group);
+  }
+  return [...groups.entries()]
+    .map(([label, g]) => ({ label, average: averageRating(g.shots) ?? 0, shots: g.shots.length, beans: g.beans.size }))
+    .sort((a, b) => b.average - a.average || b.shots - a.shots);
+};
+
+export interface DialInRecord {
+  beanId: string;
+  method: BrewMethod;
+  shots: number; // Brews of the method up to and including the optimal one
+  reachedAt: number;
+}
+
+/** How many brews each bag took to reach its optimal shot, per method, oldest first. */
+export const shotsToOptimal = (shots: Shot[]): DialInRecord[] => {
+  const own = brewed(shots);
+  return own
+    .filter(s => s.isOptimal)
+    .map(optimal => ({
+      beanId: optimal.beanId,
+      method: shotMethod(optimal),
+      shots: own.filter(s => s.beanId === optimal.beanId && shotMethod(s) === shotMethod(optimal) && s.timestamp <= optimal.timestamp).length,
+      reachedAt: optimal.timestamp,
+    }))
+    .sort((a, b) => a.reachedAt - b.reachedAt);
+};
+
+export interface RecipeRange {
+  method: BrewMethod;
+  roastType?: RoastType; // Espresso only; filter targets don't depend on the roast
+  shots: number;
+  dose: Range;
+  ratio: Range;
+  time: Range;
+}
+
+const MIN_GOOD_SHOTS = 3;
+
+// Middle half of the values, so one odd shot doesn't stretch the range
+const interquartile = (values: number[]): Range => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => {
+    const i = (sorted.length - 1) * q;
+    const lo = Math.floor(i);
+    return sorted[lo] + (sorted[Math.ceil(i)] - sorted[lo]) * (i - lo);
+  };
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return { min: round(at(0.25)), max: round(at(0.75)) };
+};
+
+/**
+ * Where well-rated brews cluster: dose, ratio and time of the shots rated
+ * GOOD_RATING or better, per method (and per roast for espresso). Groups with
+ * too few good shots to say anything are left out.
+ */
+export const bestRecipeRanges = (beans: Bean[], shots: Shot[]): RecipeRange[] => {
+  const roastOf = new Map<string, RoastType>(beans.map(b => [b.id, b.roastType]));
+  const good = brewed(shots).filter(s => s.rating >= GOOD_RATING && s.dose > 0 && roastOf.has(s.beanId));
+  return methodsUsed(good).flatMap(method => {
+    const ofMethod = good.filter(s => shotMethod(s) === method);
+    const groups: { roastType?: RoastType; shots: Shot[] }[] = method === 'espresso'
+      ? ROAST_TYPES.map(roastType => ({ roastType, shots: ofMethod.filter(s => roastOf.get(s.beanId) === roastType) }))
+      : [{ shots: ofMethod }];
+    return groups
+      .filter(g => g.shots.length >= MIN_GOOD_SHOTS)
+      .map(g => ({
+        method,
+        ...(g.roastType ? { roastType: g.roastType } : {}),
+        shots: g.shots.length,
+        dose: interquartile(g.shots.map(s => s.dose)),
+        ratio: interquartile(g.shots.map(s => brewRatio(s) as number)),
+        time: interquartile(g.shots.map(s => s.time)),
+      }));
+  });
+};
@@ -0,0 +1,65 @@
+import { SchemaError, parseArchive } from './schema';
+import type { Archive, ParseOptions } from './schema';
+
+// --- Backup File Format ---
+// A backup wraps the portable archive in an envelope carrying a format
+// version and a SHA-256 checksum of the payload, so truncated or hand-edited
+// files are caught before anything is merged into the archive.
+export const BACKUP_FORMAT = 'bragu-pro-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+
+interface BackupEnvelope {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  checksum: string;
+  payload: Archive;
+}
+
+export interface ReadBackupResult {
+  archive: Archive;
+  // False for pre-envelope exports, which carry no checksum to verify
+  verified: boolean;
+  exportedAt?: string;
+}
+
+const sha256 = async (text: string): Promise<string> => {
+  if (!crypto?.subtle) throw new Error('Checksums need a secure (https) context');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const createBackup = async (archive: Archive): Promise<string> => {
+  const envelope: BackupEnvelope = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: `sha256:${await sha256(JSON.stringify(archive))}`,
+    payload: archive,
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+export const readBackup = async (text: string, options?: ParseOptions): Promise<ReadBackupResult> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new SchemaError('File is not valid JSON');
+  }
+
+  const envelope = data as Partial<BackupEnvelope> | null;
+  if (!envelope || envelope.format !== BACKUP_FORMAT) {
+    // Exports from before the envelope existed: bare `{ beans, shots }`
+    return { archive: parseArchive(data, options), verified: false };
+  }
+  if (typeof envelope.formatVersion !== 'number' || envelope.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new SchemaError(`Unsupported backup format v${String(envelope.formatVersion)}`);
+  }
+  const [algorithm, expected] = String(envelope.checksum ?? '').split(':');
+  if (algorithm !== 'sha256' || !expected) throw new SchemaError('Backup has no checksum');
+  if (await sha256(JSON.stringify(envelope.payload)) !== expected) {
+    throw new SchemaError('Checksum mismatch: the backup is corrupted or was modified');
+  }
+  return { archive: parseArchive(envelope.payload, options), verified: true, exportedAt: envelope.exportedAt };
+};
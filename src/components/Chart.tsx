@@ -0,0 +1,80 @@
+import React from 'react';
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+  highlight?: boolean;
+  label?: string;
+}
+
+interface ChartProps {
+  points: ChartPoint[];
+  xLabel: string;
+  yLabel: string;
+  line?: boolean;
+  dots?: boolean; // Off for dense series such as a weight curve; the line carries them
+  xFormat?: (value: number) => string;
+  yFormat?: (value: number) => string;
+  yDomain?: [number, number];
+}
+
+const WIDTH = 320;
+const HEIGHT = 180;
+const PAD = { top: 12, right: 12, bottom: 30, left: 36 };
+
+const domain = (values: number[], fixed?: [number, number]): [number, number] => {
+  if (fixed) return fixed;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) return [min - 1, max + 1];
+  const pad = (max - min) * 0.08;
+  return [min - pad, max + pad];
+};
+
+const ticks = ([min, max]: [number, number]) => [min, (min + max) / 2, max];
+
+const defaultFormat = (v: number) => (Math.abs(v) >= 100 ? v.toFixed(0) : v.toFixed(1));
+
+/**
+ * Dependency-free SVG scatter/line chart, so charts render offline in the PWA.
+ * Highlighted points get an amber ring; `label` becomes the point's tooltip.
+ */
+export const Chart: React.FC<ChartProps> = ({ points, xLabel, yLabel, line, dots = true, xFormat = defaultFormat, yFormat = defaultFormat, yDomain }) => {
+  if (points.length === 0) {
+    return <div className="h-[180px] flex items-center justify-center text-stone-700 text-[10px] font-black uppercase tracking-widest">Not enough data</div>;
+  }
+
+  const xd = domain(points.map(p => p.x));
+  const yd = domain(points.map(p => p.y), yDomain);
+  const sx = (x: number) => PAD.left + ((x - xd[0]) / (xd[1] - xd[0])) * (WIDTH - PAD.left - PAD.right);
+  const sy = (y: number) => HEIGHT - PAD.bottom - ((y - yd[0]) / (yd[1] - yd[0])) * (HEIGHT - PAD.top - PAD.bottom);
+  const sorted = line ? [...points].sort((a, b) => a.x - b.x) : points;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${yLabel} by ${xLabel}`}>
+      {ticks(yd).map((t, i) => (
+        <g key={`y${i}`}>
+          <line x1={PAD.left} x2={WIDTH - PAD.right} y1={sy(t)} y2={sy(t)} stroke="rgba(255,255,255,0.06)" />
+          <text x={PAD.left - 6} y={sy(t)} textAnchor="end" dominantBaseline="middle" fontSize="8" fill="#57534e">{yFormat(t)}</text>
+        </g>
+      ))}
+      {ticks(xd).map((t, i) => (
+        <text key={`x${i}`} x={sx(t)} y={HEIGHT - PAD.bottom + 12} textAnchor={i === 0 ? 'start' : i === 2 ? 'end' : 'middle'} fontSize="8" fill="#57534e">{xFormat(t)}</text>
+      ))}
+      <text x={(PAD.left + WIDTH - PAD.right) / 2} y={HEIGHT - 4} textAnchor="middle" fontSize="8" fontWeight="800" fill="#44403c" letterSpacing="1.5">{xLabel.toUpperCase()}</text>
+      <text transform={`translate(9 ${(PAD.top + HEIGHT - PAD.bottom) / 2}) rotate(-90)`} textAnchor="middle" fontSize="8" fontWeight="800" fill="#44403c" letterSpacing="1.5">{yLabel.toUpperCase()}</text>
+
+      {line && sorted.length > 1 && (
+        <polyline points={sorted.map(p => `${sx(p.x)},${sy(p.y)}`).join(' ')} fill="none" stroke="#f59e0b" strokeOpacity="0.5" strokeWidth="1.5" strokeLinejoin="round" />
+      )}
+      {dots && sorted.map((p, i) => (
+        <g key={i}>
+          {p.highlight && <circle cx={sx(p.x)} cy={sy(p.y)} r="7" fill="none" stroke="#f59e0b" strokeWidth="1.5" />}
+          <circle cx={sx(p.x)} cy={sy(p.y)} r={p.highlight ? 4 : 3} fill={p.highlight ? '#f59e0b' : '#d6d3d1'} fillOpacity={p.highlight ? 1 : 0.7}>
+            {p.label && <title>{p.label}</title>}
+          </circle>
+        </g>
+      ))}
+    </svg>
+  );
+};
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Chart } from './Chart';
+import { formatGrind, grindNumber } from '../grind';
+import { METHOD_PROFILES, formatBrewTime, formatWeights, shotMethod } from '../methods';
+import type { Grinder, Shot } from '../types';
+
+interface DialInChartsProps {
+  shots: Shot[];
+  grinders: Grinder[];
+  optimalShotId?: string;
+}
+
+type ChartTab = 'rating' | 'grind' | 'extraction';
+
+const TABS: { id: ChartTab; label: string }[] = [
+  { id: 'rating', label: 'Rating Trend' },
+  { id: 'grind', label: 'Grind vs Rating' },
+  { id: 'extraction', label: 'Time vs Yield' },
+];
+
+const shortDate = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+/** Per-bean convergence charts shown on the bean screen, for one brew method's shots. */
+export const DialInCharts: React.FC<DialInChartsProps> = ({ shots, grinders, optimalShotId }) => {
+  const [tab, setTab] = useState<ChartTab>('rating');
+  const describe = (s: Shot) => `${shortDate(s.timestamp)} · ${formatWeights(s)} in ${formatBrewTime(shotMethod(s), s.time)} · G:${s.grindSetting} · ${s.rating.toFixed(1)}/10`;
+
+  // Numbers from different grinders aren't comparable: plot the grinder used most recently
+  const latest = [...shots].sort((a, b) => b.timestamp - a.timestamp)[0];
+  const grinder = grinders.find(g => g.id === latest?.grind?.grinderId);
+  const grindPoints = shots.flatMap(s => {
+    const grind = grindNumber(s);
+    if (grind === undefined || s.grind?.grinderId !== latest?.grind?.grinderId) return [];
+    return [{ x: grind, y: s.rating, highlight: s.id === optimalShotId, label: describe(s) }];
+  });
+  const skipped = shots.length - grindPoints.length;
+
+  return (
+    <div className="glass-card p-8 rounded-[48px] border-white/5 space-y-6">
+      <div className="flex gap-2 overflow-x-auto no-scrollbar">
+        {TABS.map(t => (
+          <button key={t.id} onClick={() => setTab(t.id)} className={`px-4 py-2 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap transition-all ${tab === t.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'rating' && (
+        <Chart
+          line
+          points={shots.map(s => ({ x: s.timestamp, y: s.rating, highlight: s.id === optimalShotId, label: describe(s) }))}
+          xLabel="Date"
+          yLabel="Rating"
+          xFormat={shortDate}
+          yDomain={[0, 10]}
+        />
+      )}
+      {tab === 'grind' && (
+        <>
+          <Chart points={grindPoints} xLabel={grinder ? `Grind · ${grinder.name}` : 'Grind'} yLabel="Rating" xFormat={grinder ? v => formatGrind(v, grinder) : undefined} yDomain={[0, 10]} />
+          {skipped > 0 && <p className="text-[9px] text-stone-600 font-bold text-center">{skipped} shot(s) on another grinder or with a non-numeric grind not plotted</p>}
+        </>
+      )}
+      {tab === 'extraction' && (
+        <Chart
+          points={shots.map(s => ({ x: s.time, y: s.yield, highlight: s.id === optimalShotId, label: describe(s) }))}
+          xLabel="Time (s)"
+          yLabel={`${METHOD_PROFILES[latest ? shotMethod(latest) : 'espresso'].yieldLabel} (g)`}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import { Crosshair, Plus, Repeat, Trophy, X } from 'lucide-react';
+import { BREW_METHODS, SENSORY_ATTRIBUTES } from '../types';
+import type { Bean, BrewMethod, RecipeTarget, Shot } from '../types';
+import { beanTarget, deviations, formatDeviation, openSession, sessionShots, suggestWinner, targetPreset } from '../dialin';
+import { formatRange } from '../metrics';
+import { formatBrewTime, formatWeights, methodLabel, shotMethod } from '../methods';
+
+interface DialInPanelProps {
+  bean: Bean;
+  shots: Shot[]; // The bag's shots
+  onSaveTarget: (target: RecipeTarget | undefined) => void; // Undefined goes back to the roast's preset
+  onStartSession: () => void;
+  onFinishSession: (winnerId?: string) => void;
+  onLogShot: () => void;
+  onRepeat: (shotId: string) => void;
+}
+
+const chip = 'px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest whitespace-nowrap';
+
+const RangeInputs: React.FC<{ label: string; range: RecipeTarget['ratio']; step: number; onChange: (range: RecipeTarget['ratio']) => void }> = ({ label, range, step, onChange }) => (
+  <div>
+    <label className="text-[9px] text-stone-600 uppercase font-black block mb-2 tracking-widest">{label}</label>
+    <div className="flex items-center gap-2">
+      <input type="number" step={step} min="0" className="w-full bg-white/5 p-3 rounded-2xl text-lg font-display text-center outline-none text-white" value={range.min} onChange={e => onChange({ ...range, min: +e.target.value })} />
+      <span className="text-stone-600">–</span>
+      <input type="number" step={step} min="0" className="w-full bg-white/5 p-3 rounded-2xl text-lg font-display text-center outline-none text-white" value={range.max} onChange={e => onChange({ ...range, max: +e.target.value })} />
+    </div>
+  </div>
+);
+
+const TargetSummary: React.FC<{ target: RecipeTarget }> = ({ target }) => {
+  const method = shotMethod(target);
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-3 text-center">
+        <div><p className="text-[8px] font-black text-stone-600 uppercase tracking-widest mb-1">Dose</p><p className="text-2xl font-display text-white">{target.dose}<span className="text-xs opacity-40">g</span></p></div>
+        <div><p className="text-[8px] font-black text-stone-600 uppercase tracking-widest mb-1">Ratio</p><p className="text-2xl font-display text-white">1:{formatRange(target.ratio)}</p></div>
+        <div><p className="text-[8px] font-black text-stone-600 uppercase tracking-widest mb-1">Time</p><p className="text-2xl font-display text-white">{method === 'espresso' ? formatRange(target.time, 's') : `${formatBrewTime(method, target.time.min)}–${formatBrewTime(method, target.time.max)}`}</p></div>
+      </div>
+      {target.taste && Object.keys(target.taste).length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {SENSORY_ATTRIBUTES.filter(a => target.taste?.[a.id] !== undefined).map(a => (
+            <span key={a.id} className={`${chip} bg-white/5 text-stone-400`}>{a.label} {target.taste?.[a.id]}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Dial-in for one bag: its target (or the roast's preset), the open session's
+ * shots measured against it, and the recipe the last session settled on.
+ */
+export const DialInPanel: React.FC<DialInPanelProps> = ({ bean, shots, onSaveTarget, onStartSession, onFinishSession, onLogShot, onRepeat }) => {
+  const [draft, setDraft] = useState<RecipeTarget | null>(null);
+  const target = beanTarget(bean);
+  const session = openSession(bean);
+  const inSession = session ? sessionShots(shots, session.id) : [];
+  const suggested = session && suggestWinner(inSession, session.target);
+  const closed = (bean.sessions ?? []).filter(s => s.endedAt !== undefined);
+  const recipeShot = bean.recipe && shots.find(s => s.id === bean.recipe?.shotId);
+  const draftValid = !!draft && draft.dose > 0 && draft.ratio.min <= draft.ratio.max && draft.time.min <= draft.time.max;
+
+  const switchMethod = (method: BrewMethod) => {
+    if (!draft) return;
+    // Ranges don't carry over between methods; the taste the user set does
+    const preset = targetPreset(bean.roastType, method);
+    setDraft({ ...preset, ...(draft.taste ? { taste: draft.taste } : {}) });
+  };
+
+  const save = () => {
+    if (!draft || !draftValid) return;
+    const { taste, ...rest } = draft;
+    onSaveTarget({ ...rest, ...(taste && Object.keys(taste).length > 0 ? { taste } : {}) });
+    setDraft(null);
+  };
+
+  return (
+    <div className="glass-card p-10 rounded-[56px] border-white/5 space-y-8">
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 text-[11px] font-black text-white/50 uppercase tracking-[0.3em]"><Crosshair size={14} /> Dial-In</h3>
+        {!draft && !session && (
+          <button onClick={() => setDraft(target)} className="text-[9px] font-black uppercase tracking-widest text-stone-500">Edit Target</button>
+        )}
+      </div>
+
+      {draft ? (
+        <div className="space-y-6">
+          <div className="flex gap-2 overflow-x-auto no-scrollbar justify-center">
+            {BREW_METHODS.map(m => (
+              <button type="button" key={m.id} onClick={() => switchMethod(m.id)} className={`${chip} transition-all ${shotMethod(draft) === m.id ? 'bg-amber-500 text-black' : 'bg-white/5 text-stone-500'}`}>{m.label}</button>
+            ))}
+          </div>
+          <div>
+            <label className="text-[9px] text-stone-600 uppercase font-black block mb-2 tracking-widest">Dose (g)</label>
+            <input type="number" step="0.1" min="0" className="w-full bg-white/5 p-3 rounded-2xl text-lg font-display text-center outline-none text-white" value={draft.dose} onChange={e => setDraft({ ...draft, dose: +e.target.value })} />
+          </div>
+          <RangeInputs label="Ratio (1:x)" range={draft.ratio} step={0.1} onChange={ratio => setDraft({ ...draft, ratio })} />
+          <RangeInputs label="Time (s)" range={draft.time} step={1} onChange={time => setDraft({ ...draft, time })} />
+          <div className="space-y-4">
+            <div className="flex justify-between items-center">
+              <label className="text-[9px] text-stone-600 uppercase font-black tracking-widest">Taste <span className="text-stone-700 normal-case tracking-normal">— optional</span></label>
+              {draft.taste && Object.keys(draft.taste).length > 0 && <button type="button" onClick={() => setDraft({ ...draft, taste: {} })} className="text-[9px] font-black uppercase tracking-widest text-stone-500">Clear</button>}
+            </div>
+            {SENSORY_ATTRIBUTES.map(a => (
+              <div key={a.id}>
+                <div className="flex justify-between items-center mb-1 px-1">
+                  <span className="text-[9px] font-black text-stone-500 uppercase tracking-widest">{a.label}</span>
+                  <span className={`text-sm font-black ${draft.taste?.[a.id] === undefined ? 'text-stone-700' : 'text-amber-500'}`}>{draft.taste?.[a.id]?.toFixed(1) ?? '—'}</span>
+                </div>
+                <input type="range" min="0" max="10" step="0.5" className={`w-full h-2 bg-white/10 rounded-lg appearance-none cursor-pointer accent-amber-500 ${draft.taste?.[a.id] === undefined ? 'opacity-40' : ''}`} value={draft.taste?.[a.id] ?? 5} onChange={e => setDraft({ ...draft, taste: { ...draft.taste, [a.id]: +e.target.value } })} />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            <button type="button" onClick={() => setDraft(targetPreset(bean.roastType, shotMethod(draft)))} className="flex-1 py-4 rounded-2xl bg-white/5 text-stone-400 text-[10px] font-black uppercase tracking-widest">Use Preset</button>
+            {bean.target && (
+              <button type="button" onClick={() => { onSaveTarget(undefined); setDraft(null); }} className="flex-1 py-4 rounded-2xl bg-white/5 text-stone-400 text-[10px] font-black uppercase tracking-widest">Reset</button>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button type="button" onClick={() => setDraft(null)} className="flex-1 py-4 rounded-2xl bg-white/5 text-stone-400 text-[10px] font-black uppercase tracking-widest">Cancel</button>
+            <button type="button" onClick={save} disabled={!draftValid} className="btn-primary flex-1 py-4 rounded-2xl text-black text-[10px] font-black uppercase tracking-widest disabled:opacity-30">Save Target</button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-[9px] font-black text-stone-600 uppercase tracking-widest text-center">
+            {methodLabel(shotMethod(session?.target ?? target))} · {session ? 'Session target' : bean.target ? 'Bag target' : `${bean.roastType} preset`}
+          </p>
+          <TargetSummary target={session?.target ?? target} />
+        </div>
+      )}
+
+      {session ? (
+        <div className="pt-8 border-t border-white/5 space-y-4">
+          <p className="text-[10px] font-black text-amber-500 uppercase tracking-[0.3em] text-center">Session · {inSession.length} shot{inSession.length === 1 ? '' : 's'}</p>
+          {inSession.map((s, i) => {
+            const off = deviations(s, session.target);
+            return (
+              <div key={s.id} className={`p-5 rounded-[2rem] space-y-3 ${s.id === suggested?.id ? 'bg-amber-500/[0.06] border border-amber-500/20' : 'bg-white/[0.03]'}`}>
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="text-[9px] font-black text-stone-600 uppercase tracking-widest">Shot {i + 1}{s.id === suggested?.id && inSession.length > 1 ? ' · Best so far' : ''}</p>
+                    <p className="text-sm font-bold text-stone-200">{formatWeights(s)} · {formatBrewTime(shotMethod(s), s.time)} · {s.grindSetting || '—'}</p>
+                  </div>
+                  <span className="text-amber-500 font-black text-lg">{s.rating.toFixed(1)}</span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {off.length === 0
+                    ? <span className={`${chip} bg-green-500/10 text-green-400`}>On target</span>
+                    : off.map(d => <span key={d.id} className={`${chip} bg-orange-500/10 text-orange-400`}>{formatDeviation(d)}</span>)}
+                </div>
+                <button onClick={() => onFinishSession(s.id)} className="w-full flex items-center justify-center gap-2 py-3 rounded-2xl bg-white/5 text-[9px] font-black uppercase tracking-widest text-stone-400 active:scale-[0.98] transition-transform">
+                  <Trophy size={12} /> Promote to Recipe
+                </button>
+              </div>
+            );
+          })}
+          <button onClick={onLogShot} className="btn-primary w-full flex items-center justify-center gap-2 py-4 rounded-[2rem] text-black text-[10px] font-black uppercase tracking-widest active:scale-[0.98] transition-transform">
+            <Plus size={14} /> Log {inSession.length > 0 ? 'Next' : 'First'} Shot
+          </button>
+          <button onClick={() => onFinishSession()} className="w-full flex items-center justify-center gap-2 py-3 text-[9px] font-black uppercase tracking-widest text-stone-600">
+            <X size={12} /> End Without Recipe
+          </button>
+        </div>
+      ) : !draft && (
+        <div className="pt-8 border-t border-white/5 space-y-4">
+          <button onClick={onStartSession} className="w-full flex items-center justify-center gap-2 py-4 rounded-[2rem] bg-amber-500/10 text-amber-500 text-[10px] font-black uppercase tracking-widest active:scale-[0.98] transition-transform">
+            <Crosshair size={14} /> Start Dial-In Session
+          </button>
+          {closed.length > 0 && (
+            <p className="text-[9px] font-bold text-stone-600 text-center uppercase tracking-widest">
+              {closed.length} past session{closed.length === 1 ? '' : 's'} · {closed.filter(s => s.winnerId).length} with a recipe
+            </p>
+          )}
+        </div>
+      )}
+
+      {bean.recipe && (
+        <div className="pt-8 border-t border-white/5 space-y-4">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-black text-stone-500 uppercase tracking-[0.3em]">Saved Recipe</p>
+            <span className="text-[9px] font-bold text-stone-600">{new Date(bean.recipe.savedAt).toLocaleDateString()}</span>
+          </div>
+          <p className="text-lg font-display text-white text-center">
+            {formatWeights(bean.recipe)} · {formatBrewTime(shotMethod(bean.recipe), bean.recipe.time)} · <span className="text-amber-500">{bean.recipe.grindSetting || '—'}</span>
+          </p>
+          {recipeShot && (
+            <button onClick={() => onRepeat(recipeShot.id)} className="w-full flex items-center justify-center gap-2 py-4 rounded-[2rem] bg-white/5 text-[10px] font-black uppercase tracking-widest text-stone-400 active:scale-[0.98] transition-transform">
+              <Repeat size={14} /> Brew Recipe
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
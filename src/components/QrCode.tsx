@@ -0,0 +1,34 @@
+import React from 'react';
+import qrcode from 'qrcode-generator';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+}
+
+const QUIET_ZONE = 4; // Modules of blank margin scanners expect around the code
+
+/**
+ * QR code drawn as a single SVG path, encoded on the device. Error correction
+ * is kept low (L) so a long recipe link still fits at a scannable density.
+ */
+export const QrCode: React.FC<QrCodeProps> = ({ value, size = 240 }) => {
+  const qr = qrcode(0, 'L');
+  qr.addData(value);
+  qr.make();
+  const count = qr.getModuleCount();
+  let path = '';
+  for (let row = 0; row < count; row++) {
+    for (let col = 0; col < count; col++) {
+      if (qr.isDark(row, col)) path += `M${col + QUIET_ZONE} ${row + QUIET_ZONE}h1v1h-1z`;
+    }
+  }
+  const extent = count + QUIET_ZONE * 2;
+
+  return (
+    <svg viewBox={`0 0 ${extent} ${extent}`} width={size} height={size} role="img" aria-label="QR code" shapeRendering="crispEdges">
+      <rect width={extent} height={extent} fill="#ffffff" />
+      <path d={path} fill="#050505" />
+    </svg>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { barcodeDetector } from '../scan';
+
+interface QrScannerProps {
+  onScan: (value: string) => void;
+}
+
+/**
+ * Live camera preview that reports the first QR code it reads, decoded by the
+ * browser on the device. Only offered where `isQrScanSupported()`.
+ */
+export const QrScanner: React.FC<QrScannerProps> = ({ onScan }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  });
+
+  useEffect(() => {
+    const Detector = barcodeDetector();
+    if (!Detector) return;
+    const detector = new Detector({ formats: ['qr_code'] });
+    let stream: MediaStream | null = null;
+    let timer = 0;
+    let stopped = false;
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        const [code] = video.readyState >= 2 ? await detector.detect(video) : [];
+        if (code && !stopped) return onScanRef.current(code.rawValue);
+      } catch {
+        // A frame that can't be read yet; try the next one
+      }
+      timer = window.setTimeout(scan, 250);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(s => {
+        stream = s;
+        if (stopped || !videoRef.current) return s.getTracks().forEach(t => t.stop());
+        videoRef.current.srcObject = s;
+        return videoRef.current.play().then(scan);
+      })
+      .catch(e => setError(e instanceof Error ? e.message : String(e)));
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  if (error) return <p className="text-[10px] font-bold text-red-400 uppercase tracking-widest">Camera unavailable: {error}</p>;
+  return <video ref={videoRef} muted playsInline className="w-full aspect-square object-cover rounded-2xl bg-black border border-neutral-800" />;
+};
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bluetooth, Play, Square, Scale, X } from 'lucide-react';
+import { SCALE_MODELS, compactCurve, connectScale, currentRecording, currentScale, disconnectScale, isBluetoothSupported, stalledAt, startRecording, stopRecording, subscribeScale, tareScale } from '../scale';
+import type { ScaleInfo, ScaleModel } from '../scale';
+import type { WeightSample } from '../types';
+
+export interface ScaleCapture {
+  yield: number;
+  time: number;
+  firstDrip?: number;
+  weightCurve: WeightSample[];
+}
+
+interface ScalePanelProps {
+  onDose: (grams: number) => void;
+  onCapture: (capture: ScaleCapture) => void;
+}
+
+type Phase = 'idle' | 'recording';
+
+const FIRST_DRIP = 0.5; // Grams in the cup that count as the first drip
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+const lastSample = (samples: WeightSample[]): WeightSample | undefined => samples[samples.length - 1];
+
+// The shot up to `end` seconds; `final` is the cup weight when it was stopped
+const capture = (samples: WeightSample[], end: number, final: number): ScaleCapture => {
+  const recorded = samples.filter(([t]) => t <= end);
+  const drip = recorded.find(([, g]) => g >= FIRST_DRIP);
+  return {
+    yield: round(final),
+    time: round(end),
+    ...(drip ? { firstDrip: round(drip[0]) } : {}),
+    weightCurve: compactCurve(recorded),
+  };
+};
+
+/**
+ * Live scale readout for the Log Protocol form. "Tare & Start" zeroes the
+ * scale under the cup and records the weight curve until the user stops or
+ * the flow stalls; the result fills yield, time and first drip. The recording
+ * itself is kept in scale.ts, so a remount mid-shot picks it back up.
+ */
+export const ScalePanel: React.FC<ScalePanelProps> = ({ onDose, onCapture }) => {
+  const [scale, setScale] = useState<ScaleInfo | null>(currentScale);
+  const [grams, setGrams] = useState<number | null>(null);
+  const [phase, setPhase] = useState<Phase>(() => (currentRecording() ? 'recording' : 'idle'));
+  const [elapsed, setElapsed] = useState(() => lastSample(currentRecording()?.samples ?? [])?.[0] ?? 0);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onCaptureRef = useRef(onCapture);
+
+  useEffect(() => {
+    onCaptureRef.current = onCapture;
+  });
+
+  useEffect(() => {
+    return subscribeScale({
+      onWeight: (g) => {
+        setGrams(g);
+        const recording = currentRecording();
+        const last = recording && lastSample(recording.samples);
+        if (!recording || !last) return;
+        const [t] = last;
+        // Also covers a remount while the tare that started it was in flight
+        setPhase('recording');
+        setElapsed(t);
+        const end = stalledAt(recording.samples);
+        if (end !== undefined) {
+          stopRecording();
+          setPhase('idle');
+          onCaptureRef.current(capture(recording.samples, end, g));
+        }
+      },
+      onDisconnect: () => {
+        setScale(null);
+        setGrams(null);
+        if (stopRecording()) {
+          setPhase('idle');
+          setError('The scale disconnected during the shot.');
+        }
+      },
+    });
+  }, []);
+
+  const run = (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    task()
+      .catch(e => setError(e instanceof Error ? e.message : String(e)))
+      .finally(() => setBusy(false));
+  };
+
+  const connect = (model: ScaleModel) => run(async () => setScale(await connectScale(model)));
+
+  const start = () => run(async () => {
+    await startRecording();
+    setElapsed(0);
+    setPhase('recording');
+  });
+
+  const stop = () => {
+    const samples = stopRecording()?.samples ?? [];
+    const last = lastSample(samples);
+    setPhase('idle');
+    if (last) onCapture(capture(samples, last[0], last[1]));
+  };
+
+  if (!scale) {
+    const models = SCALE_MODELS.filter(m => m.id === 'simulated' || isBluetoothSupported());
+    return (
+      <div className="space-y-3">
+        <div className="flex gap-2 overflow-x-auto no-scrollbar justify-center">
+          {models.map(m => (
+            <button type="button" key={m.id} disabled={busy} onClick={() => connect(m.id)} className={`flex items-center gap-2 px-4 py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest whitespace-nowrap disabled:opacity-30 ${m.id === 'simulated' ? 'text-stone-600' : 'bg-white/5 text-stone-300'}`}>
+              {m.id === 'simulated' ? <Scale size={14} /> : <Bluetooth size={14} />} {m.label}
+            </button>
+          ))}
+        </div>
+        {!isBluetoothSupported() && <p className="text-[9px] text-stone-600 font-bold text-center">This browser has no Bluetooth access; the simulated scale still works.</p>}
+        {error && <p className="text-[10px] font-bold text-red-400 text-center">{error}</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between px-2">
+        <span className="text-[9px] font-black text-stone-500 uppercase tracking-widest truncate">{scale.name}</span>
+        <button type="button" onClick={disconnectScale} className="text-stone-600 p-1" title="Disconnect"><X size={14} /></button>
+      </div>
+      <div className="flex items-center gap-4">
+        <div className={`flex-1 text-center text-5xl font-display tabular-nums ${phase === 'recording' ? 'text-amber-500' : 'text-white'}`}>
+          {grams === null ? '—' : grams.toFixed(1)}<span className="text-xl opacity-30 ml-1">g</span>
+          {phase === 'recording' && <span className="block text-sm text-stone-500 mt-1">{elapsed.toFixed(1)}s</span>}
+        </div>
+        {phase === 'recording' ? (
+          <button type="button" onClick={stop} className="w-16 h-16 rounded-full bg-red-500 text-black flex items-center justify-center active:scale-90 transition-transform" title="Stop"><Square size={22} fill="currentColor" /></button>
+        ) : (
+          <button type="button" onClick={start} disabled={busy} className="btn-primary w-16 h-16 rounded-full flex items-center justify-center active:scale-90 transition-transform disabled:opacity-30" title="Tare & Start"><Play size={24} fill="currentColor" /></button>
+        )}
+      </div>
+      {phase === 'idle' && (
+        <div className="flex gap-3">
+          <button type="button" disabled={busy} onClick={() => run(tareScale)} className="flex-1 py-4 rounded-2xl bg-white/5 text-stone-400 text-[10px] font-black uppercase tracking-widest disabled:opacity-30">Tare</button>
+          <button type="button" disabled={grams === null || grams <= 0} onClick={() => grams !== null && onDose(round(grams))} className="flex-1 py-4 rounded-2xl bg-white/5 text-stone-400 text-[10px] font-black uppercase tracking-widest disabled:opacity-30">Use as Dose</button>
+        </div>
+      )}
+      {error && <p className="text-[10px] font-bold text-red-400 text-center">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { SENSORY_ATTRIBUTES } from '../types';
+import type { SensoryScores } from '../types';
+
+interface SensoryRadarProps {
+  scores: SensoryScores;
+  size?: number;
+}
+
+const LABEL_PAD = 18;
+
+/**
+ * Pentagon radar of the five sensory scores. Unscored attributes sit at the
+ * centre and their axis label is dimmed, so a partial score still reads.
+ */
+export const SensoryRadar: React.FC<SensoryRadarProps> = ({ scores, size = 140 }) => {
+  const c = size / 2;
+  const r = c - LABEL_PAD;
+  const angle = (i: number) => -Math.PI / 2 + (i * 2 * Math.PI) / SENSORY_ATTRIBUTES.length;
+  const point = (i: number, value: number) => [c + Math.cos(angle(i)) * r * (value / 10), c + Math.sin(angle(i)) * r * (value / 10)];
+  const ring = (value: number) => SENSORY_ATTRIBUTES.map((_, i) => point(i, value).join(',')).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} width={size} height={size} role="img" aria-label="Sensory scores">
+      {[10, 5].map(v => <polygon key={v} points={ring(v)} fill="none" stroke="rgba(255,255,255,0.08)" />)}
+      {SENSORY_ATTRIBUTES.map((a, i) => {
+        const [x, y] = point(i, 10);
+        const [lx, ly] = point(i, (10 * (r + LABEL_PAD / 2)) / r);
+        return (
+          <g key={a.id}>
+            <line x1={c} y1={c} x2={x} y2={y} stroke="rgba(255,255,255,0.06)" />
+            <text x={lx} y={ly} textAnchor="middle" dominantBaseline="middle" fontSize="7" fontWeight="800" fill={scores[a.id] === undefined ? '#292524' : '#78716c'}>
+              {a.label.slice(0, 5).toUpperCase()}
+            </text>
+          </g>
+        );
+      })}
+      <polygon
+        points={SENSORY_ATTRIBUTES.map((a, i) => point(i, scores[a.id] ?? 0).join(',')).join(' ')}
+        fill="#f59e0b"
+        fillOpacity="0.25"
+        stroke="#f59e0b"
+        strokeWidth="1.5"
+        strokeLinejoin="round"
+      >
+        <title>{SENSORY_ATTRIBUTES.filter(a => scores[a.id] !== undefined).map(a => `${a.label} ${scores[a.id]}`).join(' · ')}</title>
+      </polygon>
+    </svg>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { computeMetrics, formatRange } from '../metrics';
+import type { Metric } from '../metrics';
+import { methodLabel, shotMethod } from '../methods';
+import type { RoastType, Shot } from '../types';
+
+interface ShotMetricsProps {
+  shot: Pick<Shot, 'method' | 'dose' | 'yield' | 'time' | 'firstDrip' | 'tds'>;
+  roastType: RoastType;
+  size?: 'sm' | 'lg';
+}
+
+const STATUS_TONE: Record<Metric['status'], string> = {
+  ok: 'text-stone-200',
+  low: 'text-sky-400',
+  high: 'text-orange-400',
+};
+
+/** Ratio, flow and extraction yield for a shot, flagged against its roast's or method's target ranges. */
+export const ShotMetrics: React.FC<ShotMetricsProps> = ({ shot, roastType, size = 'sm' }) => {
+  const metrics = computeMetrics(shot, roastType);
+  const method = shotMethod(shot);
+  const targetOf = method === 'espresso' ? roastType : methodLabel(method);
+  const items = [
+    metrics.ratio && { label: 'Ratio', text: `1:${metrics.ratio.value.toFixed(1)}`, metric: metrics.ratio, range: formatRange(metrics.ratio.target) },
+    metrics.flow && { label: 'Flow', text: `${metrics.flow.value.toFixed(1)}g/s`, metric: metrics.flow, range: formatRange(metrics.flow.target, 'g/s') },
+    metrics.extractionYield && { label: 'EY', text: `${metrics.extractionYield.value.toFixed(1)}%`, metric: metrics.extractionYield, range: formatRange(metrics.extractionYield.target, '%') },
+  ].filter(Boolean) as { label: string; text: string; metric: Metric; range: string }[];
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className={`flex justify-between ${size === 'lg' ? 'gap-4' : 'gap-3 px-1'}`}>
+      {items.map(({ label, text, metric, range }) => (
+        <div key={label} className={size === 'lg' ? 'flex-1 text-center' : ''} title={`Target ${range} for ${targetOf}`}>
+          <span className={`block text-[8px] font-black uppercase tracking-widest ${metric.status === 'ok' ? 'text-stone-600' : STATUS_TONE[metric.status]}`}>
+            {label}{metric.status !== 'ok' && (metric.status === 'low' ? ' ↓' : ' ↑')}
+          </span>
+          <span className={`font-bold ${size === 'lg' ? 'text-xl font-display' : 'text-[12px]'} ${STATUS_TONE[metric.status]}`}>{text}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, Square, RotateCcw, Droplet, Timer } from 'lucide-react';
+
+export interface ShotTiming {
+  time: number;
+  preInfusion?: number;
+  firstDrip?: number;
+}
+
+interface ShotTimerProps {
+  onChange: (timing: ShotTiming) => void;
+  marks?: boolean; // Pre-infusion and first-drip buttons; espresso only
+}
+
+type Phase = 'idle' | 'running' | 'stopped';
+
+// Tenths of a second are as precise as a thumb on a button gets
+const round = (ms: number) => Math.round(ms / 100) / 10;
+
+/**
+ * Start/stop extraction timer for the Log Protocol form. While running it can
+ * split off the end of pre-infusion and mark the first drip; every mark is
+ * reported in seconds from the start of the shot. Filter brews just time the
+ * whole brew.
+ */
+export const ShotTimer: React.FC<ShotTimerProps> = ({ onChange, marks: showMarks = true }) => {
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [marks, setMarks] = useState<{ preInfusion?: number; firstDrip?: number }>({});
+  const startedAt = useRef(0);
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    const id = window.setInterval(() => setElapsed(performance.now() - startedAt.current), 100);
+    return () => window.clearInterval(id);
+  }, [phase]);
+
+  const start = () => {
+    startedAt.current = performance.now();
+    setElapsed(0);
+    setMarks({});
+    setPhase('running');
+  };
+
+  const mark = (key: 'preInfusion' | 'firstDrip') => {
+    setMarks(prev => ({ ...prev, [key]: round(performance.now() - startedAt.current) }));
+  };
+
+  const stop = () => {
+    const total = performance.now() - startedAt.current;
+    setElapsed(total);
+    setPhase('stopped');
+    onChange({ time: round(total), ...marks });
+  };
+
+  const reset = () => {
+    setElapsed(0);
+    setMarks({});
+    setPhase('idle');
+  };
+
+  const markButton = (key: 'preInfusion' | 'firstDrip', label: string, icon: React.ReactNode) => (
+    <button
+      type="button"
+      disabled={phase !== 'running' || marks[key] !== undefined}
+      onClick={() => mark(key)}
+      className={`flex-1 flex items-center justify-center gap-2 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest transition-all ${
+        marks[key] !== undefined ? 'bg-amber-500/10 text-amber-500' : 'bg-white/5 text-stone-500 disabled:opacity-30'
+      }`}
+    >
+      {icon}
+      {marks[key] !== undefined ? `${marks[key]!.toFixed(1)}s` : label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <div className={`flex-1 text-center text-5xl font-display tabular-nums ${phase === 'running' ? 'text-amber-500' : 'text-white'}`}>
+          {(elapsed / 1000).toFixed(1)}<span className="text-xl opacity-30 ml-1">s</span>
+        </div>
+        {phase === 'running' ? (
+          <button type="button" onClick={stop} className="w-16 h-16 rounded-full bg-red-500 text-black flex items-center justify-center active:scale-90 transition-transform"><Square size={22} fill="currentColor" /></button>
+        ) : phase === 'stopped' ? (
+          <button type="button" onClick={reset} className="w-16 h-16 rounded-full bg-white/5 text-stone-400 flex items-center justify-center active:scale-90 transition-transform"><RotateCcw size={22} /></button>
+        ) : (
+          <button type="button" onClick={start} className="btn-primary w-16 h-16 rounded-full flex items-center justify-center active:scale-90 transition-transform"><Play size={24} fill="currentColor" /></button>
+        )}
+      </div>
+      {showMarks && (
+        <div className="flex gap-3">
+          {markButton('preInfusion', 'Pre-Infusion', <Timer size={14} />)}
+          {markButton('firstDrip', 'First Drip', <Droplet size={14} />)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Sparkles } from 'lucide-react';
+import type { Suggestion } from '../suggest';
+
+interface SuggestionCardProps {
+  suggestion: Suggestion;
+  onApply: () => void;
+}
+
+const HEADLINE: Record<Suggestion['basis'], string> = {
+  defaults: 'Starting Point',
+  best: 'Return To Best',
+  last: 'Suggested Next Shot',
+};
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : '−'}${+Math.abs(delta).toFixed(2)}`;
+
+export const SuggestionCard: React.FC<SuggestionCardProps> = ({ suggestion, onApply }) => (
+  <div className="glass-card p-8 rounded-[48px] border-amber-500/20 bg-amber-500/[0.03] space-y-5">
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2 text-amber-500">
+        <Sparkles size={14} />
+        <span className="text-[10px] font-black uppercase tracking-[0.3em]">{HEADLINE[suggestion.basis]}</span>
+      </div>
+      <button type="button" onClick={onApply} className="px-4 py-2 rounded-full bg-white/5 text-[9px] font-black uppercase tracking-widest text-stone-300 active:scale-95 transition-transform">Apply</button>
+    </div>
+    <div className="grid grid-cols-3 gap-3 text-center">
+      <div>
+        <p className="text-[8px] font-black text-stone-600 uppercase tracking-widest mb-1">Grind</p>
+        <p className="text-2xl font-display text-amber-500">{suggestion.grindSetting || '—'}</p>
+        {suggestion.grindDelta ? <p className="text-[9px] font-bold text-stone-500">{formatDelta(suggestion.grindDelta)}</p> : null}
+        {suggestion.grindDelta === undefined && suggestion.direction !== 'hold' && <p className="text-[9px] font-bold text-stone-500">{suggestion.direction}</p>}
+      </div>
+      <div>
+        <p className="text-[8px] font-black text-stone-600 uppercase tracking-widest mb-1">Recipe</p>
+        <p className="text-2xl font-display text-white">{suggestion.dose}<span className="text-xs opacity-40">→</span>{suggestion.yield}</p>
+      </div>
+      <div>
+        <p className="text-[8px] font-black text-stone-600 uppercase tracking-widest mb-1">Expect</p>
+        <p className="text-2xl font-display text-white">~{Math.round(suggestion.expectedTime)}<span className="text-xs opacity-40">s</span></p>
+      </div>
+    </div>
+    <ul className="space-y-1.5 border-t border-white/5 pt-4">
+      {suggestion.reasoning.map((line, i) => (
+        <li key={i} className="text-[11px] text-stone-400 leading-snug">{line}</li>
+      ))}
+    </ul>
+  </div>
+);
@@ -0,0 +1,31 @@
+import React, { useEffect, useState } from 'react';
+import { Redo2, Undo2, X } from 'lucide-react';
+import { currentToast, showToast, subscribeToast } from '../toast';
+import type { Toast } from '../toast';
+
+interface UndoToastProps {
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+/** The current toast from toast.ts; only this re-renders as toasts come and go. */
+export const UndoToast: React.FC<UndoToastProps> = ({ onUndo, onRedo }) => {
+  const [toast, setToast] = useState<Toast | null>(currentToast);
+
+  useEffect(() => subscribeToast(setToast), []);
+
+  if (!toast) return null;
+  return (
+    <div className="fixed bottom-32 left-0 right-0 z-[60] flex justify-center px-6 pointer-events-none fade-in">
+      <div className="glass-card pointer-events-auto flex items-center gap-4 pl-6 pr-3 py-3 rounded-full shadow-2xl border-white/20 max-w-md">
+        <span className="text-[11px] font-bold text-stone-300 truncate">{toast.message}</span>
+        {toast.action && (
+          <button onClick={toast.action === 'undo' ? onUndo : onRedo} className="flex items-center gap-1.5 px-4 py-2 rounded-full bg-amber-500 text-black text-[10px] font-black uppercase tracking-widest flex-shrink-0">
+            {toast.action === 'undo' ? <Undo2 size={12} /> : <Redo2 size={12} />} {toast.action === 'undo' ? 'Undo' : 'Redo'}
+          </button>
+        )}
+        <button onClick={() => showToast(null)} className="p-1 text-stone-500 flex-shrink-0"><X size={14} /></button>
+      </div>
+    </div>
+  );
+};
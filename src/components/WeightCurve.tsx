@@ -0,0 +1,19 @@
+import React from 'react';
+import { Chart } from './Chart';
+import { peakFlow } from '../scale';
+import type { WeightSample } from '../types';
+
+interface WeightCurveProps {
+  curve: WeightSample[];
+}
+
+/** Cup weight over the shot as recorded from a scale, with its peak flow. */
+export const WeightCurve: React.FC<WeightCurveProps> = ({ curve }) => {
+  const flow = peakFlow(curve);
+  return (
+    <div className="space-y-2">
+      <Chart line dots={false} points={curve.map(([x, y]) => ({ x, y }))} xLabel="Seconds" yLabel="Grams" xFormat={v => v.toFixed(0)} />
+      {flow !== undefined && <p className="text-[9px] text-stone-600 font-black text-center uppercase tracking-widest">Peak flow {flow.toFixed(1)} g/s</p>}
+    </div>
+  );
+};
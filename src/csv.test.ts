@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { Bean, Shot } from './types';
+import { DEFAULT_CSV_RATING, guessMapping, mapCsvRows, parseCsv, shotsToCsv, toCsv } from './csv';
+import { bean, shot } from './testing/fixtures';
+
+const ids = () => {
+  let n = 0;
+  return () => `id-${++n}`;
+};
+
+const importCsv = (text: string, archive = { beans: [] as Bean[], shots: [] as Shot[] }) => {
+  const [headers, ...rows] = parseCsv(text);
+  return mapCsvRows(rows, guessMapping(headers), archive, ids());
+};
+
+describe('parseCsv', () => {
+  it('reads quoted cells with commas, escaped quotes and line breaks', () => {
+    expect(parseCsv('a,"b, c","say ""hi""","two\nlines"\r\n1,2,3,4')).toEqual([
+      ['a', 'b, c', 'say "hi"', 'two\nlines'],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('drops a byte-order mark and blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n,\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes cells that need it', () => {
+    expect(toCsv([['a,b', 'say "hi"', 3, undefined]])).toBe('"a,b","say ""hi""",3,');
+  });
+
+  it('neutralises text a spreadsheet would run as a formula', () => {
+    expect(toCsv([['=HYPERLINK("x")', '+1 sour', '@me', '-', -2, '-0.5']])).toBe(`"'=HYPERLINK(""x"")",'+1 sour,'@me,'-,-2,-0.5`);
+  });
+});
+
+describe('shots export and import', () => {
+  it('round-trips an export into a fresh archive, formula-looking notes included', () => {
+    const csv = shotsToCsv([bean()], [shot({ notes: '=too bitter', isOptimal: true, isReference: true, sensory: { sweetness: 7 } })]);
+    const result = importCsv(csv);
+    expect(result.errors).toEqual([]);
+    expect(result.beans.map(b => [b.roaster, b.name])).toEqual([['Roaster', 'Bean']]);
+    expect(result.shots).toHaveLength(1);
+    expect(result.shots[0]).toMatchObject({ id: 's1', dose: 18, yield: 36, time: 28, notes: '=too bitter', isOptimal: true, isReference: true, sensory: { sweetness: 7 } });
+  });
+
+  it('counts shots already in the archive as duplicates', () => {
+    const csv = shotsToCsv([bean()], [shot()]);
+    const result = importCsv(csv, { beans: [bean()], shots: [shot()] });
+    expect(result).toMatchObject({ shots: [], beans: [], duplicates: 1 });
+  });
+});
+
+describe('guessMapping', () => {
+  it('matches headers by alias regardless of case and punctuation', () => {
+    const mapping = guessMapping(['Roastery', 'Coffee', 'Dose (g)', 'Out', 'Shot Time']);
+    expect([mapping.roaster, mapping.name, mapping.dose, mapping.yield, mapping.time, mapping.notes]).toEqual([0, 1, 2, 3, 4, -1]);
+  });
+});
+
+describe('mapCsvRows', () => {
+  it('reuses bags by roaster and name, defaults the rating and reports bad rows', () => {
+    const result = importCsv('roaster,bean,dose,yield,time,rating\nroaster,BEAN,18,36,28,\nRoaster,Bean,18,,28,8\n,Other,18,36,28,8', { beans: [bean()], shots: [] });
+    expect(result.beans).toEqual([]);
+    expect(result.shots.map(s => [s.beanId, s.rating])).toEqual([['b1', DEFAULT_CSV_RATING]]);
+    expect(result.errors.map(e => e.row)).toEqual([3, 4]);
+  });
+});
@@ -0,0 +1,272 @@
+import { BREW_METHODS, ORIGIN_TYPES, ROAST_TYPES, SENSORY_ATTRIBUTES } from './types';
+import type { Bean, Equipment, Grinder, Shot, OriginType, RoastType } from './types';
+import { validateShot } from './schema';
+import { brewRatio, extractionYield, flowRate } from './metrics';
+import { parseGrind } from './grind';
+import { equipmentNames } from './equipment';
+import { shotMethod } from './methods';
+
+// --- CSV (RFC 4180) ---
+// Spreadsheets run text that starts like a formula; a leading apostrophe makes
+// it plain text again. Numbers (negative balances) are left as they are.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const neutralise = (value: string) =>
+  FORMULA_START.test(value) && !Number.isFinite(Number(value)) ? `'${value}` : value;
+
+/** Undoes `neutralise` on cells read back from an export. */
+const unneutralise = (value: string) =>
+  value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+const escapeCell = (raw: string) => {
+  const value = neutralise(raw);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(cell => escapeCell(cell === undefined ? '' : String(cell))).join(',')).join('\r\n');
+
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  // Spreadsheet exports often start with a byte-order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(cell); cell = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else cell += c;
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+// --- Shot Export ---
+const iso = (ms?: number) => (ms === undefined ? '' : new Date(ms).toISOString());
+
+const fixed = (value: number | undefined, digits: number) => (value === undefined ? '' : value.toFixed(digits));
+
+export const SHOT_CSV_HEADER = [
+  'shot_id', 'timestamp', 'bean_id', 'roaster', 'bean_name', 'roast_type', 'origin_type', 'brew_method',
+  'dose_g', 'yield_g', 'time_s', 'pre_infusion_s', 'first_drip_s', 'water_temp_c', 'bloom_water_g', 'bloom_time_s', 'pours', 'ratio',
+  'flow_g_per_s', 'tds_pct', 'extraction_yield_pct', 'grind', 'grinder', 'equipment', 'rating',
+  ...SENSORY_ATTRIBUTES.map(a => a.id), 'balance', 'optimal', 'reference', 'notes', 'updated_at',
+];
+
+/** One row per shot, joined with its bean and setup. Filter brews put their brew water in yield_g. */
+export const shotsToCsv = (beans: Bean[], shots: Shot[], grinders: Grinder[] = [], equipment: Equipment[] = []): string => {
+  const byId = new Map(beans.map(b => [b.id, b]));
+  const grinderNames = new Map(grinders.map(g => [g.id, g.name]));
+  const rows = [...shots]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(s => {
+      const bean = byId.get(s.beanId);
+      return [
+        s.id, iso(s.timestamp), s.beanId, bean?.roaster, bean?.name, bean?.roastType, bean?.originType, shotMethod(s),
+        s.dose, s.yield, s.time, s.preInfusion, s.firstDrip, s.waterTemp, s.bloomWater, s.bloomTime, s.pours,
+        brewRatio(s) !== undefined ? `1:${fixed(brewRatio(s), 2)}` : '', fixed(flowRate(s), 2), s.tds, fixed(extractionYield(s), 2), s.grindSetting,
+        s.grind?.grinderId ? grinderNames.get(s.grind.grinderId) : '', equipmentNames(s, equipment).join('; '), s.rating,
+        ...SENSORY_ATTRIBUTES.map(a => s.sensory?.[a.id]), s.balance,
+        s.isOptimal ? 'yes' : '', s.isReference ? 'yes' : '', s.notes, iso(s.updatedAt),
+      ];
+    });
+  return toCsv([SHOT_CSV_HEADER, ...rows]);
+};
+
+// --- Shot Import ---
+export type CsvField =
+  | 'shotId' | 'timestamp' | 'beanId' | 'roaster' | 'name' | 'roastType' | 'originType'
+  | 'method' | 'dose' | 'yield' | 'time' | 'preInfusion' | 'firstDrip' | 'waterTemp' | 'bloomWater' | 'bloomTime' | 'pours'
+  | 'tds' | 'grind' | 'grinder' | 'equipment' | 'rating'
+  | 'sweetness' | 'acidity' | 'bitterness' | 'body' | 'finish' | 'balance' | 'optimal' | 'reference' | 'notes';
+
+export const CSV_FIELDS: { field: CsvField; label: string; required?: boolean; aliases: string[] }[] = [
+  { field: 'roaster', label: 'Roaster', required: true, aliases: ['roaster', 'roastery'] },
+  { field: 'name', label: 'Bean Name', required: true, aliases: ['bean_name', 'bean', 'name', 'coffee'] },
+  { field: 'dose', label: 'Dose (g)', required: true, aliases: ['dose_g', 'dose', 'in', 'coffee_in'] },
+  { field: 'yield', label: 'Yield (g)', required: true, aliases: ['yield_g', 'yield', 'out', 'beverage_weight'] },
+  { field: 'time', label: 'Time (s)', required: true, aliases: ['time_s', 'time', 'shot_time', 'seconds'] },
+  { field: 'preInfusion', label: 'Pre-Infusion (s)', aliases: ['pre_infusion_s', 'pre_infusion', 'preinfusion'] },
+  { field: 'firstDrip', label: 'First Drip (s)', aliases: ['first_drip_s', 'first_drip', 'time_to_first_drip'] },
+  { field: 'method', label: 'Brew Method', aliases: ['brew_method', 'method', 'brewer'] },
+  { field: 'waterTemp', label: 'Water Temp (°C)', aliases: ['water_temp_c', 'water_temp', 'temperature', 'temp'] },
+  { field: 'bloomWater', label: 'Bloom Water (g)', aliases: ['bloom_water_g', 'bloom_water', 'bloom_g'] },
+  { field: 'bloomTime', label: 'Bloom Time (s)', aliases: ['bloom_time_s', 'bloom_time', 'bloom_s'] },
+  { field: 'pours', label: 'Pours', aliases: ['pours', 'pour_count'] },
+  { field: 'tds', label: 'TDS (%)', aliases: ['tds_pct', 'tds'] },
+  { field: 'grind', label: 'Grind', aliases: ['grind', 'grind_setting', 'grinder_setting'] },
+  { field: 'grinder', label: 'Grinder', aliases: ['grinder', 'grinder_name'] },
+  { field: 'equipment', label: 'Equipment', aliases: ['equipment', 'setup'] },
+  { field: 'rating', label: 'Rating (0-10)', aliases: ['rating', 'score'] },
+  ...SENSORY_ATTRIBUTES.map(a => ({ field: a.id, label: `${a.label} (0-10)`, aliases: [a.id] })),
+  { field: 'balance', label: 'Balance (-5 sour to +5 bitter)', aliases: ['balance'] },
+  { field: 'timestamp', label: 'Date / Time', aliases: ['timestamp', 'date', 'datetime', 'brewed_at'] },
+  { field: 'notes', label: 'Notes', aliases: ['notes', 'comment', 'comments'] },
+  { field: 'roastType', label: 'Roast', aliases: ['roast_type', 'roast', 'roast_level'] },
+  { field: 'originType', label: 'Origin', aliases: ['origin_type', 'origin'] },
+  { field: 'optimal', label: 'Optimal', aliases: ['optimal', 'best'] },
+  { field: 'reference', label: 'Shared Recipe', aliases: ['reference', 'shared'] },
+  { field: 'shotId', label: 'Shot ID', aliases: ['shot_id', 'id'] },
+  { field: 'beanId', label: 'Bean ID', aliases: ['bean_id'] },
+];
+
+// Column index per field; -1 means unmapped
+export type CsvMapping = Record<CsvField, number>;
+
+// Unrated rows land in the middle of the scale rather than dragging averages to zero
+export const DEFAULT_CSV_RATING = 5;
+
+const normalizeHeader = (h: string) => h.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+
+export const guessMapping = (headers: string[]): CsvMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as CsvMapping;
+  for (const { field, aliases } of CSV_FIELDS) {
+    const index = aliases.map(a => normalized.indexOf(a)).find(i => i >= 0 && !used.has(i)) ?? -1;
+    if (index >= 0) used.add(index);
+    mapping[field] = index;
+  }
+  return mapping;
+};
+
+export interface CsvImportResult {
+  beans: Bean[]; // Bags not yet in the archive
+  shots: Shot[];
+  duplicates: number;
+  errors: { row: number; reason: string }[];
+}
+
+const parseNumber = (raw: string) => {
+  const value = Number(raw.trim().replace(',', '.'));
+  return raw.trim() === '' || !Number.isFinite(value) ? NaN : value;
+};
+
+const matchOption = <T extends string>(raw: string, options: T[]): T | undefined =>
+  options.find(o => o.toLowerCase() === raw.trim().toLowerCase());
+
+const isYes = (raw: string) => /^(yes|true|1|x)$/i.test(raw);
+
+const beanKey = (roaster: string, name: string) => `${roaster.trim().toLowerCase()}\u0000${name.trim().toLowerCase()}`;
+
+/**
+ * Builds shots (and any bags they need) from mapped CSV rows. Bags are matched
+ * to the archive by id first, then by roaster + name; shot ids already in the
+ * archive are counted as duplicates so re-importing an export is a no-op.
+ * Grinders and equipment are matched by name only and never created from a CSV.
+ */
+export const mapCsvRows = (
+  rows: string[][],
+  mapping: CsvMapping,
+  archive: { beans: Bean[]; shots: Shot[]; grinders?: Grinder[]; equipment?: Equipment[] },
+  makeId: () => string,
+): CsvImportResult => {
+  const beansById = new Map(archive.beans.map(b => [b.id, b]));
+  const grindersByName = new Map((archive.grinders ?? []).map(g => [g.name.trim().toLowerCase(), g]));
+  const equipmentByName = new Map((archive.equipment ?? []).map(e => [e.name.trim().toLowerCase(), e]));
+  const beansByKey = new Map(archive.beans.map(b => [beanKey(b.roaster, b.name), b]));
+  const shotIds = new Set(archive.shots.map(s => s.id));
+  const newBeans: Bean[] = [];
+  const shots: Shot[] = [];
+  const errors: CsvImportResult['errors'] = [];
+  let duplicates = 0;
+  const now = Date.now();
+
+  rows.forEach((row, i) => {
+    const rowNumber = i + 2; // 1-based, after the header
+    const get = (field: CsvField) => (mapping[field] >= 0 ? unneutralise((row[mapping[field]] ?? '').trim()) : '');
+
+    const shotId = get('shotId');
+    if (shotId && shotIds.has(shotId)) {
+      duplicates++;
+      return;
+    }
+
+    let bean = beansById.get(get('beanId')) ?? beansByKey.get(beanKey(get('roaster'), get('name')));
+    if (!bean) {
+      if (!get('roaster') || !get('name')) {
+        errors.push({ row: rowNumber, reason: 'Missing roaster or bean name' });
+        return;
+      }
+      bean = {
+        id: makeId(),
+        roaster: get('roaster'),
+        name: get('name'),
+        originType: matchOption<OriginType>(get('originType'), ORIGIN_TYPES) ?? 'Single Origin',
+        roastType: matchOption<RoastType>(get('roastType'), ROAST_TYPES) ?? 'Medium',
+        tastingNotes: '',
+        createdAt: now,
+      };
+      newBeans.push(bean);
+      beansByKey.set(beanKey(bean.roaster, bean.name), bean);
+    }
+
+    const timestampRaw = get('timestamp');
+    const timestamp = timestampRaw ? Date.parse(timestampRaw) : now;
+    const ratingRaw = get('rating');
+    const optionalNumber = (field: 'preInfusion' | 'firstDrip' | 'waterTemp' | 'bloomWater' | 'bloomTime' | 'pours' | 'tds' | 'balance') => (get(field) ? { [field]: parseNumber(get(field)) } : {});
+    const sensory = Object.fromEntries(SENSORY_ATTRIBUTES.filter(a => get(a.id)).map(a => [a.id, parseNumber(get(a.id))]));
+    // By id or label; anything else is left for validateShot to reject
+    const methodRaw = get('method').toLowerCase();
+    const method = BREW_METHODS.find(m => m.id === methodRaw || m.label.toLowerCase() === methodRaw)?.id ?? get('method');
+    const grind = parseGrind(get('grind'), grindersByName.get(get('grinder').toLowerCase()));
+    // One item per kind, first listed wins
+    const setup = new Map<string, string>();
+    for (const name of get('equipment').split(';')) {
+      const item = equipmentByName.get(name.trim().toLowerCase());
+      if (item && !setup.has(item.kind)) setup.set(item.kind, item.id);
+    }
+    const candidate = {
+      id: shotId || makeId(),
+      beanId: bean.id,
+      timestamp,
+      ...(method ? { method } : {}),
+      dose: parseNumber(get('dose')),
+      yield: parseNumber(get('yield')),
+      time: parseNumber(get('time')),
+      ...optionalNumber('preInfusion'),
+      ...optionalNumber('firstDrip'),
+      ...optionalNumber('waterTemp'),
+      ...optionalNumber('bloomWater'),
+      ...optionalNumber('bloomTime'),
+      ...optionalNumber('pours'),
+      ...optionalNumber('tds'),
+      grindSetting: get('grind'),
+      ...(grind ? { grind } : {}),
+      ...(setup.size > 0 ? { equipmentIds: [...setup.values()] } : {}),
+      rating: ratingRaw ? parseNumber(ratingRaw) : DEFAULT_CSV_RATING,
+      ...(Object.keys(sensory).length > 0 ? { sensory } : {}),
+      ...optionalNumber('balance'),
+      notes: get('notes'),
+      ...(isYes(get('optimal')) ? { isOptimal: true } : {}),
+      ...(isYes(get('reference')) ? { isReference: true } : {}),
+    };
+    const result = validateShot(candidate);
+    if (result.ok === false) {
+      errors.push({ row: rowNumber, reason: result.reason });
+      return;
+    }
+    shotIds.add(result.value.id);
+    shots.push(result.value);
+  });
+
+  // Only bags that ended up with at least one valid shot are worth creating
+  const usedBeanIds = new Set(shots.map(s => s.beanId));
+  return { beans: newBeans.filter(b => usedBeanIds.has(b.id)), shots, duplicates, errors };
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { RecipeTarget } from './types';
+import { targetsFor } from './metrics';
+import { beanTarget, deviations, formatDeviation, recipeFromShot, sessionShots, suggestWinner, targetPreset } from './dialin';
+import { bean, shot } from './testing/fixtures';
+
+const target: RecipeTarget = { dose: 18, ratio: { min: 2, max: 2.5 }, time: { min: 25, max: 30 }, taste: { acidity: 5 } };
+
+describe('targetPreset', () => {
+  it('starts from the roast and method ranges, marking only non-espresso methods', () => {
+    const { ratio, time } = targetsFor('espresso', 'Dark');
+    expect(targetPreset('Dark')).toMatchObject({ dose: 18, ratio, time });
+    expect(targetPreset('Dark')).not.toHaveProperty('method');
+    expect(targetPreset('Light-Medium', 'pour-over')).toMatchObject({ method: 'pour-over', dose: 15 });
+  });
+
+  it('is used until the bag has a target of its own', () => {
+    expect(beanTarget(bean())).toEqual(targetPreset('Medium'));
+    expect(beanTarget(bean({ target }))).toBe(target);
+  });
+});
+
+describe('deviations', () => {
+  it('is empty for a shot on target, within the tolerances', () => {
+    expect(deviations(shot({ dose: 18.2, yield: 40, sensory: { acidity: 6 } }), target)).toEqual([]);
+  });
+
+  it('measures ratio and time from the nearest end of their range', () => {
+    expect(deviations(shot({ dose: 17, yield: 51, time: 22, sensory: { acidity: 8, body: 9 } }), target)).toEqual([
+      { id: 'dose', label: 'Dose', delta: -1 },
+      { id: 'ratio', label: 'Ratio', delta: 0.5 },
+      { id: 'time', label: 'Time', delta: -3 },
+      { id: 'acidity', label: 'Acidity', delta: 3 },
+    ]);
+  });
+
+  it('treats a miss too small to show as on target', () => {
+    expect(deviations(shot({ yield: 45.5, time: 30.04 }), target)).toEqual([]);
+  });
+});
+
+describe('formatDeviation', () => {
+  it('signs the difference and adds its unit', () => {
+    expect(formatDeviation({ id: 'time', label: 'Time', delta: -3 })).toBe('Time −3s');
+    expect(formatDeviation({ id: 'ratio', label: 'Ratio', delta: 0.5 })).toBe('Ratio +0.5');
+  });
+});
+
+describe('suggestWinner', () => {
+  it('prefers the best rated, then the shot closest to the target', () => {
+    const shots = [shot({ id: 'fast', time: 20 }), shot({ id: 'good' }), shot({ id: 'worse', rating: 7 })];
+    expect(suggestWinner(shots, target)?.id).toBe('good');
+    expect(suggestWinner([], target)).toBeUndefined();
+  });
+});
+
+describe('sessionShots', () => {
+  it('keeps the session\'s shots, oldest first', () => {
+    const shots = [shot({ id: 'b', sessionId: 'x', timestamp: 2 }), shot({ id: 'other' }), shot({ id: 'a', sessionId: 'x', timestamp: 1 })];
+    expect(sessionShots(shots, 'x').map(s => s.id)).toEqual(['a', 'b']);
+  });
+});
+
+describe('recipeFromShot', () => {
+  it('copies the recipe, noting the method only when not espresso', () => {
+    expect(recipeFromShot(shot({ grind: { grinderId: 'g1', value: 1.4 } }), 500)).toEqual({
+      shotId: 's1', dose: 18, yield: 36, time: 28, grindSetting: '1.4', grind: { grinderId: 'g1', value: 1.4 }, savedAt: 500,
+    });
+    expect(recipeFromShot(shot({ method: 'aeropress' }), 500).method).toBe('aeropress');
+  });
+});
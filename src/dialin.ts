@@ -0,0 +1,99 @@
+import { SENSORY_ATTRIBUTES } from './types';
+import type { Bean, BrewMethod, DialInSession, RecipeTarget, RoastType, SavedRecipe, SensoryAttribute, SensoryScores, Shot } from './types';
+import { targetsFor } from './metrics';
+import { METHOD_PROFILES, shotMethod } from './methods';
+
+// --- Dial-In Targets & Sessions ---
+// A bag's target is what its shots are steered towards; without one of its
+// own it uses the preset for its roast. A session groups the shots pulled
+// while chasing the target and ends by promoting one of them to the bag's
+// saved recipe.
+const DEFAULT_DOSE = 18;
+
+// What each roast tends to taste like when it's dialled in well; the
+// extraction ranges come from the metrics targets
+const ROAST_TASTE: Record<RoastType, SensoryScores> = {
+  'Light-Medium': { sweetness: 7, acidity: 7, bitterness: 2, body: 5 },
+  'Medium': { sweetness: 7, acidity: 5, bitterness: 3, body: 6 },
+  'Omni': { sweetness: 7, acidity: 6, bitterness: 3, body: 6 },
+  'Medium-Dark': { sweetness: 6, acidity: 3, bitterness: 4, body: 7 },
+  'Dark': { sweetness: 5, acidity: 2, bitterness: 5, body: 8 },
+};
+
+export const targetPreset = (roastType: RoastType, method: BrewMethod = 'espresso'): RecipeTarget => {
+  const { ratio, time } = targetsFor(method, roastType);
+  return {
+    ...(method !== 'espresso' ? { method } : {}),
+    dose: METHOD_PROFILES[method].defaults?.dose ?? DEFAULT_DOSE,
+    ratio: { ...ratio },
+    time: { ...time },
+    taste: { ...ROAST_TASTE[roastType] },
+  };
+};
+
+export const beanTarget = (bean: Bean): RecipeTarget => bean.target ?? targetPreset(bean.roastType);
+
+export const openSession = (bean: Bean): DialInSession | undefined => bean.sessions?.find(s => s.endedAt === undefined);
+
+/** The session's shots, oldest first. */
+export const sessionShots = (shots: Shot[], sessionId: string): Shot[] =>
+  shots.filter(s => s.sessionId === sessionId).sort((a, b) => a.timestamp - b.timestamp);
+
+export interface Deviation {
+  id: 'dose' | 'ratio' | 'time' | SensoryAttribute;
+  label: string;
+  delta: number; // Signed: above the target when positive
+}
+
+// Closer than these counts as on target
+const DOSE_TOLERANCE = 0.2;
+const TASTE_TOLERANCE = 1;
+
+// Distance outside a range; zero anywhere inside it
+const outside = (value: number, { min, max }: RecipeTarget['ratio']) =>
+  value < min ? value - min : value > max ? value - max : 0;
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Where a shot misses its target: dose against the target dose, ratio and
+ * time against their ranges, and each scored taste attribute the target
+ * cares about. Empty when the shot is on target.
+ */
+export const deviations = (shot: Pick<Shot, 'dose' | 'yield' | 'time' | 'sensory'>, target: RecipeTarget): Deviation[] => {
+  const found: Deviation[] = [];
+  if (Math.abs(shot.dose - target.dose) > DOSE_TOLERANCE) found.push({ id: 'dose', label: 'Dose', delta: round(shot.dose - target.dose) });
+  // Rounded first, so a miss too small to show reads as on target
+  const ratio = shot.dose > 0 ? round(outside(shot.yield / shot.dose, target.ratio)) : 0;
+  if (ratio !== 0) found.push({ id: 'ratio', label: 'Ratio', delta: ratio });
+  const time = round(outside(shot.time, target.time));
+  if (time !== 0) found.push({ id: 'time', label: 'Time', delta: time });
+  for (const a of SENSORY_ATTRIBUTES) {
+    const wanted = target.taste?.[a.id];
+    const scored = shot.sensory?.[a.id];
+    if (wanted !== undefined && scored !== undefined && Math.abs(scored - wanted) > TASTE_TOLERANCE) {
+      found.push({ id: a.id, label: a.label, delta: round(scored - wanted) });
+    }
+  }
+  return found;
+};
+
+const UNITS: Partial<Record<Deviation['id'], string>> = { dose: 'g', time: 's' };
+
+export const formatDeviation = ({ label, delta, id }: Deviation) =>
+  `${label} ${delta > 0 ? '+' : '−'}${Math.abs(delta)}${UNITS[id] ?? ''}`;
+
+/** Best candidate to close a session with: highest rated, then closest to the target. */
+export const suggestWinner = (shots: Shot[], target: RecipeTarget): Shot | undefined =>
+  [...shots].sort((a, b) => b.rating - a.rating || deviations(a, target).length - deviations(b, target).length)[0];
+
+export const recipeFromShot = (shot: Shot, now: number): SavedRecipe => ({
+  shotId: shot.id,
+  ...(shotMethod(shot) !== 'espresso' ? { method: shotMethod(shot) } : {}),
+  dose: shot.dose,
+  yield: shot.yield,
+  time: shot.time,
+  grindSetting: shot.grindSetting,
+  ...(shot.grind ? { grind: shot.grind } : {}),
+  savedAt: now,
+});
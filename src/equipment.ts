@@ -0,0 +1,18 @@
+import type { Equipment, EquipmentKind, Shot } from './types';
+
+// --- Equipment Setups ---
+// A shot's setup is its grinder (from the structured grind) plus whatever
+// other equipment it lists.
+export const setupIds = (shot: Shot): string[] =>
+  [...(shot.grind?.grinderId ? [shot.grind.grinderId] : []), ...(shot.equipmentIds ?? [])];
+
+/** Names of the non-grinder equipment a shot lists, skipping anything since deleted. */
+export const equipmentNames = (shot: Shot, equipment: Equipment[]): string[] =>
+  (shot.equipmentIds ?? []).flatMap(id => {
+    const item = equipment.find(e => e.id === id);
+    return item ? [item.name] : [];
+  });
+
+/** The default item of every equipment kind, by kind. */
+export const defaultEquipment = (equipment: Equipment[]): Partial<Record<EquipmentKind, string>> =>
+  Object.fromEntries(equipment.filter(e => e.isDefault).map(e => [e.kind, e.id]));
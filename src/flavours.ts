@@ -0,0 +1,51 @@
+// --- Flavour Wheel ---
+// A trimmed version of the SCA coffee taster's flavour wheel: tags are the
+// note names themselves, grouped under the wheel's inner categories.
+export interface FlavourCategory {
+  name: string;
+  color: string; // Tailwind text/background tone for chips
+  notes: string[];
+}
+
+export const FLAVOUR_WHEEL: FlavourCategory[] = [
+  { name: 'Fruity', color: 'rose', notes: ['Blackberry', 'Raspberry', 'Blueberry', 'Strawberry', 'Cherry', 'Raisin', 'Prune', 'Coconut', 'Pomegranate', 'Pineapple', 'Grape', 'Apple', 'Peach', 'Pear', 'Grapefruit', 'Orange', 'Lemon', 'Lime'] },
+  { name: 'Floral', color: 'fuchsia', notes: ['Black Tea', 'Chamomile', 'Rose', 'Jasmine'] },
+  { name: 'Sweet', color: 'amber', notes: ['Brown Sugar', 'Molasses', 'Maple Syrup', 'Caramel', 'Honey', 'Vanilla'] },
+  { name: 'Nutty / Cocoa', color: 'orange', notes: ['Peanut', 'Hazelnut', 'Almond', 'Cocoa', 'Milk Chocolate', 'Dark Chocolate'] },
+  { name: 'Spices', color: 'red', notes: ['Clove', 'Cinnamon', 'Nutmeg', 'Anise', 'Black Pepper'] },
+  { name: 'Roasted', color: 'stone', notes: ['Cereal', 'Malt', 'Tobacco', 'Smoky', 'Pipe Tobacco'] },
+  { name: 'Sour / Fermented', color: 'lime', notes: ['Winey', 'Whiskey', 'Fermented', 'Citric', 'Malic'] },
+  { name: 'Green / Vegetative', color: 'emerald', notes: ['Olive Oil', 'Herbal', 'Fresh', 'Peapod'] },
+];
+
+// Full class names, so Tailwind's scanner keeps them in the build
+export const FLAVOUR_CHIP: Record<string, string> = {
+  rose: 'bg-rose-500/15 text-rose-300',
+  fuchsia: 'bg-fuchsia-500/15 text-fuchsia-300',
+  amber: 'bg-amber-500/15 text-amber-300',
+  orange: 'bg-orange-500/15 text-orange-300',
+  red: 'bg-red-500/15 text-red-300',
+  stone: 'bg-stone-500/20 text-stone-300',
+  lime: 'bg-lime-500/15 text-lime-300',
+  emerald: 'bg-emerald-500/15 text-emerald-300',
+};
+
+export const FLAVOUR_NOTES = FLAVOUR_WHEEL.flatMap(c => c.notes);
+
+export const flavourCategory = (note: string): FlavourCategory | undefined =>
+  FLAVOUR_WHEEL.find(c => c.notes.includes(note));
+
+/** Wheel notes named in free text ("milk chocolate, stone fruit" -> ["Milk Chocolate"]), longest names first. */
+export const flavoursIn = (text: string): string[] => {
+  const lower = ` ${text.toLowerCase().replace(/[^a-z\s]/g, ' ')} `;
+  const found: string[] = [];
+  let rest = lower;
+  for (const note of [...FLAVOUR_NOTES].sort((a, b) => b.length - a.length)) {
+    const needle = ` ${note.toLowerCase()} `;
+    if (rest.includes(needle)) {
+      found.push(note);
+      rest = rest.replace(needle, ' ');
+    }
+  }
+  return FLAVOUR_NOTES.filter(n => found.includes(n));
+};
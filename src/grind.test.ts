@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { Grinder } from './types';
+import { formatGrind, grindNumber, parseGrind, parseGrindNumber, snapGrind } from './grind';
+
+const grinder = (fields: Partial<Grinder> = {}): Grinder => ({
+  id: 'g1', name: 'Grinder', scale: 'stepped', step: 1, createdAt: 100, ...fields,
+});
+
+// A Comandante-style dial: 30 clicks per turn
+const rotations = grinder({ scale: 'rotations', numbersPerRotation: 30 });
+
+describe('parseGrindNumber', () => {
+  it('reads decimals, decimal commas, fractions and counted clicks', () => {
+    expect(parseGrindNumber('2.5')).toBe(2.5);
+    expect(parseGrindNumber('2,5')).toBe(2.5);
+    expect(parseGrindNumber('2½')).toBe(2.5);
+    expect(parseGrindNumber('¾')).toBe(0.75);
+    expect(parseGrindNumber('25 clicks')).toBe(25);
+  });
+
+  it('gives nothing for text without a number', () => {
+    expect(parseGrindNumber('fine')).toBeUndefined();
+    expect(parseGrindNumber('')).toBeUndefined();
+  });
+});
+
+describe('parseGrind', () => {
+  it('reads rotations on a rotations grinder, in any of the usual spellings', () => {
+    for (const text of ['1+5', '1r5', '1:5', '1 rot 5', '1 5']) {
+      expect(parseGrind(text, rotations)).toEqual({ grinderId: 'g1', value: 35 });
+    }
+  });
+
+  it('reads plain numbers on other grinders, or without one', () => {
+    expect(parseGrind('14 clicks', grinder())).toEqual({ grinderId: 'g1', value: 14 });
+    expect(parseGrind(' 12 ')).toEqual({ value: 12 });
+    expect(parseGrind('  ')).toBeUndefined();
+    expect(parseGrind('coarse', rotations)).toBeUndefined();
+  });
+});
+
+describe('formatGrind', () => {
+  it('writes rotations back the way they are typed', () => {
+    for (const text of ['0+7', '1+5', '2+0']) {
+      expect(formatGrind(parseGrind(text, rotations)!.value, rotations)).toBe(text);
+    }
+  });
+
+  it('shows as many places as the step has', () => {
+    expect(formatGrind(1.4, grinder({ scale: 'stepless', step: 0.1 }))).toBe('1.4');
+    expect(formatGrind(12, grinder())).toBe('12');
+    expect(formatGrind(1 / 3)).toBe('0.33');
+  });
+});
+
+describe('snapGrind', () => {
+  it('lands on the nearest step, never below zero', () => {
+    expect(snapGrind(2.6, grinder({ step: 0.5 }))).toBe(2.5);
+    expect(snapGrind(-1, grinder())).toBe(0);
+  });
+});
+
+describe('grindNumber', () => {
+  it('prefers the structured value over the typed setting', () => {
+    expect(grindNumber({ grind: { value: 35 }, grindSetting: '1+5' })).toBe(35);
+    expect(grindNumber({ grindSetting: '2½' })).toBe(2.5);
+  });
+});
@@ -0,0 +1,55 @@
+import type { Grinder, GrindValue } from './types';
+
+// --- Grind Settings ---
+const FRACTIONS: Record<string, number> = { '¼': 0.25, '½': 0.5, '¾': 0.75, '⅓': 1 / 3, '⅔': 2 / 3 };
+
+/**
+ * Best-effort numeric reading of a free-form grind setting: "2.5", "2,5",
+ * "2½" and "25 clicks" all yield a number; anything without digits does not.
+ */
+export const parseGrindNumber = (text: string): number | undefined => {
+  const match = text.trim().match(/(\d+(?:[.,]\d+)?)\s*([¼½¾⅓⅔])?/);
+  if (!match) return FRACTIONS[text.trim()];
+  const value = parseFloat(match[1].replace(',', '.')) + (match[2] ? FRACTIONS[match[2]] : 0);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+// "1+5", "1r5", "1:5" or "1 rot 5" on a rotations grinder
+const ROTATION_PATTERN = /^(\d+)\s*(?:\+|r|rot|:|\s)\s*(\d+(?:[.,]\d+)?)$/i;
+
+/** Reads typed text as a position on the given grinder's scale (or a bare number without one). */
+export const parseGrind = (text: string, grinder?: Grinder): GrindValue | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  if (grinder?.scale === 'rotations' && grinder.numbersPerRotation) {
+    const match = trimmed.match(ROTATION_PATTERN);
+    if (match) {
+      const value = +match[1] * grinder.numbersPerRotation + parseFloat(match[2].replace(',', '.'));
+      return { grinderId: grinder.id, value };
+    }
+  }
+  const value = parseGrindNumber(trimmed);
+  if (value === undefined) return undefined;
+  return grinder ? { grinderId: grinder.id, value } : { value };
+};
+
+const placesFor = (step: number) => Math.max(0, -Math.floor(Math.log10(step) + 1e-9));
+
+/** Writes a flattened grind value back out in the grinder's own notation. */
+export const formatGrind = (value: number, grinder?: Grinder): string => {
+  if (!grinder) return String(+value.toFixed(2));
+  const places = placesFor(grinder.step);
+  if (grinder.scale === 'rotations' && grinder.numbersPerRotation) {
+    const rotations = Math.floor(value / grinder.numbersPerRotation + 1e-9);
+    return `${rotations}+${(value - rotations * grinder.numbersPerRotation).toFixed(places)}`;
+  }
+  return value.toFixed(places);
+};
+
+/** Snaps a value onto the grinder's steps; stepless grinders only round for display. */
+export const snapGrind = (value: number, grinder: Grinder) =>
+  Math.max(0, Math.round(value / grinder.step) * grinder.step);
+
+/** The number a shot's grind sorts and charts by, structured value first. */
+export const grindNumber = (shot: { grind?: GrindValue; grindSetting: string }) =>
+  shot.grind?.value ?? parseGrindNumber(shot.grindSetting);
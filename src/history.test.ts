@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_HISTORY, recordChange, stepBack, stepForward } from './history';
+import type { Snapshot } from './history';
+import { bean } from './testing/fixtures';
+
+const state = (name: string): Snapshot =>
+  ({ beans: [bean({ name })], shots: [], grinders: [], equipment: [], quarantine: [], tombstones: [] });
+
+describe('undo history', () => {
+  it('steps back and forward through the recorded states', () => {
+    const history = recordChange(recordChange(EMPTY_HISTORY, 'First', state('A')), 'Second', state('B'));
+    const back = stepBack(history, state('C'))!;
+    expect(back.entry.label).toBe('Second');
+    expect(back.entry.snapshot.beans[0].name).toBe('B');
+    const forward = stepForward(back.history, state('B'))!;
+    expect(forward.entry.snapshot.beans[0].name).toBe('C');
+    expect(forward.history.past.map(e => e.label)).toEqual(['First', 'Second']);
+  });
+
+  it('drops what was undone once a new change is made', () => {
+    const undone = stepBack(recordChange(EMPTY_HISTORY, 'Edit', state('A')), state('B'))!.history;
+    expect(undone.future).toHaveLength(1);
+    expect(recordChange(undone, 'Other edit', state('A')).future).toEqual([]);
+  });
+
+  it('keeps the last 50 changes', () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 60; i++) history = recordChange(history, `Change ${i}`, state(String(i)));
+    expect(history.past).toHaveLength(50);
+    expect(history.past[0].label).toBe('Change 10');
+  });
+
+  it('has nothing to step to at either end', () => {
+    expect(stepBack(EMPTY_HISTORY, state('A'))).toBeUndefined();
+    expect(stepForward(EMPTY_HISTORY, state('A'))).toBeUndefined();
+  });
+});
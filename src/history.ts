@@ -0,0 +1,66 @@
+import type { Archive } from './schema';
+import type { Bean, Equipment, Grinder, Shot } from './types';
+
+// --- Undo / Redo ---
+// Every change to the archive records a snapshot of the records before it.
+// Records are never mutated in place, so a snapshot is just the arrays as they
+// were and costs no copying. The stack lives for the session only.
+export type Snapshot = Pick<Archive, 'beans' | 'shots' | 'grinders' | 'equipment' | 'quarantine' | 'tombstones'>;
+
+export interface UndoEntry {
+  label: string; // What the change did, e.g. "Shot moved to Trash"
+  snapshot: Snapshot;
+}
+
+export interface UndoHistory {
+  past: UndoEntry[];
+  future: UndoEntry[];
+}
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+const MAX_STEPS = 50;
+
+/** Records the state before a change; a new change drops anything that was undone. */
+export const recordChange = (history: UndoHistory, label: string, before: Snapshot): UndoHistory => ({
+  past: [...history.past, { label, snapshot: before }].slice(-MAX_STEPS),
+  future: [],
+});
+
+/** Steps back one change: returns the state to restore and the history with `current` redoable. */
+export const stepBack = (history: UndoHistory, current: Snapshot): { history: UndoHistory; entry: UndoEntry } | undefined => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return undefined;
+  return {
+    history: { past: history.past.slice(0, -1), future: [{ label: entry.label, snapshot: current }, ...history.future] },
+    entry,
+  };
+};
+
+export const stepForward = (history: UndoHistory, current: Snapshot): { history: UndoHistory; entry: UndoEntry } | undefined => {
+  const entry = history.future[0];
+  if (!entry) return undefined;
+  return {
+    history: { past: [...history.past, { label: entry.label, snapshot: current }], future: history.future.slice(1) },
+    entry,
+  };
+};
+
+// Only records the step changes differ from the current ones
+const restamp = <T extends Bean | Shot | Grinder | Equipment>(records: T[], current: T[], now: number): T[] => {
+  const unchanged = new Set<T>(current);
+  return records.map(r => unchanged.has(r) ? r : { ...r, updatedAt: now });
+};
+
+/**
+ * The state to put back for an undo or redo. What it changes counts as a fresh
+ * edit, so the next sync carries it across instead of handing back the copy
+ * another device received before the step.
+ */
+export const restoredSnapshot = (snapshot: Snapshot, current: Snapshot, now: number): Snapshot => ({
+  ...snapshot,
+  beans: restamp(snapshot.beans, current.beans, now),
+  shots: restamp(snapshot.shots, current.shots, now),
+  grinders: restamp(snapshot.grinders, current.grinders, now),
+  equipment: restamp(snapshot.equipment, current.equipment, now),
+});
@@ -0,0 +1,42 @@
+import type { BagStatus, Bean, Shot } from './types';
+
+// --- Bag Inventory ---
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Calendar dates are kept as YYYY-MM-DD and read in local time, so "days off
+// roast" counts the mornings the user actually lived through.
+const startOfDay = (ms: number) => {
+  const d = new Date(ms);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+};
+
+export const parseCalendarDate = (date: string): number | undefined => {
+  const match = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return undefined;
+  const time = new Date(+match[1], +match[2] - 1, +match[3]).getTime();
+  return Number.isFinite(time) ? time : undefined;
+};
+
+export const toCalendarDate = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/** Whole days between the roast date and the given moment; undefined without a roast date. */
+export const daysOffRoast = (bean: Pick<Bean, 'roastDate'>, at: number): number | undefined => {
+  const roasted = bean.roastDate ? parseCalendarDate(bean.roastDate) : undefined;
+  return roasted === undefined ? undefined : Math.round((startOfDay(at) - roasted) / DAY_MS);
+};
+
+/** Bag weight minus every dose pulled from it (shared reference recipes used none); undefined when the bag wasn't weighed. */
+export const remainingWeight = (bean: Pick<Bean, 'id' | 'bagWeight'>, shots: Shot[]): number | undefined => {
+  if (bean.bagWeight === undefined) return undefined;
+  const used = shots.reduce((acc, s) => (s.beanId === bean.id && !s.isReference ? acc + s.dose : acc), 0);
+  return Math.max(0, bean.bagWeight - used);
+};
+
+/** Where a bag is listed: marked finished or emptied by its shots, in the freezer, or in use. */
+export const bagStatus = (bean: Bean, shots: Shot[]): BagStatus => {
+  if (bean.status === 'finished' || remainingWeight(bean, shots) === 0) return 'finished';
+  return bean.status ?? 'active';
+};
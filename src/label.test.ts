@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { LabelLine } from './scan';
+import { suggestFromLabel } from './label';
+
+// Lines as read, each with its print size; spaced down the bag in order
+const label = (...lines: [text: string, height: number][]): LabelLine[] =>
+  lines.map(([text, height], i) => ({ text, height, top: i * 100 }));
+
+describe('suggestFromLabel', () => {
+  it('reads a typical single-origin bag', () => {
+    const suggestion = suggestFromLabel(label(
+      ['SQUARE MILE', 60],
+      ['ETHIOPIA GUJI', 40],
+      ['Washed · Light roast', 12],
+      ['Tasting notes: peach, jasmine, black tea', 12],
+      ['Net weight 250g', 10],
+    ), []);
+    expect(suggestion).toEqual({
+      roaster: 'Square Mile',
+      name: 'Ethiopia Guji',
+      originType: 'Single Origin',
+      roastType: 'Light-Medium',
+      tastingNotes: 'peach, jasmine, black tea',
+    });
+  });
+
+  it('reuses the spelling of a roaster already in the archive', () => {
+    const suggestion = suggestFromLabel(label(['SQUARE MILE COFFEE ROASTERS', 30], ['Red Brick', 50]), ['Square Mile']);
+    expect(suggestion).toMatchObject({ roaster: 'Square Mile', name: 'Red Brick' });
+  });
+
+  it('takes the roast level from roast lines only, not from the notes', () => {
+    const suggestion = suggestFromLabel(label(['Espresso Blend', 40], ['Notes: dark chocolate, caramel', 12], ['Medium dark roast', 12]), []);
+    expect(suggestion).toMatchObject({ roastType: 'Medium-Dark', originType: 'Blend', tastingNotes: 'dark chocolate, caramel' });
+  });
+
+  it('takes notes from the line below a bare heading, or from a line naming several flavours', () => {
+    expect(suggestFromLabel(label(['Flavour notes', 12], ['Cherry, Cocoa', 12]), []).tastingNotes).toBe('Cherry, Cocoa');
+    expect(suggestFromLabel(label(['Blackberry, milk chocolate and hazelnut', 12]), []).tastingNotes).toBe('Blackberry, milk chocolate and hazelnut');
+  });
+
+  it('calls a bag naming several countries a blend', () => {
+    expect(suggestFromLabel(label(['Brazil & Colombia', 20]), []).originType).toBe('Blend');
+  });
+
+  it('proposes nothing it cannot support', () => {
+    expect(suggestFromLabel([], [])).toEqual({});
+    expect(suggestFromLabel(label(['250g', 10], ['www.example.com', 10]), [])).toEqual({});
+  });
+});
@@ -0,0 +1,101 @@
+import type { Bean, OriginType, RoastType } from './types';
+import type { LabelLine } from './scan';
+import { flavoursIn } from './flavours';
+
+// --- Bag Label Reading ---
+// Turns the lines read off a bag photo into proposed form values. Labels have
+// no fixed layout, so these are guesses for the user to confirm: anything the
+// text doesn't support is left out rather than filled with a default.
+export type LabelField = 'roaster' | 'name' | 'originType' | 'roastType' | 'tastingNotes';
+
+export const LABEL_FIELDS: { id: LabelField; label: string }[] = [
+  { id: 'roaster', label: 'Roaster' },
+  { id: 'name', label: 'Bean Name' },
+  { id: 'originType', label: 'Origin' },
+  { id: 'roastType', label: 'Roast' },
+  { id: 'tastingNotes', label: 'Tasting Notes' },
+];
+
+export type LabelSuggestion = Partial<Pick<Bean, LabelField>>;
+
+// Checked in order, so "medium dark" wins over "medium" and "dark"
+const ROAST_LEVELS: [RegExp, RoastType][] = [
+  [/\bmedium[\s-]*dark\b/, 'Medium-Dark'],
+  [/\blight[\s-]*medium\b|\blight\b|\bfilter\b|\bnordic\b/, 'Light-Medium'],
+  [/\bomni\b/, 'Omni'],
+  [/\bdark\b|\bfrench\b|\bitalian\b/, 'Dark'],
+  [/\bmedium\b/, 'Medium'],
+];
+
+const COUNTRIES = [
+  'Ethiopia', 'Kenya', 'Rwanda', 'Burundi', 'Uganda', 'Tanzania', 'Congo', 'Yemen', 'Colombia', 'Brazil', 'Peru',
+  'Bolivia', 'Ecuador', 'Guatemala', 'Honduras', 'El Salvador', 'Nicaragua', 'Costa Rica', 'Panama', 'Mexico',
+  'India', 'Indonesia', 'Sumatra', 'Papua New Guinea', 'China', 'Vietnam',
+];
+
+const NOTES_LABEL = /^(?:tasting notes|taste notes|flavou?r notes|flavou?rs?|notes|cup(?:ping)? notes|tastes? like|we taste|profile)\b\s*[:\-–]?\s*/i;
+
+// Lines that describe the coffee rather than name it: specs, weights, dates, links
+const DETAIL = /\b(?:roast(?:ed)?|origin|region|process|varietal|variety|producer|farm|altitude|elevation|masl|notes?|weight|net|best before)\b|\d+\s?(?:g|kg|oz|lbs?|m)\b|\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|www\.|\.com\b|@/i;
+
+const ROASTER_WORDS = /\broast(?:er|ers|ery|ing)\b|\bcoffee (?:co|company)\b/i;
+
+// All-caps print reads better as words: "ETHIOPIA GUJI" -> "Ethiopia Guji"
+const tidy = (text: string) =>
+  text === text.toUpperCase() && /[A-Z]{2}/.test(text)
+    ? text.toLowerCase().replace(/(^|[\s\-/(&])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase())
+    : text;
+
+const roastLevel = (lines: string[]): RoastType | undefined => {
+  // Only lines about the roast, so "dark chocolate" in the notes doesn't read as a dark roast
+  const about = lines.map(l => l.toLowerCase()).filter(l => /\broast/.test(l) || ROAST_LEVELS.some(([re]) => l.replace(re, '').trim() === ''));
+  for (const [re, roastType] of ROAST_LEVELS) if (about.some(l => re.test(l))) return roastType;
+  return undefined;
+};
+
+const originType = (text: string): OriginType | undefined => {
+  if (/\bblend\b/i.test(text)) return 'Blend';
+  if (/\bsingle[\s-]*origin\b/i.test(text)) return 'Single Origin';
+  const countries = COUNTRIES.filter(c => new RegExp(`\\b${c}\\b`, 'i').test(text)).length;
+  return countries === 1 ? 'Single Origin' : countries > 1 ? 'Blend' : undefined;
+};
+
+// The line the notes were read from, as detected
+const notesLine = (lines: string[]): string | undefined => {
+  const labelled = lines.findIndex(l => NOTES_LABEL.test(l));
+  if (labelled !== -1) {
+    const notes = lines[labelled].replace(NOTES_LABEL, '').trim() ? lines[labelled] : lines[labelled + 1];
+    if (notes) return notes;
+  }
+  // Otherwise the line naming the most wheel notes, if it names a couple
+  const [best] = lines.map(l => ({ l, n: flavoursIn(l).length })).sort((a, b) => b.n - a.n);
+  return best && best.n >= 2 ? best.l : undefined;
+};
+
+/**
+ * Proposes bag details from label text. `knownRoasters` are the roasters
+ * already in the archive, matched first so their spelling is reused.
+ */
+export const suggestFromLabel = (lines: LabelLine[], knownRoasters: string[]): LabelSuggestion => {
+  const texts = lines.map(l => l.text);
+  const suggestion: LabelSuggestion = {};
+  const roastType = roastLevel(texts);
+  if (roastType) suggestion.roastType = roastType;
+  const origin = originType(texts.join('\n'));
+  if (origin) suggestion.originType = origin;
+  const notes = notesLine(texts);
+  if (notes) suggestion.tastingNotes = tidy(notes.replace(NOTES_LABEL, '').trim());
+
+  // What's left is the names: the roaster by what it's called or how it's
+  // written, the coffee as the largest print that isn't the roaster
+  const names = lines.filter(l => !DETAIL.test(l.text) && !NOTES_LABEL.test(l.text) && l.text !== notes && /\p{L}{2}/u.test(l.text));
+  const known = knownRoasters.find(r => texts.some(t => t.toLowerCase().includes(r.toLowerCase())));
+  const byWord = names.find(l => ROASTER_WORDS.test(l.text));
+  const largest = [...names].sort((a, b) => b.height - a.height);
+  const roasterLine = known ? undefined : byWord ?? (largest.length >= 2 ? [largest[0], largest[1]].sort((a, b) => a.top - b.top)[0] : undefined);
+  if (known) suggestion.roaster = known;
+  else if (roasterLine) suggestion.roaster = tidy(roasterLine.text);
+  const nameLine = largest.find(l => l !== roasterLine && !(known && l.text.toLowerCase().includes(known.toLowerCase())));
+  if (nameLine) suggestion.name = tidy(nameLine.text);
+  return suggestion;
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import type { Bean, Shot } from './types';
+import { emptyArchive } from './schema';
+import { applyImport, conflictKey, normalizeOptimal, planImport } from './merge';
+import { bean, shot } from './testing/fixtures';
+
+const local = (beans: Bean[], shots: Shot[] = []) => ({ beans, shots, grinders: [], equipment: [] });
+
+const incoming = (beans: Bean[], shots: Shot[] = []) => ({ ...emptyArchive(), beans, shots });
+
+describe('planImport', () => {
+  it('sorts incoming records into new, updated, unchanged and conflicting', () => {
+    const plan = planImport(
+      local([bean(), bean({ id: 'b2' }), bean({ id: 'b3', name: 'Local', updatedAt: 300 })]),
+      incoming([bean(), bean({ id: 'b2', name: 'Renamed', updatedAt: 200 }), bean({ id: 'b3', name: 'Older', updatedAt: 150 }), bean({ id: 'b4' })]),
+    );
+    expect(plan.newBeans.map(b => b.id)).toEqual(['b4']);
+    expect(plan.updatedBeans.map(b => b.id)).toEqual(['b2']);
+    expect(plan.unchanged).toBe(1);
+    expect(plan.conflicts.map(c => [c.id, c.fields])).toEqual([['b3', ['name']]]);
+  });
+
+  it('treats a newer copy as a conflict when this device edited its copy since they last merged', () => {
+    const plan = planImport(
+      local([bean({ name: 'Edited here', updatedAt: 200, baseEdit: 100 })]),
+      incoming([bean({ name: 'Edited there', updatedAt: 300, baseEdit: 100 })]),
+    );
+    expect(plan.updatedBeans).toEqual([]);
+    expect(plan.conflicts.map(c => c.id)).toEqual(['b1']);
+  });
+
+  it('takes a newer copy that descends from the local version', () => {
+    const plan = planImport(
+      local([bean({ name: 'Shared', updatedAt: 200 })]),
+      incoming([bean({ name: 'Edited there', updatedAt: 300, baseEdit: 200 })]),
+    );
+    expect(plan.updatedBeans.map(b => b.name)).toEqual(['Edited there']);
+  });
+});
+
+describe('applyImport', () => {
+  it('applies resolutions per kind, so a bag and a shot sharing an id stay apart', () => {
+    const plan = planImport(
+      local([bean({ id: 'x', name: 'Local', updatedAt: 300 })], [shot({ id: 'x', beanId: 'x', rating: 5, updatedAt: 300 })]),
+      incoming([bean({ id: 'x', name: 'Incoming', updatedAt: 200 })], [shot({ id: 'x', beanId: 'x', rating: 9, updatedAt: 200 })]),
+    );
+    const shotConflict = plan.conflicts.find(c => c.kind === 'shot');
+    const merged = applyImport(local([bean({ id: 'x', name: 'Local', updatedAt: 300 })], [shot({ id: 'x', beanId: 'x', rating: 5, updatedAt: 300 })]), plan, {
+      [conflictKey(shotConflict!)]: 'incoming',
+    });
+    expect(merged.beans[0].name).toBe('Local');
+    expect(merged.shots[0].rating).toBe(9);
+  });
+
+  it('records the version taken as the common ancestor for the next merge', () => {
+    const plan = planImport(local([bean()]), incoming([bean({ name: 'Renamed', updatedAt: 200 }), bean({ id: 'b2' })]));
+    const merged = applyImport(local([bean()]), plan, {});
+    expect(merged.beans.map(b => [b.id, b.baseEdit])).toEqual([['b2', 100], ['b1', 200]]);
+  });
+});
+
+describe('normalizeOptimal', () => {
+  it('keeps the most recently edited optimal shot per bag and method', () => {
+    const shots = normalizeOptimal([
+      shot({ id: 'a', isOptimal: true, updatedAt: 200 }),
+      shot({ id: 'b', isOptimal: true, updatedAt: 300 }),
+      shot({ id: 'c', isOptimal: true, method: 'pour-over' }),
+    ]);
+    expect(shots.filter(s => s.isOptimal).map(s => s.id)).toEqual(['b', 'c']);
+  });
+});
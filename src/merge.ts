@@ -0,0 +1,149 @@
+import type { Bean, Equipment, Grinder, Shot } from './types';
+import type { Archive, QuarantinedRecord } from './schema';
+import { shotMethod } from './methods';
+
+// --- Merge Import ---
+// Incoming records are matched to local ones by `id`. Identical records are
+// skipped, records whose incoming copy was edited more recently are updates,
+// and anything else that differs is a conflict the user resolves by hand. So
+// is a newer copy when this device's copy was edited too since the version
+// both last shared (`baseEdit`), which would otherwise be overwritten.
+export type Resolution = 'local' | 'incoming';
+
+export type Conflict =
+  | { kind: 'bean'; id: string; local: Bean; incoming: Bean; fields: string[] }
+  | { kind: 'shot'; id: string; local: Shot; incoming: Shot; fields: string[] };
+
+export interface ImportPlan {
+  newBeans: Bean[];
+  newShots: Shot[];
+  updatedBeans: Bean[];
+  updatedShots: Shot[];
+  conflicts: Conflict[];
+  unchanged: number;
+  // Grinder profiles and equipment are reference data: new ones are added and
+  // newer edits win, without asking
+  grinders: Grinder[];
+  equipment: Equipment[];
+  invalid: QuarantinedRecord[];
+  images: Record<string, string>;
+}
+
+export const conflictKey = (conflict: Pick<Conflict, 'kind' | 'id'>) => `${conflict.kind}-${conflict.id}`;
+
+export const lastEdit = (record: Bean | Shot | Grinder | Equipment) =>
+  record.updatedAt ?? ('createdAt' in record ? record.createdAt : record.timestamp);
+
+const diffFields = <T extends object>(a: T, b: T): string[] => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].filter(k => k !== 'updatedAt' && k !== 'baseEdit' && JSON.stringify(a[k as keyof T]) !== JSON.stringify(b[k as keyof T]));
+};
+
+const classify = <T extends Bean | Shot>(
+  local: T[],
+  incoming: T[],
+  onConflict: (local: T, incoming: T, fields: string[]) => void,
+) => {
+  const byId = new Map(local.map(r => [r.id, r]));
+  const created: T[] = [];
+  const updated: T[] = [];
+  let unchanged = 0;
+  for (const record of incoming) {
+    const existing = byId.get(record.id);
+    if (!existing) {
+      created.push(record);
+      continue;
+    }
+    const fields = diffFields(existing, record);
+    // Without a shared version on record (never merged before), newer simply wins
+    const ancestor = Math.max(existing.baseEdit ?? -Infinity, record.baseEdit ?? -Infinity);
+    const editedHere = lastEdit(existing) > ancestor && ancestor !== -Infinity;
+    if (fields.length === 0) unchanged++;
+    else if (lastEdit(record) > lastEdit(existing) && !editedHere) updated.push(record);
+    else onConflict(existing, record, fields);
+  }
+  return { created, updated, unchanged };
+};
+
+type LocalRecords = Pick<Archive, 'beans' | 'shots' | 'grinders' | 'equipment'>;
+
+const newerReference = <T extends Grinder | Equipment>(local: T[], incoming: T[]) =>
+  incoming.filter(r => {
+    const existing = local.find(l => l.id === r.id);
+    return !existing || lastEdit(r) > lastEdit(existing);
+  });
+
+const withReference = <T extends Grinder | Equipment>(local: T[], taken: T[]) => {
+  const updates = new Map(taken.map(r => [r.id, r]));
+  return [...taken.filter(r => !local.some(l => l.id === r.id)), ...local.map(r => updates.get(r.id) ?? r)];
+};
+
+export const planImport = (local: LocalRecords, incoming: Archive): ImportPlan => {
+  const conflicts: Conflict[] = [];
+  const beans = classify(local.beans, incoming.beans, (l, i, fields) =>
+    conflicts.push({ kind: 'bean', id: l.id, local: l, incoming: i, fields }));
+  const shots = classify(local.shots, incoming.shots, (l, i, fields) =>
+    conflicts.push({ kind: 'shot', id: l.id, local: l, incoming: i, fields }));
+
+  return {
+    newBeans: beans.created,
+    newShots: shots.created,
+    updatedBeans: beans.updated,
+    updatedShots: shots.updated,
+    conflicts,
+    unchanged: beans.unchanged + shots.unchanged,
+    grinders: newerReference(local.grinders, incoming.grinders),
+    equipment: newerReference(local.equipment, incoming.equipment),
+    invalid: incoming.quarantine,
+    images: incoming.images ?? {},
+  };
+};
+
+// A bean has one optimal shot per brew method
+const optimalSlot = (shot: Shot) => `${shot.beanId}:${shotMethod(shot)}`;
+
+// A merge can bring in a second `isOptimal` shot for a slot; keep the most recently edited one.
+export const normalizeOptimal = (shots: Shot[]): Shot[] => {
+  const winners = new Map<string, Shot>();
+  for (const shot of shots) {
+    if (!shot.isOptimal) continue;
+    const current = winners.get(optimalSlot(shot));
+    if (!current || lastEdit(shot) > lastEdit(current)) winners.set(optimalSlot(shot), shot);
+  }
+  return shots.map(s => s.isOptimal && winners.get(optimalSlot(s)) !== s ? { ...s, isOptimal: false } : s);
+};
+
+export const applyImport = (
+  local: LocalRecords,
+  plan: ImportPlan,
+  resolutions: Record<string, Resolution>,
+): LocalRecords => {
+  const beanUpdates = new Map(plan.updatedBeans.map(b => [b.id, b]));
+  const shotUpdates = new Map(plan.updatedShots.map(s => [s.id, s]));
+  for (const conflict of plan.conflicts) {
+    if (resolutions[conflictKey(conflict)] !== 'incoming') continue;
+    if (conflict.kind === 'bean') beanUpdates.set(conflict.id, conflict.incoming);
+    else shotUpdates.set(conflict.id, conflict.incoming);
+  }
+
+  // Whatever is taken from the file is now the version both sides share
+  const taken = <T extends Bean | Shot>(record: T): T => ({ ...record, baseEdit: lastEdit(record) });
+  const beans = [...plan.newBeans.map(taken), ...local.beans.map(b => beanUpdates.has(b.id) ? taken(beanUpdates.get(b.id) as Bean) : b)];
+  const shots = [...plan.newShots.map(taken), ...local.shots.map(s => shotUpdates.has(s.id) ? taken(shotUpdates.get(s.id) as Shot) : s)];
+  return {
+    beans,
+    shots: normalizeOptimal(shots),
+    grinders: withReference(local.grinders, plan.grinders),
+    equipment: withReference(local.equipment, plan.equipment),
+  };
+};
+
+/** Image ids a merge actually takes from the incoming file. */
+export const importedImageIds = (plan: ImportPlan, resolutions: Record<string, Resolution>): string[] => {
+  const taken = [
+    ...plan.newBeans,
+    ...plan.updatedBeans,
+    ...plan.conflicts.flatMap(c => c.kind === 'bean' && resolutions[conflictKey(c)] === 'incoming' ? [c.incoming] : []),
+  ];
+  return taken.flatMap(b => b.imageId && plan.images[b.imageId] ? [b.imageId] : []);
+};
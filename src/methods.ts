@@ -0,0 +1,62 @@
+import { BREW_METHODS } from './types';
+import type { BrewMethod, Shot } from './types';
+
+// --- Brew Methods ---
+// Every brew logs dose, a water weight and a time; what else is worth
+// recording depends on the method. Filter methods keep the brew water in
+// `yield`, since that is what goes on the scale, and their targets are in
+// metrics.ts alongside espresso's.
+export type BrewParam = 'preInfusion' | 'firstDrip' | 'waterTemp' | 'bloomWater' | 'bloomTime' | 'pours';
+
+export const BREW_PARAMS: { id: BrewParam; label: string; unit: string; step: number }[] = [
+  { id: 'preInfusion', label: 'Pre-Infusion', unit: 's', step: 0.1 },
+  { id: 'firstDrip', label: 'First Drip', unit: 's', step: 0.1 },
+  { id: 'waterTemp', label: 'Water Temp', unit: '°C', step: 0.5 },
+  { id: 'bloomWater', label: 'Bloom Water', unit: 'g', step: 1 },
+  { id: 'bloomTime', label: 'Bloom Time', unit: 's', step: 1 },
+  { id: 'pours', label: 'Pours', unit: '', step: 1 },
+];
+
+export type BrewRecipe = Pick<Shot, 'dose' | 'yield' | 'time'> & Partial<Pick<Shot, BrewParam>>;
+
+export interface MethodProfile {
+  yieldLabel: string; // What `yield` weighs for this method
+  timeLabel: string;
+  params: BrewParam[];
+  defaults?: BrewRecipe; // First brew of a bag; espresso starts from the dial-in suggestion instead
+}
+
+export const METHOD_PROFILES: Record<BrewMethod, MethodProfile> = {
+  espresso: { yieldLabel: 'Yield', timeLabel: 'Extraction Time', params: ['preInfusion', 'firstDrip'] },
+  'pour-over': {
+    yieldLabel: 'Water',
+    timeLabel: 'Total Brew Time',
+    params: ['waterTemp', 'bloomWater', 'bloomTime', 'pours'],
+    defaults: { dose: 15, yield: 250, time: 210, waterTemp: 94, bloomWater: 45, bloomTime: 40, pours: 3 },
+  },
+  aeropress: {
+    yieldLabel: 'Water',
+    timeLabel: 'Total Brew Time',
+    params: ['waterTemp', 'bloomWater', 'bloomTime'],
+    defaults: { dose: 15, yield: 220, time: 120, waterTemp: 85, bloomWater: 40, bloomTime: 30 },
+  },
+};
+
+export const shotMethod = (shot: Pick<Shot, 'method'>): BrewMethod => shot.method ?? 'espresso';
+
+export const methodLabel = (method: BrewMethod) => BREW_METHODS.find(m => m.id === method)?.label ?? method;
+
+/** Methods the shots were brewed with, in BREW_METHODS order. */
+export const methodsUsed = (shots: Pick<Shot, 'method'>[]): BrewMethod[] =>
+  BREW_METHODS.map(m => m.id).filter(id => shots.some(s => shotMethod(s) === id));
+
+/** Seconds for espresso; minutes and seconds for brews long enough to read that way. */
+export const formatBrewTime = (method: BrewMethod, seconds: number) => {
+  if (method === 'espresso') return `${seconds}s`;
+  const whole = Math.round(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/** Dose into the cup for espresso; dose and brew water for everything else. */
+export const formatWeights = (shot: Pick<Shot, 'method' | 'dose' | 'yield'>) =>
+  shotMethod(shot) === 'espresso' ? `${shot.dose}g → ${shot.yield}g` : `${shot.dose}g · ${shot.yield}g water`;
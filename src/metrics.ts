@@ -0,0 +1,93 @@
+import type { BrewMethod, RoastType, Shot } from './types';
+import { shotMethod } from './methods';
+
+// --- Extraction Metrics ---
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface RoastTargets {
+  ratio: Range; // Yield / dose
+  time: Range; // Seconds
+  flow?: Range; // Grams per second; espresso only
+  extractionYield: Range; // Percent
+}
+
+// Starting points for espresso by roast level: lighter roasts want longer
+// ratios and higher extraction, darker roasts shorter and gentler.
+export const ROAST_TARGETS: Record<RoastType, RoastTargets> = {
+  'Light-Medium': { ratio: { min: 2.0, max: 2.6 }, time: { min: 25, max: 33 }, flow: { min: 1.2, max: 2.4 }, extractionYield: { min: 19, max: 23 } },
+  'Medium': { ratio: { min: 1.8, max: 2.3 }, time: { min: 25, max: 32 }, flow: { min: 1.1, max: 2.2 }, extractionYield: { min: 18, max: 22 } },
+  'Omni': { ratio: { min: 1.8, max: 2.4 }, time: { min: 25, max: 32 }, flow: { min: 1.1, max: 2.2 }, extractionYield: { min: 18.5, max: 22 } },
+  'Medium-Dark': { ratio: { min: 1.5, max: 2.1 }, time: { min: 22, max: 30 }, flow: { min: 0.9, max: 2.0 }, extractionYield: { min: 17.5, max: 21 } },
+  'Dark': { ratio: { min: 1.3, max: 1.9 }, time: { min: 20, max: 28 }, flow: { min: 0.8, max: 1.8 }, extractionYield: { min: 17, max: 20 } },
+};
+
+// Filter brews are dialled in with the grind and ratio whatever the roast, so
+// one range per method. Ratios here are brew water / dose.
+export const METHOD_TARGETS: Record<Exclude<BrewMethod, 'espresso'>, RoastTargets> = {
+  'pour-over': { ratio: { min: 15, max: 17 }, time: { min: 150, max: 240 }, extractionYield: { min: 18, max: 22 } },
+  'aeropress': { ratio: { min: 12, max: 16 }, time: { min: 90, max: 180 }, extractionYield: { min: 18, max: 22 } },
+};
+
+export const targetsFor = (method: BrewMethod, roastType: RoastType): RoastTargets =>
+  method === 'espresso' ? ROAST_TARGETS[roastType] : METHOD_TARGETS[method];
+
+// Grams of water a gram of spent filter grounds holds back from the cup
+const RETAINED_WATER = 2;
+
+export type RangeStatus = 'low' | 'ok' | 'high';
+
+export interface Metric {
+  value: number;
+  target: Range;
+  status: RangeStatus;
+}
+
+export interface ShotMetrics {
+  ratio?: Metric;
+  time: Metric;
+  flow?: Metric;
+  extractionYield?: Metric;
+}
+
+type MetricInput = Pick<Shot, 'method' | 'dose' | 'yield' | 'time' | 'firstDrip' | 'tds'>;
+
+const assess = (value: number, target: Range): Metric => ({
+  value,
+  target,
+  status: value < target.min ? 'low' : value > target.max ? 'high' : 'ok',
+});
+
+export const brewRatio = (shot: MetricInput) => (shot.dose > 0 ? shot.yield / shot.dose : undefined);
+
+// Averaged over the time liquid was actually flowing when the first drip was
+// marked. Espresso only: a filter brew's time is mostly the water draining.
+export const flowRate = (shot: MetricInput) => {
+  if (shotMethod(shot) !== 'espresso') return undefined;
+  const flowing = shot.time - (shot.firstDrip ?? 0);
+  return flowing > 0 ? shot.yield / flowing : undefined;
+};
+
+// Filter brews weigh the water going in, so the beverage is estimated from it
+export const extractionYield = (shot: MetricInput) => {
+  if (shot.tds === undefined || shot.dose <= 0) return undefined;
+  const beverage = shotMethod(shot) === 'espresso' ? shot.yield : shot.yield - RETAINED_WATER * shot.dose;
+  return beverage > 0 ? (shot.tds * beverage) / shot.dose : undefined;
+};
+
+export const computeMetrics = (shot: MetricInput, roastType: RoastType): ShotMetrics => {
+  const targets = targetsFor(shotMethod(shot), roastType);
+  const ratio = brewRatio(shot);
+  const flow = flowRate(shot);
+  const ey = extractionYield(shot);
+  return {
+    ratio: ratio !== undefined ? assess(ratio, targets.ratio) : undefined,
+    time: assess(shot.time, targets.time),
+    flow: flow !== undefined && targets.flow ? assess(flow, targets.flow) : undefined,
+    extractionYield: ey !== undefined ? assess(ey, targets.extractionYield) : undefined,
+  };
+};
+
+export const formatRange = ({ min, max }: Range, unit = '') => `${min}–${max}${unit}`;
@@ -0,0 +1,179 @@
+// --- Peer Connection ---
+// A direct WebRTC data channel between two devices on the same network. There
+// is no signalling server: the host's offer and the joiner's answer travel as
+// short codes the user copies or scans, and no STUN/TURN servers are used, so
+// nothing about the archive or the devices leaves the local network.
+const CODE_PREFIX = 'BRS1.';
+const CHUNK_SIZE = 16 * 1024; // Safe message size across browsers
+const HIGH_WATER = 1024 * 1024; // Pause sending while this much is queued
+const GATHER_TIMEOUT = 5000;
+
+export interface PeerEvents {
+  onOpen: () => void;
+  onMessage: (message: unknown) => void;
+  onClose: () => void;
+}
+
+export interface PeerSession {
+  code: string; // Offer (host) or answer (joiner) to hand to the other device
+  // Host only: completes the connection with the joiner's answer
+  accept?: (answer: string) => Promise<void>;
+  send: (message: unknown) => Promise<void>;
+  close: () => void;
+}
+
+export const isPeerSupported = () => typeof RTCPeerConnection !== 'undefined' && typeof CompressionStream !== 'undefined';
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) =>
+  Uint8Array.from(atob(encoded.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+// SDP is mostly boilerplate and compresses to a code that fits a QR comfortably
+const encodeSignal = async (description: RTCSessionDescriptionInit) => {
+  const json = JSON.stringify([description.type, description.sdp]);
+  return CODE_PREFIX + toBase64Url(await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+};
+
+const decodeSignal = async (code: string, expected: RTCSdpType): Promise<RTCSessionDescriptionInit> => {
+  const trimmed = code.trim().replace(/^.*#/, ''); // A scanned link carries the code in its hash
+  if (!trimmed.startsWith(CODE_PREFIX)) throw new Error('That is not a Bragu Pro sync code.');
+  let parsed: unknown;
+  try {
+    const bytes = await transform(fromBase64Url(trimmed.slice(CODE_PREFIX.length)), new DecompressionStream('deflate-raw'));
+    parsed = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('The sync code is damaged or incomplete.');
+  }
+  if (!Array.isArray(parsed) || typeof parsed[1] !== 'string') throw new Error('The sync code is damaged or incomplete.');
+  if (parsed[0] !== expected) {
+    throw new Error(expected === 'answer' ? 'That is the code this device showed; enter the one from the other device.' : 'That code is a reply; start from the code the other device shows.');
+  }
+  return { type: expected, sdp: parsed[1] };
+};
+
+// Non-trickle: the code has to carry every candidate, so wait for gathering to finish
+const gathered = (pc: RTCPeerConnection) => new Promise<void>(resolve => {
+  if (pc.iceGatheringState === 'complete') return resolve();
+  const timer = setTimeout(resolve, GATHER_TIMEOUT);
+  pc.addEventListener('icegatheringstatechange', () => {
+    if (pc.iceGatheringState !== 'complete') return;
+    clearTimeout(timer);
+    resolve();
+  });
+});
+
+// Messages are JSON, split into numbered chunks that the ordered channel delivers in sequence
+const wire = (pc: RTCPeerConnection, channel: RTCDataChannel, events: PeerEvents) => {
+  let parts: string[] = [];
+  let closed = false;
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    events.onClose();
+  };
+
+  channel.bufferedAmountLowThreshold = HIGH_WATER / 2;
+  channel.onopen = () => events.onOpen();
+  channel.onclose = finish;
+  pc.addEventListener('connectionstatechange', () => {
+    if (pc.connectionState === 'failed' || pc.connectionState === 'closed') finish();
+  });
+  channel.onmessage = (e: MessageEvent) => {
+    const text = String(e.data);
+    const split = text.indexOf(':');
+    const remaining = Number(text.slice(0, split));
+    parts.push(text.slice(split + 1));
+    if (remaining > 0) return;
+    const json = parts.join('');
+    parts = [];
+    try {
+      events.onMessage(JSON.parse(json));
+    } catch (err) {
+      console.error('Dropped an unreadable sync message:', err);
+    }
+  };
+
+  const drained = () => new Promise<void>(resolve => {
+    if (channel.bufferedAmount <= HIGH_WATER) return resolve();
+    channel.addEventListener('bufferedamountlow', () => resolve(), { once: true });
+  });
+
+  const send = async (message: unknown) => {
+    const json = JSON.stringify(message);
+    const count = Math.max(1, Math.ceil(json.length / CHUNK_SIZE));
+    for (let i = 0; i < count; i++) {
+      await drained();
+      if (channel.readyState !== 'open') throw new Error('The other device disconnected.');
+      // Prefixed with how many chunks are still to come
+      channel.send(`${count - 1 - i}:${json.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE)}`);
+    }
+  };
+
+  const close = () => {
+    closed = true;
+    channel.close();
+    pc.close();
+  };
+
+  return { send, close };
+};
+
+/** Opens a connection and returns the offer code for the other device to join with. */
+export const hostSession = async (events: PeerEvents): Promise<PeerSession> => {
+  const pc = new RTCPeerConnection({ iceServers: [] });
+  const channel = pc.createDataChannel('bragu-sync', { ordered: true });
+  const { send, close } = wire(pc, channel, events);
+  try {
+    await pc.setLocalDescription(await pc.createOffer());
+    await gathered(pc);
+    const code = await encodeSignal(pc.localDescription as RTCSessionDescription);
+    const accept = async (answer: string) => {
+      await pc.setRemoteDescription(await decodeSignal(answer, 'answer'));
+    };
+    return { code, accept, send, close };
+  } catch (e) {
+    close();
+    throw e;
+  }
+};
+
+/** Answers a host's offer code; the returned code goes back to the host. */
+export const joinSession = async (offer: string, events: PeerEvents): Promise<PeerSession> => {
+  const description = await decodeSignal(offer, 'offer');
+  const pc = new RTCPeerConnection({ iceServers: [] });
+  let session: ReturnType<typeof wire> | null = null;
+  const pending: (() => void)[] = [];
+  pc.addEventListener('datachannel', (e: RTCDataChannelEvent) => {
+    session = wire(pc, e.channel, events);
+    pending.splice(0).forEach(f => f());
+  });
+  // The channel only exists once the host connects
+  const ready = () => new Promise<ReturnType<typeof wire>>(resolve => {
+    if (session) resolve(session);
+    else pending.push(() => resolve(session as ReturnType<typeof wire>));
+  });
+  try {
+    await pc.setRemoteDescription(description);
+    await pc.setLocalDescription(await pc.createAnswer());
+    await gathered(pc);
+    return {
+      code: await encodeSignal(pc.localDescription as RTCSessionDescription),
+      send: async (message) => (await ready()).send(message),
+      close: () => {
+        if (session) session.close();
+        else pc.close();
+      },
+    };
+  } catch (e) {
+    pc.close();
+    throw e;
+  }
+};
@@ -0,0 +1,65 @@
+import type { BrewMethod, Equipment, Grinder, SensoryScores, Shot, ShotChange, ShotEditField, ShotEditValue } from './types';
+import { SENSORY_ATTRIBUTES } from './types';
+import { methodLabel, shotMethod } from './methods';
+
+// --- Shot Edit History ---
+// Editing a logged shot records what changed, so a corrected dose or grind
+// stays traceable instead of silently rewriting the dial-in history.
+export const SHOT_EDIT_FIELDS: { id: ShotEditField; label: string; unit?: string }[] = [
+  { id: 'method', label: 'Method' },
+  { id: 'dose', label: 'Dose', unit: 'g' },
+  { id: 'yield', label: 'Yield', unit: 'g' },
+  { id: 'time', label: 'Time', unit: 's' },
+  { id: 'preInfusion', label: 'Pre-infusion', unit: 's' },
+  { id: 'firstDrip', label: 'First drip', unit: 's' },
+  { id: 'waterTemp', label: 'Water temp', unit: '°C' },
+  { id: 'bloomWater', label: 'Bloom water', unit: 'g' },
+  { id: 'bloomTime', label: 'Bloom time', unit: 's' },
+  { id: 'pours', label: 'Pours' },
+  { id: 'tds', label: 'TDS', unit: '%' },
+  { id: 'grindSetting', label: 'Grind' },
+  { id: 'grinderId', label: 'Grinder' },
+  { id: 'equipmentIds', label: 'Setup' },
+  { id: 'rating', label: 'Rating' },
+  { id: 'sensory', label: 'Sensory' },
+  { id: 'balance', label: 'Balance' },
+  { id: 'notes', label: 'Notes' },
+];
+
+const editValue = (shot: Shot, field: ShotEditField): ShotEditValue => {
+  if (field === 'grinderId') return shot.grind?.grinderId ?? null;
+  if (field === 'method') return shotMethod(shot);
+  const value = shot[field];
+  return value === undefined || value === '' ? null : value;
+};
+
+/** The tracked fields that differ between two versions of a shot. */
+export const diffShot = (before: Shot, after: Shot): ShotChange[] =>
+  SHOT_EDIT_FIELDS.flatMap(({ id }) => {
+    const from = editValue(before, id);
+    const to = editValue(after, id);
+    return JSON.stringify(from) === JSON.stringify(to) ? [] : [{ field: id, from, to }];
+  });
+
+/** A recorded value as text, naming grinders and equipment that still exist. */
+export const formatEditValue = (
+  field: ShotEditField,
+  value: ShotEditValue,
+  grinders: Grinder[],
+  equipment: Equipment[],
+): string => {
+  if (value === null) return '—';
+  if (field === 'method') return methodLabel(value as BrewMethod);
+  if (field === 'grinderId') return grinders.find(g => g.id === value)?.name ?? 'Removed grinder';
+  if (field === 'equipmentIds') return (value as string[]).map(id => equipment.find(e => e.id === id)?.name ?? 'Removed item').join(', ');
+  if (field === 'sensory') {
+    const scores = value as SensoryScores;
+    return SENSORY_ATTRIBUTES.filter(a => scores[a.id] !== undefined).map(a => `${a.label} ${scores[a.id]}`).join(', ');
+  }
+  if (field === 'balance') {
+    const b = value as number;
+    return b === 0 ? 'Balanced' : `${Math.abs(b)} ${b < 0 ? 'sour' : 'bitter'}`;
+  }
+  const unit = SHOT_EDIT_FIELDS.find(f => f.id === field)?.unit ?? '';
+  return typeof value === 'number' ? `${value}${unit}` : `"${String(value)}"`;
+};
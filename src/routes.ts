@@ -0,0 +1,105 @@
+import { EQUIPMENT_KINDS } from './types';
+import type { Bean, EquipmentKind, Shot } from './types';
+
+// --- Routes ---
+// Every screen has a URL under the app's base path, so the back gesture,
+// bookmarks and reloads land where they should. The screen lives in
+// `history.state` too, which keeps what a URL can't carry (`returnTo`).
+export type ViewState =
+  | { type: 'bean-list' }
+  | { type: 'add-bean' }
+  | { type: 'edit-bean'; beanId: string }
+  | { type: 'bean-details'; beanId: string }
+  | { type: 'add-shot'; beanId: string; fromShotId?: string }
+  | { type: 'edit-shot'; shotId: string }
+  | { type: 'equipment'; returnTo?: ViewState; tab?: EquipmentKind } // Grinders without a tab
+  | { type: 'trash' }
+  | { type: 'analytics' }
+  | { type: 'app-cache' }
+  | { type: 'sync'; offer?: string } // Offer code from peer.ts, when opened from the host's QR
+  | { type: 'shared-recipe'; payload: string }; // Payload as produced by share.ts
+
+// How many entries of this session's history sit below the current one
+export interface RouteState {
+  view: ViewState;
+  depth: number;
+}
+
+// From the <base> in index.html, which matches Vite's `base`
+export const BASE_PATH = new URL(document.baseURI).pathname;
+
+export const viewToPath = (view: ViewState): string => {
+  const path = (() => {
+    switch (view.type) {
+      case 'bean-list': return '';
+      case 'add-bean': return 'beans/new';
+      case 'edit-bean': return `beans/${encodeURIComponent(view.beanId)}/edit`;
+      case 'bean-details': return `beans/${encodeURIComponent(view.beanId)}`;
+      case 'add-shot': return `beans/${encodeURIComponent(view.beanId)}/shots/new${view.fromShotId ? `?from=${encodeURIComponent(view.fromShotId)}` : ''}`;
+      case 'edit-shot': return `shots/${encodeURIComponent(view.shotId)}/edit`;
+      case 'equipment': return `equipment${view.tab ? `/${view.tab}` : ''}`;
+      case 'trash': return 'trash';
+      case 'analytics': return 'analytics';
+      case 'app-cache': return 'cache';
+      case 'sync': return `sync${view.offer ? `#${view.offer}` : ''}`;
+      // In the hash, so the recipe never reaches a server
+      case 'shared-recipe': return `recipe#${view.payload}`;
+    }
+  })();
+  return BASE_PATH + path;
+};
+
+/** The screen a URL names, or undefined when it names none. */
+export const pathToView = (pathname: string, search = '', hash = ''): ViewState | undefined => {
+  if (!pathname.startsWith(BASE_PATH) && pathname !== BASE_PATH.replace(/\/$/, '')) return undefined;
+  let parts: string[];
+  try {
+    parts = pathname.slice(BASE_PATH.length).split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return undefined; // A malformed escape, e.g. from a truncated link
+  }
+  const [first, id, third, fourth] = parts;
+  if (parts.length === 0 || (parts.length === 1 && first === 'index.html')) return { type: 'bean-list' };
+  if (parts.length === 1 && first === 'equipment') return { type: 'equipment' };
+  if (parts.length === 2 && first === 'equipment') {
+    const tab = EQUIPMENT_KINDS.find(k => k.id === id)?.id;
+    return tab ? { type: 'equipment', tab } : undefined;
+  }
+  if (parts.length === 1 && first === 'trash') return { type: 'trash' };
+  if (parts.length === 1 && first === 'analytics') return { type: 'analytics' };
+  if (parts.length === 1 && first === 'cache') return { type: 'app-cache' };
+  if (parts.length === 1 && first === 'sync') return hash.length > 1 ? { type: 'sync', offer: hash.slice(1) } : { type: 'sync' };
+  if (parts.length === 1 && first === 'recipe' && hash.length > 1) return { type: 'shared-recipe', payload: hash.slice(1) };
+  if (first === 'beans') {
+    if (parts.length === 2) return id === 'new' ? { type: 'add-bean' } : { type: 'bean-details', beanId: id };
+    if (parts.length === 3 && third === 'edit') return { type: 'edit-bean', beanId: id };
+    if (parts.length === 4 && third === 'shots' && fourth === 'new') {
+      const fromShotId = new URLSearchParams(search).get('from');
+      return { type: 'add-shot', beanId: id, ...(fromShotId ? { fromShotId } : {}) };
+    }
+  }
+  if (first === 'shots' && parts.length === 3 && third === 'edit') return { type: 'edit-shot', shotId: id };
+  return undefined;
+};
+
+/** The screen for the current history entry: its saved state, else whatever its URL names. */
+export const currentRoute = (): RouteState => {
+  const state = window.history.state as RouteState | null;
+  if (state?.view) return state;
+  return { view: pathToView(window.location.pathname, window.location.search, window.location.hash) ?? { type: 'bean-list' }, depth: 0 };
+};
+
+/** Whether the bag or shot a screen shows is still in the (live) archive. */
+export const viewExists = (view: ViewState, records: { beans: Bean[]; shots: Shot[] }): boolean => {
+  switch (view.type) {
+    case 'edit-bean':
+    case 'bean-details':
+      return records.beans.some(b => b.id === view.beanId);
+    case 'add-shot':
+      return records.beans.some(b => b.id === view.beanId) && (!view.fromShotId || records.shots.some(s => s.id === view.fromShotId));
+    case 'edit-shot':
+      return records.shots.some(s => s.id === view.shotId);
+    default:
+      return true;
+  }
+};
@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WeightSample } from './types';
+import { compactCurve, connectScale, currentRecording, disconnectScale, peakFlow, stalledAt, startRecording, stopRecording, subscribeScale } from './scale';
+
+describe('compactCurve', () => {
+  it('keeps a sample every 0.2 s, rounded to 0.1 s and 0.1 g', () => {
+    const samples: WeightSample[] = [[0, 0], [0.1, 0.04], [0.21, 0.26], [0.3, 0.5], [0.43, 0.77]];
+    expect(compactCurve(samples)).toEqual([[0, 0], [0.2, 0.3], [0.4, 0.8]]);
+  });
+});
+
+describe('peakFlow', () => {
+  it('takes the fastest second of the pour', () => {
+    expect(peakFlow([[0, 0], [0.5, 0.5], [1, 1], [1.5, 2.5], [2, 4], [2.5, 4.5], [3, 5]])).toBe(3);
+  });
+
+  it('needs half a second of curve', () => {
+    expect(peakFlow([[0, 0], [0.4, 2]])).toBeUndefined();
+    expect(peakFlow([])).toBeUndefined();
+  });
+});
+
+describe('stalledAt', () => {
+  it('waits for some espresso in the cup before calling a stall', () => {
+    expect(stalledAt([[0, 0], [5, 0.1]])).toBeUndefined();
+    expect(stalledAt([[0, 30], [3, 30]])).toBeUndefined();
+  });
+});
+
+describe('auto-stop with the simulated scale', () => {
+  beforeEach(() => {
+    // The driver ticks on window.setInterval and stamps readings with performance.now()
+    vi.stubGlobal('window', globalThis);
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+  });
+
+  afterEach(() => {
+    disconnectScale();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('ends the shot when the pour stops gaining', async () => {
+    await connectScale('simulated');
+    let stopped: number | undefined;
+    const unsubscribe = subscribeScale({
+      onWeight: () => {
+        const recording = currentRecording();
+        const end = recording ? stalledAt(recording.samples) : undefined;
+        if (end !== undefined) {
+          stopped = end;
+          stopRecording();
+        }
+      },
+      onDisconnect: () => {},
+    });
+    await startRecording();
+
+    vi.advanceTimersByTime(25_000);
+    expect(stopped).toBeUndefined();
+    expect(currentRecording()?.samples.length).toBeGreaterThan(200);
+
+    // The simulation settles at 30 s, so the last few seconds before it hardly gain
+    vi.advanceTimersByTime(15_000);
+    expect(stopped).toBeGreaterThan(28);
+    expect(stopped).toBeLessThan(31);
+    expect(currentRecording()).toBeNull();
+    unsubscribe();
+  });
+
+  it('drops the recording when the scale disconnects', async () => {
+    await connectScale('simulated');
+    await startRecording();
+    vi.advanceTimersByTime(1_000);
+    disconnectScale();
+    expect(currentRecording()).toBeNull();
+  });
+});
@@ -0,0 +1,270 @@
+import type { WeightSample } from './types';
+
+// --- Scales ---
+// A connected scale streams its weight to whoever is listening. The
+// connection lives here rather than in a component, so it survives the shot
+// form remounting and stays up between shots until the user disconnects. The
+// shot being recorded lives here for the same reason.
+export type ScaleModel = 'felicita' | 'decent' | 'simulated';
+
+export interface ScaleInfo {
+  model: ScaleModel;
+  name: string;
+}
+
+export interface ScaleListener {
+  onWeight: (grams: number, at: number) => void; // `at` is performance.now() of the reading
+  onDisconnect: () => void;
+}
+
+interface ScaleEvents {
+  onWeight: (grams: number) => void;
+  onDisconnect: () => void;
+}
+
+interface ScaleConnection {
+  name: string;
+  tare: () => Promise<void>;
+  disconnect: () => void;
+}
+
+// Web Bluetooth isn't in TypeScript's DOM types yet; just what the drivers use
+interface GattCharacteristic extends EventTarget {
+  value?: DataView;
+  startNotifications: () => Promise<GattCharacteristic>;
+  writeValue: (data: Uint8Array) => Promise<void>;
+}
+
+interface GattServer {
+  connect: () => Promise<GattServer>;
+  disconnect: () => void;
+  getPrimaryService: (uuid: number) => Promise<{ getCharacteristic: (uuid: number) => Promise<GattCharacteristic> }>;
+}
+
+interface BluetoothDevice extends EventTarget {
+  name?: string;
+  gatt?: GattServer;
+}
+
+interface Bluetooth {
+  requestDevice: (options: { filters: { namePrefix: string }[]; optionalServices: number[] }) => Promise<BluetoothDevice>;
+}
+
+interface BluetoothScaleSpec {
+  label: string;
+  namePrefixes: string[]; // What the scale advertises, for the browser's device picker
+  service: number;
+  weight: number; // Characteristic that notifies readings
+  command: number; // Characteristic that takes tare and other commands
+  parse: (data: DataView) => number | undefined;
+  tareCommand: Uint8Array;
+}
+
+const bluetooth = () => (navigator as unknown as { bluetooth?: Bluetooth }).bluetooth;
+
+export const isBluetoothSupported = () => !!bluetooth();
+
+// Decent Scale: 7-byte frames ending in an XOR of the first six
+const decentFrame = (bytes: number[]) => Uint8Array.from([...bytes, bytes.reduce((a, b) => a ^ b, 0)]);
+
+const BLUETOOTH_SCALES: Record<Exclude<ScaleModel, 'simulated'>, BluetoothScaleSpec> = {
+  felicita: {
+    label: 'Felicita',
+    namePrefixes: ['FELICITA'],
+    service: 0xffe0,
+    weight: 0xffe1,
+    command: 0xffe1,
+    // ASCII: sign at byte 2, then six digits of hundredths of a gram
+    parse: (data) => {
+      if (data.byteLength < 9) return undefined;
+      const digits = Array.from({ length: 6 }, (_, i) => String.fromCharCode(data.getUint8(3 + i))).join('');
+      if (!/^\d{6}$/.test(digits)) return undefined;
+      return (data.getUint8(2) === 0x2d ? -1 : 1) * Number(digits) / 100;
+    },
+    tareCommand: Uint8Array.from([0x54]),
+  },
+  decent: {
+    label: 'Decent Scale',
+    namePrefixes: ['Decent Scale'],
+    service: 0xfff0,
+    weight: 0xfff4,
+    command: 0x36f5,
+    // Weight frames are 03 CE (stable) or 03 CA (changing), then tenths of a gram as signed 16-bit
+    parse: (data) => {
+      if (data.byteLength < 4 || data.getUint8(0) !== 0x03 || ![0xce, 0xca].includes(data.getUint8(1))) return undefined;
+      return data.getInt16(2) / 10;
+    },
+    tareCommand: decentFrame([0x03, 0x0f, 0x00, 0x00, 0x00, 0x00]),
+  },
+};
+
+export const SCALE_MODELS: { id: ScaleModel; label: string }[] = [
+  ...Object.entries(BLUETOOTH_SCALES).map(([id, spec]) => ({ id: id as ScaleModel, label: spec.label })),
+  { id: 'simulated', label: 'Simulated' },
+];
+
+const connectBluetooth = async (spec: BluetoothScaleSpec, events: ScaleEvents): Promise<ScaleConnection> => {
+  const api = bluetooth();
+  if (!api) throw new Error('This browser has no Bluetooth access. Try Chrome on Android or desktop.');
+  const device = await api.requestDevice({ filters: spec.namePrefixes.map(namePrefix => ({ namePrefix })), optionalServices: [spec.service] });
+  if (!device.gatt) throw new Error('The scale does not accept connections.');
+  const server = await device.gatt.connect();
+  const service = await server.getPrimaryService(spec.service);
+  const weight = await service.getCharacteristic(spec.weight);
+  const command = spec.command === spec.weight ? weight : await service.getCharacteristic(spec.command);
+  weight.addEventListener('characteristicvaluechanged', () => {
+    const grams = weight.value ? spec.parse(weight.value) : undefined;
+    if (grams !== undefined) events.onWeight(grams);
+  });
+  device.addEventListener('gattserverdisconnected', () => events.onDisconnect());
+  await weight.startNotifications();
+  return {
+    name: device.name ?? spec.label,
+    tare: () => command.writeValue(spec.tareCommand),
+    disconnect: () => server.disconnect(),
+  };
+};
+
+// A pour that starts dripping 6 s after tare and eases into a 1:2 ratio by 30 s
+const SIMULATED_FIRST_DRIP = 6;
+const SIMULATED_END = 30;
+
+/**
+ * Stand-in for a real scale, for working on the app without hardware. Until
+ * it is first tared it holds a dosed basket; each tare then starts a shot.
+ */
+const connectSimulated = async (events: ScaleEvents): Promise<ScaleConnection> => {
+  const dose = 18 + Math.round(Math.random() * 8) / 10;
+  let taredAt: number | null = null;
+  const timer = window.setInterval(() => {
+    let grams = dose;
+    if (taredAt !== null) {
+      const t = (performance.now() - taredAt) / 1000;
+      const progress = Math.min(1, Math.max(0, (t - SIMULATED_FIRST_DRIP) / (SIMULATED_END - SIMULATED_FIRST_DRIP)));
+      grams = dose * 2 * progress * progress * (3 - 2 * progress);
+    }
+    events.onWeight(Math.round((grams + (Math.random() - 0.5) * 0.1) * 10) / 10);
+  }, 100);
+  return {
+    name: 'Simulated Scale',
+    tare: async () => { taredAt = performance.now(); },
+    disconnect: () => window.clearInterval(timer),
+  };
+};
+
+export interface ScaleRecording {
+  startedAt: number; // performance.now() at tare
+  samples: WeightSample[]; // Seconds since tare, grams
+}
+
+let active: (ScaleConnection & { model: ScaleModel }) | null = null;
+let recording: ScaleRecording | null = null;
+const listeners = new Set<ScaleListener>();
+
+export const currentScale = (): ScaleInfo | null => active && { model: active.model, name: active.name };
+
+/** Opens the browser's device picker (or starts the simulation) and connects. */
+export const connectScale = async (model: ScaleModel): Promise<ScaleInfo> => {
+  disconnectScale();
+  // A connection only speaks while it is the active one, so a late event from
+  // a scale that was just replaced doesn't reach the listeners
+  let live = false;
+  const events: ScaleEvents = {
+    onWeight: (grams) => {
+      const at = performance.now();
+      if (!live) return;
+      recording?.samples.push([(at - recording.startedAt) / 1000, grams]);
+      listeners.forEach(l => l.onWeight(grams, at));
+    },
+    onDisconnect: () => {
+      if (!live) return;
+      live = false;
+      active = null;
+      // Listeners can still see the recording the disconnect cut short
+      listeners.forEach(l => l.onDisconnect());
+      recording = null;
+    },
+  };
+  const connection = model === 'simulated' ? await connectSimulated(events) : await connectBluetooth(BLUETOOTH_SCALES[model], events);
+  live = true;
+  active = {
+    ...connection,
+    model,
+    disconnect: () => {
+      events.onDisconnect();
+      connection.disconnect();
+    },
+  };
+  return { model, name: connection.name };
+};
+
+export const disconnectScale = () => active?.disconnect();
+
+export const tareScale = async () => {
+  if (!active) throw new Error('No scale connected.');
+  await active.tare();
+};
+
+export const currentRecording = () => recording;
+
+/** Tares the scale and records its weight from then until `stopRecording`. */
+export const startRecording = async () => {
+  await tareScale();
+  recording = { startedAt: performance.now(), samples: [] };
+};
+
+/** Ends the recording, if one is running, and returns it. */
+export const stopRecording = (): ScaleRecording | null => {
+  const finished = recording;
+  recording = null;
+  return finished;
+};
+
+// The shot ends itself once the cup has some espresso in it and stops gaining
+const MIN_YIELD = 5;
+const STALL_SECONDS = 4;
+const STALL_GAIN = 0.3;
+
+/**
+ * Seconds since tare at which the flow stopped, once the latest sample shows
+ * it has: about when the stalled window began. Undefined while it still runs.
+ */
+export const stalledAt = (samples: WeightSample[]): number | undefined => {
+  const last = samples[samples.length - 1];
+  if (!last) return undefined;
+  const [t, g] = last;
+  const windowStart = samples.find(([st]) => st >= t - STALL_SECONDS);
+  return g >= MIN_YIELD && t >= STALL_SECONDS && windowStart && g - windowStart[1] < STALL_GAIN ? windowStart[0] : undefined;
+};
+
+/** Listens to the connected scale (and any connected later); returns an unsubscribe. */
+export const subscribeScale = (listener: ScaleListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// --- Weight Curves ---
+const CURVE_STEP = 0.2; // Seconds between stored samples; plenty for a 20–40 s shot
+
+/** Thins a recording to what's worth keeping on a shot, rounded to 0.1 s and 0.1 g. */
+export const compactCurve = (samples: WeightSample[]): WeightSample[] => {
+  const curve: WeightSample[] = [];
+  for (const [t, g] of samples) {
+    const last = curve[curve.length - 1];
+    if (last && t - last[0] < CURVE_STEP) continue;
+    curve.push([Math.round(t * 10) / 10, Math.round(g * 10) / 10]);
+  }
+  return curve;
+};
+
+/** Highest flow in g/s, over a one-second window so scale jitter doesn't read as flow. */
+export const peakFlow = (curve: WeightSample[]): number | undefined => {
+  let peak: number | undefined;
+  let from = 0;
+  for (let i = 0; i < curve.length; i++) {
+    while (curve[i][0] - curve[from][0] > 1) from++;
+    const span = curve[i][0] - curve[from][0];
+    if (span >= 0.5) peak = Math.max(peak ?? 0, (curve[i][1] - curve[from][1]) / span);
+  }
+  return peak;
+};
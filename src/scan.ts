@@ -0,0 +1,71 @@
+// Served from this app, so reading works offline (the service worker precaches them)
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+// The plain LSTM build runs wherever WebAssembly does; the SIMD builds don't
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+// Tesseract asks for the model by folder and language, so the build keeps its file name (see vite.config.ts)
+import engModelUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+
+// --- QR Scanning ---
+// Decoding is left to the browser's Shape Detection API, which runs on the
+// device. It isn't in TypeScript's DOM types yet, hence the local shapes.
+interface BarcodeDetectorLike {
+  detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+export const barcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const isQrScanSupported = () => !!barcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+// --- Label Text ---
+// Text on a bag photo is read by Tesseract, compiled to WebAssembly and
+// bundled with its English model, so it runs on the device and offline; no
+// image leaves the browser. The engine is only fetched when a photo is read.
+export interface LabelLine {
+  text: string;
+  height: number; // Of the line's box, in pixels; big print is usually the roaster or the coffee
+  top: number;
+}
+
+// Phone photos are far bigger than a label needs, and reading time grows with the pixels
+const MAX_SIDE = 2000;
+
+export const isLabelScanSupported = () => typeof WebAssembly === 'object' && typeof Worker === 'function';
+
+const scaledDown = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image);
+  try {
+    const scale = MAX_SIDE / Math.max(bitmap.width, bitmap.height);
+    if (scale >= 1 || typeof OffscreenCanvas !== 'function') return image;
+    const canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    return await canvas.convertToBlob();
+  } finally {
+    bitmap.close();
+  }
+};
+
+/** Lines of text in the image, top to bottom; empty when the browser can't read text. */
+export const readLabel = async (image: Blob): Promise<LabelLine[]> => {
+  if (!isLabelScanSupported()) return [];
+  const absolute = (url: string) => new URL(url, window.location.href).href;
+  const { createWorker, OEM } = await import('tesseract.js');
+  const worker = await createWorker('eng', OEM.LSTM_ONLY, {
+    workerPath: absolute(workerUrl),
+    corePath: absolute(coreUrl),
+    langPath: absolute(engModelUrl).replace(/\/[^/]*$/, ''),
+    workerBlobURL: false,
+  });
+  try {
+    const { data } = await worker.recognize(await scaledDown(image), {}, { blocks: true });
+    return (data.blocks ?? [])
+      .flatMap(b => b.paragraphs.flatMap(p => p.lines))
+      .map(l => ({ text: l.text.replace(/\s+/g, ' ').trim(), height: l.bbox.y1 - l.bbox.y0, top: l.bbox.y0 }))
+      .filter(l => l.text)
+      .sort((a, b) => a.top - b.top);
+  } finally {
+    await worker.terminate();
+  }
+};
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION, SchemaError, migrate, parseArchive } from './schema';
+
+const bean = (fields: Record<string, unknown> = {}) => ({
+  id: 'b1', roaster: 'Roaster', name: 'Bean', originType: 'Single Origin', roastType: 'Medium', tastingNotes: '', createdAt: 1, ...fields,
+});
+
+const shot = (fields: Record<string, unknown> = {}) => ({
+  id: 's1', beanId: 'b1', timestamp: 2, dose: 18, yield: 36, time: 28, grindSetting: '1.4', rating: 8, notes: '', isOptimal: false, ...fields,
+});
+
+describe('migrate', () => {
+  it('walks an unversioned v1 blob forward to the current version', () => {
+    const data = migrate({ beans: [bean()], shots: [shot()] });
+    expect(data.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(data.grinders).toEqual([]);
+    expect(data.equipment).toEqual([]);
+    expect(data.tombstones).toEqual([]);
+  });
+
+  it('lifts inline photos into the image map (v2)', () => {
+    const data = migrate({ schemaVersion: 2, beans: [bean({ image: 'data:image/jpeg;base64,AAAA' })], shots: [] });
+    const [migrated] = data.beans as Record<string, unknown>[];
+    expect(migrated.image).toBeUndefined();
+    expect(migrated.imageId).toBe('img-b1');
+    expect(data.images).toEqual({ 'img-b1': 'data:image/jpeg;base64,AAAA' });
+  });
+
+  it('parses numeric grinds into structured values and keeps text ones as they were (v3)', () => {
+    const data = migrate({ schemaVersion: 3, beans: [bean()], shots: [shot({ grindSetting: '2.5' }), shot({ id: 's2', grindSetting: 'fine-ish' })] });
+    const [numeric, text] = data.shots as Record<string, unknown>[];
+    expect(numeric.grind).toEqual({ value: 2.5 });
+    expect(text.grind).toBeUndefined();
+  });
+
+  it('tags wheel flavours named in tasting notes (v6)', () => {
+    const data = migrate({ schemaVersion: 6, beans: [bean({ tastingNotes: 'Milk chocolate and lemon' })], shots: [] });
+    expect((data.beans as Record<string, unknown>[])[0].flavourTags).toEqual(expect.arrayContaining(['Milk Chocolate']));
+  });
+
+  it('refuses archives from a newer build', () => {
+    expect(() => migrate({ schemaVersion: SCHEMA_VERSION + 1 })).toThrow(SchemaError);
+  });
+});
+
+describe('parseArchive', () => {
+  it('keeps valid records and quarantines the rest with a reason', () => {
+    const archive = parseArchive({
+      schemaVersion: SCHEMA_VERSION,
+      beans: [bean(), bean({ id: 'b2', roastType: 'Blonde' }), bean()],
+      shots: [shot(), shot({ id: 's2', beanId: 'missing' }), shot({ id: 's3', rating: 12 })],
+    });
+    expect(archive.beans.map(b => b.id)).toEqual(['b1']);
+    expect(archive.shots.map(s => s.id)).toEqual(['s1']);
+    expect(archive.quarantine.map(q => [q.kind, q.reason])).toEqual([
+      ['bean', 'Unknown roast type "Blonde"'],
+      ['bean', 'Duplicate id'],
+      ['shot', 'References an unknown bean'],
+      ['shot', 'Rating out of range'],
+    ]);
+  });
+
+  it('accepts shots of bags it was told about elsewhere', () => {
+    const archive = parseArchive({ schemaVersion: SCHEMA_VERSION, beans: [], shots: [shot()] }, { knownBeanIds: ['b1'] });
+    expect(archive.shots).toHaveLength(1);
+  });
+
+  it('keeps earlier quarantine entries', () => {
+    const archive = parseArchive({ schemaVersion: SCHEMA_VERSION, beans: [], shots: [], quarantine: [{ kind: 'bean', reason: 'Old', record: {}, quarantinedAt: 5 }] });
+    expect(archive.quarantine).toEqual([{ kind: 'bean', reason: 'Old', record: {}, quarantinedAt: 5 }]);
+  });
+
+  it('rejects anything that is not an archive object', () => {
+    expect(() => parseArchive([])).toThrow(SchemaError);
+  });
+});
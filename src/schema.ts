@@ -0,0 +1,480 @@
+import { BAG_STATUSES, BREW_METHODS, EQUIPMENT_KINDS, GRIND_SCALES, ORIGIN_TYPES, PROCESSES, ROAST_TYPES, SENSORY_ATTRIBUTES } from './types';
+import type { BagStatus, Bean, BrewMethod, DialInSession, Equipment, EquipmentKind, Grinder, GrindScale, Shot, OriginType, Process, RecipeTarget, RoastType, SavedRecipe, SensoryScores, ShotEdit, WeightSample } from './types';
+import { parseGrindNumber } from './grind';
+import { FLAVOUR_NOTES, flavoursIn } from './flavours';
+import { SHOT_EDIT_FIELDS } from './revisions';
+
+// --- Archive Schema ---
+// Bump SCHEMA_VERSION whenever the persisted shape changes and register a
+// migration from the previous version below. Migrations run in order, so an
+// archive written by any older build is walked forward one step at a time.
+export const SCHEMA_VERSION = 16;
+
+export type RecordKind = 'bean' | 'shot' | 'grinder' | 'equipment';
+
+const RECORD_KINDS: RecordKind[] = ['bean', 'shot', 'grinder', 'equipment'];
+
+export interface QuarantinedRecord {
+  kind: RecordKind;
+  reason: string;
+  record: unknown;
+  quarantinedAt: number;
+}
+
+// Left behind when a record is deleted for good (purged from the Trash, or a
+// grinder or piece of equipment removed), so a sync can tell "deleted here"
+// from "never seen here" and delete it on the other device too.
+export interface Tombstone {
+  kind: RecordKind;
+  id: string;
+  deletedAt: number;
+}
+
+export interface Archive {
+  schemaVersion: number;
+  beans: Bean[];
+  shots: Shot[];
+  grinders: Grinder[];
+  equipment: Equipment[];
+  quarantine: QuarantinedRecord[];
+  tombstones: Tombstone[];
+  // Portable form only (backups, legacy localStorage): image id -> data URL.
+  // In IndexedDB the images live as Blobs in their own store.
+  images?: Record<string, string>;
+}
+
+type RawArchive = Record<string, unknown>;
+type Migration = (data: RawArchive) => RawArchive;
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const asArray = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+
+// Keyed by the version being migrated *from*.
+const MIGRATIONS: Record<number, Migration> = {
+  // v1: the original `{ beans, shots }` blob with no version marker.
+  1: (data) => ({ beans: data.beans, shots: data.shots, quarantine: [] }),
+  // v2: bean photos were inlined as base64 `image`; lift them out into the
+  // `images` map so they can be stored as Blobs and referenced by `imageId`.
+  2: (data) => {
+    const images: Record<string, string> = {};
+    const beans = asArray(data.beans).map(raw => {
+      if (!isRecord(raw) || typeof raw.image !== 'string') return raw;
+      const { image, ...rest } = raw;
+      if (!image) return rest;
+      const imageId = `img-${String(rest.id)}`;
+      images[imageId] = image;
+      return { ...rest, imageId };
+    });
+    return { ...data, beans, images };
+  },
+  // v3: grind was free text only; add a structured value wherever it reads as
+  // a number. There were no grinder profiles yet, so none is referenced.
+  3: (data) => ({
+    ...data,
+    grinders: [],
+    shots: asArray(data.shots).map(raw => {
+      if (!isRecord(raw) || raw.grind !== undefined) return raw;
+      const value = parseGrindNumber(String(raw.grindSetting ?? ''));
+      return value === undefined ? raw : { ...raw, grind: { value } };
+    }),
+  }),
+  // v4: equipment inventory. Older shots recorded their setup in the notes, if at all.
+  4: (data) => ({ ...data, equipment: [] }),
+  // v5: bags gained roast/open dates, weight and status. All optional and
+  // unknown for existing bags, so there is nothing to backfill.
+  5: (data) => data,
+  // v6: origin details and flavour-wheel tags. Free-text tasting notes stay
+  // as written; any wheel notes they name are lifted into tags.
+  6: (data) => ({
+    ...data,
+    beans: asArray(data.beans).map(raw => {
+      if (!isRecord(raw) || raw.flavourTags !== undefined || typeof raw.tastingNotes !== 'string') return raw;
+      const flavourTags = flavoursIn(raw.tastingNotes);
+      return flavourTags.length > 0 ? { ...raw, flavourTags } : raw;
+    }),
+  }),
+  // v7: optional sensory scores and sour/bitter balance on shots; older shots
+  // only have the overall rating.
+  7: (data) => data,
+  // v8: optional edit history on shots; shots logged before it have none.
+  8: (data) => data,
+  // v9: beans and shots can be soft-deleted into the Trash via `deletedAt`;
+  // everything older is live.
+  9: (data) => data,
+  // v10: shots can be reference recipes taken from a share link rather than
+  // pulled here; none were before.
+  10: (data) => data,
+  // v11: tombstones for permanently deleted records; nothing deleted before
+  // left one, so older deletes stay local to the device that made them.
+  11: (data) => ({ ...data, tombstones: [] }),
+  // v12: shots weighed on a connected scale carry their weight curve; shots
+  // logged by hand have none.
+  12: (data) => data,
+  // v13: shots record their brew method and its parameters; every older shot
+  // is espresso, which is what an unset method means.
+  13: (data) => data,
+  // v14: bags can carry a dial-in target, sessions and a saved recipe, and
+  // shots the session they were logged in; none existed before.
+  14: (data) => data,
+  // v15: bags and shots remember the edit they were last merged from, so a
+  // later merge can tell a one-sided update from edits on both devices.
+  // Nothing was merged with one before.
+  15: (data) => data,
+};
+
+export const emptyArchive = (): Archive => ({
+  schemaVersion: SCHEMA_VERSION,
+  beans: [],
+  shots: [],
+  grinders: [],
+  equipment: [],
+  quarantine: [],
+  tombstones: [],
+});
+
+// --- Validation ---
+export type Validation<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.length > 0;
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+const isCalendarDate = (v: unknown): v is string => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v);
+
+const isRange = (v: unknown): boolean =>
+  isRecord(v) && isFiniteNumber(v.min) && isFiniteNumber(v.max) && v.min >= 0 && v.min <= v.max;
+
+const isSensoryScores = (v: unknown): boolean =>
+  isRecord(v) && Object.entries(v).every(([key, value]) => SENSORY_ATTRIBUTES.some(a => a.id === key) && isFiniteNumber(value) && value >= 0 && value <= 10);
+
+const isRecipeTarget = (v: unknown): boolean =>
+  isRecord(v) && (v.method === undefined || BREW_METHODS.some(m => m.id === v.method)) &&
+  isFiniteNumber(v.dose) && v.dose > 0 && isRange(v.ratio) && isRange(v.time) &&
+  (v.taste === undefined || isSensoryScores(v.taste));
+
+const isDialInSession = (v: unknown): boolean =>
+  isRecord(v) && isNonEmptyString(v.id) && isRecipeTarget(v.target) && isFiniteNumber(v.startedAt) &&
+  (v.endedAt === undefined || isFiniteNumber(v.endedAt)) && (v.winnerId === undefined || isNonEmptyString(v.winnerId));
+
+const isSavedRecipe = (v: unknown): boolean =>
+  isRecord(v) && isNonEmptyString(v.shotId) && (v.method === undefined || BREW_METHODS.some(m => m.id === v.method)) &&
+  ['dose', 'yield', 'time', 'savedAt'].every(key => isFiniteNumber(v[key]) && (v[key] as number) >= 0) &&
+  typeof v.grindSetting === 'string' && (v.grind === undefined || (isRecord(v.grind) && isFiniteNumber(v.grind.value)));
+
+export const validateBean = (raw: unknown): Validation<Bean> => {
+  if (!isRecord(raw)) return { ok: false, reason: 'Not an object' };
+  if (!isNonEmptyString(raw.id)) return { ok: false, reason: 'Missing id' };
+  if (typeof raw.roaster !== 'string') return { ok: false, reason: 'Invalid roaster' };
+  if (typeof raw.name !== 'string') return { ok: false, reason: 'Invalid name' };
+  if (!ORIGIN_TYPES.includes(raw.originType as OriginType)) return { ok: false, reason: `Unknown origin type "${String(raw.originType)}"` };
+  if (!ROAST_TYPES.includes(raw.roastType as RoastType)) return { ok: false, reason: `Unknown roast type "${String(raw.roastType)}"` };
+  if (raw.tastingNotes !== undefined && typeof raw.tastingNotes !== 'string') return { ok: false, reason: 'Invalid tasting notes' };
+  if (raw.flavourTags !== undefined && !(Array.isArray(raw.flavourTags) && raw.flavourTags.every(t => FLAVOUR_NOTES.includes(t as string)))) {
+    return { ok: false, reason: 'Unknown flavour tag' };
+  }
+  for (const key of ['country', 'region', 'farm', 'varietal'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') return { ok: false, reason: `Invalid ${key}` };
+  }
+  if (raw.process !== undefined && !PROCESSES.includes(raw.process as Process)) return { ok: false, reason: `Unknown process "${String(raw.process)}"` };
+  if (raw.altitude !== undefined && (!isFiniteNumber(raw.altitude) || raw.altitude < 0 || raw.altitude > 9000)) return { ok: false, reason: 'Altitude out of range' };
+  if (raw.imageId !== undefined && typeof raw.imageId !== 'string') return { ok: false, reason: 'Invalid image reference' };
+  for (const key of ['roastDate', 'openDate'] as const) {
+    if (raw[key] !== undefined && !isCalendarDate(raw[key])) return { ok: false, reason: `Invalid ${key}` };
+  }
+  if (raw.bagWeight !== undefined && (!isFiniteNumber(raw.bagWeight) || raw.bagWeight <= 0)) return { ok: false, reason: 'Invalid bag weight' };
+  if (raw.status !== undefined && !BAG_STATUSES.some(st => st.id === raw.status)) return { ok: false, reason: `Unknown bag status "${String(raw.status)}"` };
+  if (raw.target !== undefined && !isRecipeTarget(raw.target)) return { ok: false, reason: 'Invalid dial-in target' };
+  if (raw.sessions !== undefined && !(Array.isArray(raw.sessions) && raw.sessions.every(isDialInSession))) return { ok: false, reason: 'Invalid dial-in sessions' };
+  if (raw.recipe !== undefined && !isSavedRecipe(raw.recipe)) return { ok: false, reason: 'Invalid saved recipe' };
+  if (raw.createdAt !== undefined && !isFiniteNumber(raw.createdAt)) return { ok: false, reason: 'Invalid createdAt' };
+  if (raw.updatedAt !== undefined && !isFiniteNumber(raw.updatedAt)) return { ok: false, reason: 'Invalid updatedAt' };
+  if (raw.baseEdit !== undefined && !isFiniteNumber(raw.baseEdit)) return { ok: false, reason: 'Invalid baseEdit' };
+  if (raw.deletedAt !== undefined && !isFiniteNumber(raw.deletedAt)) return { ok: false, reason: 'Invalid deletedAt' };
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id,
+      roaster: raw.roaster,
+      name: raw.name,
+      originType: raw.originType as OriginType,
+      roastType: raw.roastType as RoastType,
+      tastingNotes: (raw.tastingNotes as string | undefined) ?? '',
+      ...(Array.isArray(raw.flavourTags) && raw.flavourTags.length > 0 ? { flavourTags: [...new Set(raw.flavourTags as string[])] } : {}),
+      ...(raw.country ? { country: raw.country as string } : {}),
+      ...(raw.region ? { region: raw.region as string } : {}),
+      ...(raw.farm ? { farm: raw.farm as string } : {}),
+      ...(raw.process !== undefined ? { process: raw.process as Process } : {}),
+      ...(raw.varietal ? { varietal: raw.varietal as string } : {}),
+      ...(raw.altitude !== undefined ? { altitude: raw.altitude as number } : {}),
+      ...(raw.imageId ? { imageId: raw.imageId as string } : {}),
+      ...(raw.roastDate !== undefined ? { roastDate: raw.roastDate as string } : {}),
+      ...(raw.openDate !== undefined ? { openDate: raw.openDate as string } : {}),
+      ...(raw.bagWeight !== undefined ? { bagWeight: raw.bagWeight as number } : {}),
+      ...(raw.status !== undefined && raw.status !== 'active' ? { status: raw.status as BagStatus } : {}),
+      ...(raw.target !== undefined ? { target: raw.target as RecipeTarget } : {}),
+      ...(Array.isArray(raw.sessions) && raw.sessions.length > 0 ? { sessions: raw.sessions as DialInSession[] } : {}),
+      ...(raw.recipe !== undefined ? { recipe: raw.recipe as SavedRecipe } : {}),
+      createdAt: (raw.createdAt as number | undefined) ?? 0,
+      ...(raw.updatedAt !== undefined ? { updatedAt: raw.updatedAt as number } : {}),
+      ...(raw.baseEdit !== undefined ? { baseEdit: raw.baseEdit as number } : {}),
+      ...(raw.deletedAt !== undefined ? { deletedAt: raw.deletedAt as number } : {}),
+    },
+  };
+};
+
+const isShotEdit = (v: unknown): boolean =>
+  isRecord(v) && isFiniteNumber(v.at) && Array.isArray(v.changes) &&
+  v.changes.every(c => isRecord(c) && SHOT_EDIT_FIELDS.some(f => f.id === c.field) && 'from' in c && 'to' in c);
+
+const isWeightSample = (v: unknown): boolean =>
+  Array.isArray(v) && v.length === 2 && isFiniteNumber(v[0]) && v[0] >= 0 && isFiniteNumber(v[1]);
+
+export const validateShot = (raw: unknown): Validation<Shot> => {
+  if (!isRecord(raw)) return { ok: false, reason: 'Not an object' };
+  if (!isNonEmptyString(raw.id)) return { ok: false, reason: 'Missing id' };
+  if (!isNonEmptyString(raw.beanId)) return { ok: false, reason: 'Missing beanId' };
+  if (!isFiniteNumber(raw.timestamp)) return { ok: false, reason: 'Invalid timestamp' };
+  if (raw.method !== undefined && !BREW_METHODS.some(m => m.id === raw.method)) return { ok: false, reason: `Unknown brew method "${String(raw.method)}"` };
+  for (const key of ['dose', 'yield', 'time'] as const) {
+    if (!isFiniteNumber(raw[key]) || (raw[key] as number) < 0) return { ok: false, reason: `Invalid ${key}` };
+  }
+  for (const key of ['preInfusion', 'firstDrip', 'bloomWater', 'bloomTime', 'pours'] as const) {
+    if (raw[key] !== undefined && (!isFiniteNumber(raw[key]) || (raw[key] as number) < 0)) return { ok: false, reason: `Invalid ${key}` };
+  }
+  if (raw.waterTemp !== undefined && (!isFiniteNumber(raw.waterTemp) || raw.waterTemp < 0 || raw.waterTemp > 100)) return { ok: false, reason: 'Water temperature out of range' };
+  if (raw.tds !== undefined && (!isFiniteNumber(raw.tds) || raw.tds < 0 || raw.tds > 30)) return { ok: false, reason: 'TDS out of range' };
+  if (raw.weightCurve !== undefined && !(Array.isArray(raw.weightCurve) && raw.weightCurve.every(isWeightSample))) return { ok: false, reason: 'Invalid weight curve' };
+  if (!isFiniteNumber(raw.rating) || raw.rating < 0 || raw.rating > 10) return { ok: false, reason: 'Rating out of range' };
+  if (raw.sensory !== undefined) {
+    if (!isRecord(raw.sensory)) return { ok: false, reason: 'Invalid sensory scores' };
+    for (const [key, value] of Object.entries(raw.sensory)) {
+      if (!SENSORY_ATTRIBUTES.some(a => a.id === key)) return { ok: false, reason: `Unknown sensory attribute "${key}"` };
+      if (!isFiniteNumber(value) || value < 0 || value > 10) return { ok: false, reason: `${key} out of range` };
+    }
+  }
+  if (raw.balance !== undefined && (!isFiniteNumber(raw.balance) || raw.balance < -5 || raw.balance > 5)) return { ok: false, reason: 'Balance out of range' };
+  if (raw.grindSetting !== undefined && typeof raw.grindSetting !== 'string' && !isFiniteNumber(raw.grindSetting)) return { ok: false, reason: 'Invalid grind setting' };
+  if (raw.grind !== undefined && !(isRecord(raw.grind) && isFiniteNumber(raw.grind.value) && (raw.grind.grinderId === undefined || isNonEmptyString(raw.grind.grinderId)))) {
+    return { ok: false, reason: 'Invalid structured grind' };
+  }
+  if (raw.equipmentIds !== undefined && !(Array.isArray(raw.equipmentIds) && raw.equipmentIds.every(isNonEmptyString))) {
+    return { ok: false, reason: 'Invalid equipment references' };
+  }
+  if (raw.notes !== undefined && typeof raw.notes !== 'string') return { ok: false, reason: 'Invalid notes' };
+  if (raw.isOptimal !== undefined && typeof raw.isOptimal !== 'boolean') return { ok: false, reason: 'Invalid optimal marker' };
+  if (raw.isReference !== undefined && typeof raw.isReference !== 'boolean') return { ok: false, reason: 'Invalid reference marker' };
+  if (raw.sessionId !== undefined && !isNonEmptyString(raw.sessionId)) return { ok: false, reason: 'Invalid session reference' };
+  if (raw.edits !== undefined && !(Array.isArray(raw.edits) && raw.edits.every(isShotEdit))) return { ok: false, reason: 'Invalid edit history' };
+  if (raw.updatedAt !== undefined && !isFiniteNumber(raw.updatedAt)) return { ok: false, reason: 'Invalid updatedAt' };
+  if (raw.baseEdit !== undefined && !isFiniteNumber(raw.baseEdit)) return { ok: false, reason: 'Invalid baseEdit' };
+  if (raw.deletedAt !== undefined && !isFiniteNumber(raw.deletedAt)) return { ok: false, reason: 'Invalid deletedAt' };
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id,
+      beanId: raw.beanId,
+      timestamp: raw.timestamp,
+      ...(raw.method !== undefined && raw.method !== 'espresso' ? { method: raw.method as BrewMethod } : {}),
+      dose: raw.dose as number,
+      yield: raw.yield as number,
+      time: raw.time as number,
+      ...(raw.preInfusion !== undefined ? { preInfusion: raw.preInfusion as number } : {}),
+      ...(raw.firstDrip !== undefined ? { firstDrip: raw.firstDrip as number } : {}),
+      ...(raw.waterTemp !== undefined ? { waterTemp: raw.waterTemp as number } : {}),
+      ...(raw.bloomWater !== undefined ? { bloomWater: raw.bloomWater as number } : {}),
+      ...(raw.bloomTime !== undefined ? { bloomTime: raw.bloomTime as number } : {}),
+      ...(raw.pours !== undefined ? { pours: raw.pours as number } : {}),
+      ...(raw.tds !== undefined ? { tds: raw.tds as number } : {}),
+      ...(Array.isArray(raw.weightCurve) && raw.weightCurve.length > 0 ? { weightCurve: raw.weightCurve as WeightSample[] } : {}),
+      grindSetting: raw.grindSetting === undefined ? '' : String(raw.grindSetting),
+      ...(isRecord(raw.grind) ? { grind: { ...(raw.grind.grinderId ? { grinderId: raw.grind.grinderId as string } : {}), value: raw.grind.value as number } } : {}),
+      ...(Array.isArray(raw.equipmentIds) && raw.equipmentIds.length > 0 ? { equipmentIds: [...new Set(raw.equipmentIds as string[])] } : {}),
+      rating: raw.rating,
+      ...(isRecord(raw.sensory) && Object.keys(raw.sensory).length > 0 ? { sensory: raw.sensory as SensoryScores } : {}),
+      ...(raw.balance !== undefined ? { balance: raw.balance as number } : {}),
+      notes: (raw.notes as string | undefined) ?? '',
+      ...(raw.isOptimal ? { isOptimal: true } : {}),
+      ...(raw.isReference ? { isReference: true } : {}),
+      ...(raw.sessionId !== undefined ? { sessionId: raw.sessionId as string } : {}),
+      ...(Array.isArray(raw.edits) && raw.edits.length > 0 ? { edits: raw.edits as ShotEdit[] } : {}),
+      ...(raw.updatedAt !== undefined ? { updatedAt: raw.updatedAt as number } : {}),
+      ...(raw.baseEdit !== undefined ? { baseEdit: raw.baseEdit as number } : {}),
+      ...(raw.deletedAt !== undefined ? { deletedAt: raw.deletedAt as number } : {}),
+    },
+  };
+};
+
+export const validateGrinder = (raw: unknown): Validation<Grinder> => {
+  if (!isRecord(raw)) return { ok: false, reason: 'Not an object' };
+  if (!isNonEmptyString(raw.id)) return { ok: false, reason: 'Missing id' };
+  if (!isNonEmptyString(raw.name)) return { ok: false, reason: 'Missing name' };
+  if (!GRIND_SCALES.some(g => g.id === raw.scale)) return { ok: false, reason: `Unknown grind scale "${String(raw.scale)}"` };
+  if (!isFiniteNumber(raw.step) || raw.step <= 0) return { ok: false, reason: 'Invalid step' };
+  if (raw.scale === 'rotations' && (!isFiniteNumber(raw.numbersPerRotation) || raw.numbersPerRotation <= 0)) return { ok: false, reason: 'Invalid numbers per rotation' };
+  if (raw.isDefault !== undefined && typeof raw.isDefault !== 'boolean') return { ok: false, reason: 'Invalid default marker' };
+  if (!isFiniteNumber(raw.createdAt)) return { ok: false, reason: 'Invalid createdAt' };
+  if (raw.updatedAt !== undefined && !isFiniteNumber(raw.updatedAt)) return { ok: false, reason: 'Invalid updatedAt' };
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id,
+      name: raw.name,
+      scale: raw.scale as GrindScale,
+      step: raw.step,
+      ...(raw.scale === 'rotations' ? { numbersPerRotation: raw.numbersPerRotation as number } : {}),
+      ...(raw.isDefault ? { isDefault: true } : {}),
+      createdAt: raw.createdAt,
+      ...(raw.updatedAt !== undefined ? { updatedAt: raw.updatedAt as number } : {}),
+    },
+  };
+};
+
+export const validateEquipment = (raw: unknown): Validation<Equipment> => {
+  if (!isRecord(raw)) return { ok: false, reason: 'Not an object' };
+  if (!isNonEmptyString(raw.id)) return { ok: false, reason: 'Missing id' };
+  if (!EQUIPMENT_KINDS.some(k => k.id === raw.kind)) return { ok: false, reason: `Unknown equipment kind "${String(raw.kind)}"` };
+  if (!isNonEmptyString(raw.name)) return { ok: false, reason: 'Missing name' };
+  if (raw.notes !== undefined && typeof raw.notes !== 'string') return { ok: false, reason: 'Invalid notes' };
+  if (raw.isDefault !== undefined && typeof raw.isDefault !== 'boolean') return { ok: false, reason: 'Invalid default marker' };
+  if (!isFiniteNumber(raw.createdAt)) return { ok: false, reason: 'Invalid createdAt' };
+  if (raw.updatedAt !== undefined && !isFiniteNumber(raw.updatedAt)) return { ok: false, reason: 'Invalid updatedAt' };
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id,
+      kind: raw.kind as EquipmentKind,
+      name: raw.name,
+      notes: (raw.notes as string | undefined) ?? '',
+      ...(raw.isDefault ? { isDefault: true } : {}),
+      createdAt: raw.createdAt,
+      ...(raw.updatedAt !== undefined ? { updatedAt: raw.updatedAt as number } : {}),
+    },
+  };
+};
+
+// --- Parsing ---
+const readVersion = (data: RawArchive): number => {
+  if (data.schemaVersion === undefined) return 1;
+  if (!Number.isInteger(data.schemaVersion) || (data.schemaVersion as number) < 1) {
+    throw new SchemaError(`Unrecognised schema version "${String(data.schemaVersion)}"`);
+  }
+  return data.schemaVersion as number;
+};
+
+export const migrate = (data: RawArchive): RawArchive => {
+  let version = readVersion(data);
+  if (version > SCHEMA_VERSION) {
+    throw new SchemaError(`Archive was written by a newer version (schema v${version})`);
+  }
+  let current = data;
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new SchemaError(`No migration from schema v${version}`);
+    current = step(current);
+    version += 1;
+  }
+  return { ...current, schemaVersion: SCHEMA_VERSION };
+};
+
+export interface ParseOptions {
+  // Beans that exist outside this payload (e.g. the local archive during a
+  // merge import); shots referencing them are not treated as orphans.
+  knownBeanIds?: Iterable<string>;
+}
+
+/**
+ * Turns any persisted or imported payload into a current-version Archive.
+ * Records that fail validation are moved into the quarantine rather than
+ * dropped, so nothing the user logged is lost to a bad field.
+ */
+export const parseArchive = (input: unknown, options: ParseOptions = {}): Archive => {
+  if (!isRecord(input)) throw new SchemaError('Archive is not an object');
+  const data = migrate(input);
+  const now = Date.now();
+  const quarantine: QuarantinedRecord[] = asArray(data.quarantine).filter(isRecord).map(q => ({
+    kind: RECORD_KINDS.includes(q.kind as RecordKind) ? q.kind as RecordKind : 'shot',
+    reason: String(q.reason ?? 'Unknown'),
+    record: q.record,
+    quarantinedAt: isFiniteNumber(q.quarantinedAt) ? q.quarantinedAt : now,
+  }));
+  const reject = (kind: RecordKind, record: unknown, reason: string) =>
+    quarantine.push({ kind, reason, record, quarantinedAt: now });
+
+  const beans: Bean[] = [];
+  const beanIds = new Set<string>();
+  const knownBeanIds = new Set<string>(options.knownBeanIds ?? []);
+  for (const raw of asArray(data.beans)) {
+    const result = validateBean(raw);
+    if (result.ok === false) reject('bean', raw, result.reason);
+    else if (beanIds.has(result.value.id)) reject('bean', raw, 'Duplicate id');
+    else {
+      beanIds.add(result.value.id);
+      beans.push(result.value);
+    }
+  }
+
+  const shots: Shot[] = [];
+  const shotIds = new Set<string>();
+  for (const raw of asArray(data.shots)) {
+    const result = validateShot(raw);
+    if (result.ok === false) reject('shot', raw, result.reason);
+    else if (shotIds.has(result.value.id)) reject('shot', raw, 'Duplicate id');
+    else if (!beanIds.has(result.value.beanId) && !knownBeanIds.has(result.value.beanId)) reject('shot', raw, 'References an unknown bean');
+    else {
+      shotIds.add(result.value.id);
+      shots.push(result.value);
+    }
+  }
+
+  const grinders: Grinder[] = [];
+  const grinderIds = new Set<string>();
+  for (const raw of asArray(data.grinders)) {
+    const result = validateGrinder(raw);
+    if (result.ok === false) reject('grinder', raw, result.reason);
+    else if (grinderIds.has(result.value.id)) reject('grinder', raw, 'Duplicate id');
+    else {
+      grinderIds.add(result.value.id);
+      grinders.push(result.value);
+    }
+  }
+
+  const equipment: Equipment[] = [];
+  const equipmentIds = new Set<string>();
+  for (const raw of asArray(data.equipment)) {
+    const result = validateEquipment(raw);
+    if (result.ok === false) reject('equipment', raw, result.reason);
+    else if (equipmentIds.has(result.value.id)) reject('equipment', raw, 'Duplicate id');
+    else {
+      equipmentIds.add(result.value.id);
+      equipment.push(result.value);
+    }
+  }
+
+  // Not user data: a malformed tombstone is dropped rather than quarantined
+  const tombstones: Tombstone[] = asArray(data.tombstones).filter(isRecord).flatMap(t =>
+    RECORD_KINDS.includes(t.kind as RecordKind) && typeof t.id === 'string' && isFiniteNumber(t.deletedAt)
+      ? [{ kind: t.kind as RecordKind, id: t.id, deletedAt: t.deletedAt }]
+      : []);
+
+  const images: Record<string, string> = {};
+  if (isRecord(data.images)) {
+    for (const [id, url] of Object.entries(data.images)) {
+      if (typeof url === 'string' && url.startsWith('data:image/')) images[id] = url;
+    }
+  }
+
+  return { schemaVersion: SCHEMA_VERSION, beans, shots, grinders, equipment, quarantine, tombstones, images };
+};
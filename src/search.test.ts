@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FILTER, isFilterActive, matchesBean, matchesShot } from './search';
+import type { ArchiveFilter } from './search';
+import { bean, shot } from './testing/fixtures';
+
+const filter = (fields: Partial<ArchiveFilter>): ArchiveFilter => ({ ...EMPTY_FILTER, ...fields });
+
+describe('matchesBean', () => {
+  it('needs every word, in any field, ignoring case and accents', () => {
+    const colombia = bean({ name: 'Finca El Paraíso', country: 'Colômbia', tastingNotes: 'Lychee' });
+    expect(matchesBean(colombia, [], filter({ query: 'colombia paraiso' }))).toBe(true);
+    expect(matchesBean(colombia, [], filter({ query: 'colombia kenya' }))).toBe(false);
+  });
+
+  it('matches a bag through the notes of its shots', () => {
+    expect(matchesBean(bean(), [shot({ notes: 'Channeling' })], filter({ query: 'channel' }))).toBe(true);
+  });
+
+  it('needs a matching shot once a rating or date is set', () => {
+    const shots = [shot({ rating: 6 })];
+    expect(matchesBean(bean(), shots, filter({ minRating: 7 }))).toBe(false);
+    expect(matchesBean(bean(), shots, filter({ minRating: 6 }))).toBe(true);
+  });
+
+  it('applies origin and roast filters to the bag', () => {
+    expect(matchesBean(bean(), [], filter({ roastTypes: ['Dark'] }))).toBe(false);
+    expect(matchesBean(bean(), [], filter({ originTypes: ['Single Origin'], roastTypes: ['Medium', 'Dark'] }))).toBe(true);
+  });
+});
+
+describe('matchesShot', () => {
+  it('includes both ends of the date range', () => {
+    const brewed = shot({ timestamp: new Date(2024, 4, 10, 9).getTime() });
+    expect(matchesShot(brewed, bean(), filter({ from: '2024-05-10', to: '2024-05-10' }))).toBe(true);
+    expect(matchesShot(brewed, bean(), filter({ from: '2024-05-11' }))).toBe(false);
+    expect(matchesShot(brewed, bean(), filter({ to: '2024-05-09' }))).toBe(false);
+  });
+
+  it('never matches a shot without its bag', () => {
+    expect(matchesShot(shot(), undefined, EMPTY_FILTER)).toBe(false);
+  });
+});
+
+describe('isFilterActive', () => {
+  it('ignores a query of only spaces', () => {
+    expect(isFilterActive(filter({ query: '   ' }))).toBe(false);
+    expect(isFilterActive(filter({ maxRating: 9 }))).toBe(true);
+  });
+});
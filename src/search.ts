@@ -0,0 +1,76 @@
+import type { Bean, OriginType, RoastType, Shot } from './types';
+import { parseCalendarDate } from './inventory';
+
+// --- Archive Search ---
+export interface ArchiveFilter {
+  query: string;
+  originTypes: OriginType[]; // Empty means any
+  roastTypes: RoastType[]; // Empty means any
+  minRating: number;
+  maxRating: number;
+  from: string; // YYYY-MM-DD, inclusive; empty means open-ended
+  to: string;
+}
+
+export const EMPTY_FILTER: ArchiveFilter = {
+  query: '',
+  originTypes: [],
+  roastTypes: [],
+  minRating: 0,
+  maxRating: 10,
+  from: '',
+  to: '',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Case- and accent-insensitive, so "colombia" finds "Colômbia"
+const fold = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const tokens = (query: string) => fold(query).split(/\s+/).filter(Boolean);
+
+// Every token has to appear somewhere in the given fields
+const matchesAll = (terms: string[], fields: string[]) => {
+  const haystack = fold(fields.join('\n'));
+  return terms.every(t => haystack.includes(t));
+};
+
+const beanText = (bean: Bean) => [
+  bean.roaster, bean.name, bean.tastingNotes, ...(bean.flavourTags ?? []),
+  bean.country ?? '', bean.region ?? '', bean.farm ?? '', bean.process ?? '', bean.varietal ?? '',
+];
+
+/** Filters that only a shot can satisfy (a bag has no single rating or date). */
+const hasShotFilters = (filter: ArchiveFilter) =>
+  filter.minRating > 0 || filter.maxRating < 10 || filter.from !== '' || filter.to !== '';
+
+export const isFilterActive = (filter: ArchiveFilter) =>
+  tokens(filter.query).length > 0 || filter.originTypes.length > 0 || filter.roastTypes.length > 0 || hasShotFilters(filter);
+
+const matchesBeanAttributes = (bean: Bean, filter: ArchiveFilter) =>
+  (filter.originTypes.length === 0 || filter.originTypes.includes(bean.originType)) &&
+  (filter.roastTypes.length === 0 || filter.roastTypes.includes(bean.roastType));
+
+const inDateRange = (timestamp: number, filter: ArchiveFilter) => {
+  const from = filter.from ? parseCalendarDate(filter.from) : undefined;
+  const to = filter.to ? parseCalendarDate(filter.to) : undefined;
+  return (from === undefined || timestamp >= from) && (to === undefined || timestamp < to + DAY_MS);
+};
+
+/** A shot matches when its bag passes the bag filters and the text is found in the shot or its bag. */
+export const matchesShot = (shot: Shot, bean: Bean | undefined, filter: ArchiveFilter): boolean => {
+  if (!bean || !matchesBeanAttributes(bean, filter)) return false;
+  if (shot.rating < filter.minRating || shot.rating > filter.maxRating) return false;
+  if (!inDateRange(shot.timestamp, filter)) return false;
+  return matchesAll(tokens(filter.query), [...beanText(bean), shot.notes]);
+};
+
+/**
+ * A bag matches on its own text and attributes, or through any of its shots;
+ * once a rating or date filter is set it needs at least one matching shot.
+ */
+export const matchesBean = (bean: Bean, shots: Shot[], filter: ArchiveFilter): boolean => {
+  if (!matchesBeanAttributes(bean, filter)) return false;
+  if (!hasShotFilters(filter) && matchesAll(tokens(filter.query), beanText(bean))) return true;
+  return shots.some(s => s.beanId === bean.id && matchesShot(s, bean, filter));
+};
@@ -0,0 +1,52 @@
+import { SENSORY_ATTRIBUTES } from './types';
+import type { SensoryAttribute, Shot } from './types';
+
+// --- Sensory Scoring ---
+type ScoreDimension = 'rating' | SensoryAttribute | 'balance';
+
+export interface ShotWeighting {
+  id: string;
+  label: string;
+  weights: Partial<Record<ScoreDimension, number>>;
+}
+
+// Rating only is the historical behaviour; the others lean on the sensory scores
+export const SHOT_WEIGHTINGS: ShotWeighting[] = [
+  { id: 'rating', label: 'Rating', weights: { rating: 1 } },
+  { id: 'balanced', label: 'Sweet & Balanced', weights: { rating: 1, sweetness: 1, balance: 1 } },
+  { id: 'texture', label: 'Body & Finish', weights: { rating: 1, body: 1, finish: 1 } },
+  { id: 'overall', label: 'All Scores', weights: { rating: 1, sweetness: 1, acidity: 1, bitterness: 1, body: 1, finish: 1, balance: 1 } },
+];
+
+/**
+ * A dimension as a 0–10 "higher is better" value: bitterness is scored as an
+ * intensity so less is better, and balance is best at zero.
+ */
+const dimensionScore = (shot: Shot, dimension: ScoreDimension): number | undefined => {
+  if (dimension === 'rating') return shot.rating;
+  if (dimension === 'balance') return shot.balance === undefined ? undefined : 10 - 2 * Math.abs(shot.balance);
+  const value = shot.sensory?.[dimension];
+  if (value === undefined) return undefined;
+  return dimension === 'bitterness' ? 10 - value : value;
+};
+
+/** Weighted mean over the dimensions the shot actually has, so unscored attributes don't count against it. */
+export const weightedScore = (shot: Shot, weighting: ShotWeighting): number => {
+  let total = 0;
+  let weight = 0;
+  for (const [dimension, w] of Object.entries(weighting.weights) as [ScoreDimension, number][]) {
+    const value = dimensionScore(shot, dimension);
+    if (value === undefined) continue;
+    total += value * w;
+    weight += w;
+  }
+  return weight > 0 ? total / weight : shot.rating;
+};
+
+/** The manual optimal marker wins; otherwise the highest weighted score. */
+export const pickBestShot = (shots: Shot[], weighting: ShotWeighting): Shot | undefined =>
+  shots.find(s => s.isOptimal) ??
+  [...shots].sort((a, b) => weightedScore(b, weighting) - weightedScore(a, weighting))[0];
+
+export const hasSensory = (shot: Shot) =>
+  shot.balance !== undefined || SENSORY_ATTRIBUTES.some(a => shot.sensory?.[a.id] !== undefined);
@@ -0,0 +1,102 @@
+import { BASE_PATH } from './routes';
+
+// --- Offline App Cache ---
+// The service worker (src/sw.ts) only exists in production builds. A new
+// build installs in the background and waits; the app offers to reload into
+// it rather than swapping bundles under an open session.
+const SW_URL = `${BASE_PATH}sw.js`;
+
+export const isServiceWorkerSupported = () => import.meta.env.PROD && 'serviceWorker' in navigator;
+
+/**
+ * Registers the service worker and calls `onUpdate` once a newer build is
+ * waiting; the callback's `apply` activates it and reloads. Returns a cleanup.
+ */
+export const registerServiceWorker = (onUpdate: (apply: () => void) => void): (() => void) => {
+  if (!isServiceWorkerSupported()) return () => {};
+  let cancelled = false;
+  let reloading = false;
+
+  const offer = (worker: ServiceWorker) => {
+    if (!cancelled) onUpdate(() => worker.postMessage({ type: 'SKIP_WAITING' }));
+  };
+  const onControllerChange = () => {
+    if (reloading) return;
+    reloading = true;
+    window.location.reload();
+  };
+
+  navigator.serviceWorker.register(SW_URL, { scope: BASE_PATH })
+    .then(registration => {
+      // Only an update when something already controls the page; the first install just takes over
+      if (registration.waiting && navigator.serviceWorker.controller) offer(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) offer(worker);
+        });
+      });
+      navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+    })
+    .catch(err => console.warn('Service Worker registration skipped:', err));
+
+  return () => {
+    cancelled = true;
+    navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+  };
+};
+
+export interface AppCacheInfo {
+  supported: boolean;
+  state: 'none' | 'installing' | 'waiting' | 'active';
+  version?: string; // Build the active worker serves
+  caches: { name: string; entries: number }[];
+}
+
+const activeVersion = (worker: ServiceWorker) => new Promise<string | undefined>(resolve => {
+  const channel = new MessageChannel();
+  const timer = setTimeout(() => resolve(undefined), 1000);
+  channel.port1.onmessage = (e) => {
+    clearTimeout(timer);
+    resolve(typeof e.data === 'string' ? e.data : undefined);
+  };
+  worker.postMessage({ type: 'GET_VERSION' }, [channel.port2]);
+});
+
+export const getAppCacheInfo = async (): Promise<AppCacheInfo> => {
+  const names = 'caches' in window ? await caches.keys() : [];
+  const cacheList = await Promise.all(names.map(async name => ({ name, entries: (await (await caches.open(name)).keys()).length })));
+  if (!isServiceWorkerSupported()) return { supported: false, state: 'none', caches: cacheList };
+  const registration = await navigator.serviceWorker.getRegistration(BASE_PATH);
+  const state = !registration ? 'none' : registration.waiting ? 'waiting' : registration.installing ? 'installing' : registration.active ? 'active' : 'none';
+  const version = registration?.active ? await activeVersion(registration.active) : undefined;
+  return { supported: true, state, ...(version ? { version } : {}), caches: cacheList };
+};
+
+/** Asks the server for a newer build; resolves true when one is downloading or waiting. */
+export const checkForUpdate = async (): Promise<boolean> => {
+  if (!isServiceWorkerSupported()) return false;
+  const registration = await navigator.serviceWorker.getRegistration(BASE_PATH);
+  if (!registration) return false;
+  await registration.update();
+  return !!(registration.installing || registration.waiting);
+};
+
+/**
+ * Drops the service worker and every cache, then reloads from the network.
+ * The archive lives in IndexedDB and is left alone.
+ */
+export const resetAppCache = async () => {
+  try {
+    if ('serviceWorker' in navigator) {
+      const registrations = await navigator.serviceWorker.getRegistrations();
+      await Promise.all(registrations.map(r => r.unregister()));
+    }
+    if ('caches' in window) {
+      const keys = await caches.keys();
+      await Promise.all(keys.map(k => caches.delete(k)));
+    }
+  } finally {
+    window.location.reload();
+  }
+};
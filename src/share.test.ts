@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Bean, Shot } from './types';
+import { decodeRecipe, encodeRecipe, recipeFrom } from './share';
+
+// routes.ts reads the page's <base> when it loads
+vi.mock('./routes', () => ({ viewToPath: () => '/' }));
+
+const bean: Bean = {
+  id: 'b1', roaster: 'Rösterei', name: 'Guji "Natural"', originType: 'Single Origin', roastType: 'Light-Medium', tastingNotes: '',
+  createdAt: 100, country: 'Ethiopia', process: 'Natural', flavourTags: ['Blueberry', 'Jasmine'],
+};
+
+const shot: Shot = {
+  id: 's1', beanId: 'b1', timestamp: 100, dose: 18, yield: 40, time: 30, grindSetting: '1.4', grind: { grinderId: 'g1', value: 1.4 }, rating: 9, notes: 'Juicy, 🍓',
+};
+
+const encodePacked = (packed: unknown[]) => btoa(JSON.stringify(packed)).replace(/=+$/, '');
+
+describe('recipe links', () => {
+  it('round-trips a recipe, carrying the grinder by name', () => {
+    const recipe = recipeFrom(bean, shot, [{ id: 'g1', name: 'Niche Zero', scale: 'stepless', step: 0.1, createdAt: 1 }]);
+    const decoded = decodeRecipe(encodeRecipe(recipe));
+    expect(decoded).toEqual({ ok: true, value: recipe });
+    expect(recipe.grinderName).toBe('Niche Zero');
+  });
+
+  it('stays URL-safe', () => {
+    expect(encodeRecipe(recipeFrom(bean, shot, []))).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('drops flavour tags this version does not know', () => {
+    const decoded = decodeRecipe(encodePacked([1, 'R', 'N', 'Blend', 'Dark', 18, 36, 28, '2', '', 8, '', '', '', 'Blueberry,Unobtainium']));
+    expect(decoded.ok && decoded.value.flavourTags).toEqual(['Blueberry']);
+  });
+
+  it('explains links it cannot read', () => {
+    const reason = (payload: string) => {
+      const decoded = decodeRecipe(payload);
+      return decoded.ok === false ? decoded.reason : undefined;
+    };
+    expect(reason('%%%')).toBe('The link is damaged or incomplete.');
+    expect(reason(encodePacked([2]))).toBe('Recipe format 2 is not supported by this version.');
+    expect(reason(encodePacked([1, 'R', 'N', 'Blend', 'Dark', 18, 36, 28, '2', '', 11, '', '', '', '']))).toBe('The recipe has values out of range.');
+  });
+});
@@ -0,0 +1,123 @@
+import { ORIGIN_TYPES, PROCESSES, ROAST_TYPES } from './types';
+import type { Bean, Grinder, OriginType, Process, RoastType, Shot } from './types';
+import type { Validation } from './schema';
+import { FLAVOUR_NOTES } from './flavours';
+import { viewToPath } from './routes';
+
+// --- Recipe Sharing ---
+// A bean and one shot travel as a compact array in the URL hash, so a link or
+// QR code carries the whole recipe and nothing goes through a server. Grinder
+// ids mean nothing on another phone, so the grinder travels by name.
+export interface SharedRecipe {
+  roaster: string;
+  name: string;
+  originType: OriginType;
+  roastType: RoastType;
+  country?: string;
+  process?: Process;
+  flavourTags?: string[];
+  dose: number;
+  yield: number;
+  time: number;
+  grindSetting: string;
+  grinderName?: string;
+  rating: number;
+  notes: string;
+}
+
+const FORMAT_VERSION = 1;
+
+// Positional, so keys don't take up room in the QR code
+type Packed = [
+  version: number,
+  roaster: string, name: string, originType: string, roastType: string,
+  dose: number, yieldWeight: number, time: number, grindSetting: string, grinderName: string,
+  rating: number, notes: string, country: string, process: string, flavourTags: string,
+];
+
+const toBase64Url = (text: string) => {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const recipeFrom = (bean: Bean, shot: Shot, grinders: Grinder[]): SharedRecipe => ({
+  roaster: bean.roaster,
+  name: bean.name,
+  originType: bean.originType,
+  roastType: bean.roastType,
+  ...(bean.country ? { country: bean.country } : {}),
+  ...(bean.process ? { process: bean.process } : {}),
+  ...(bean.flavourTags ? { flavourTags: bean.flavourTags } : {}),
+  dose: shot.dose,
+  yield: shot.yield,
+  time: shot.time,
+  grindSetting: shot.grindSetting,
+  ...(shot.grind?.grinderId && grinders.some(g => g.id === shot.grind?.grinderId)
+    ? { grinderName: grinders.find(g => g.id === shot.grind?.grinderId)?.name }
+    : {}),
+  rating: shot.rating,
+  notes: shot.notes,
+});
+
+export const encodeRecipe = (r: SharedRecipe): string => {
+  const packed: Packed = [
+    FORMAT_VERSION,
+    r.roaster, r.name, r.originType, r.roastType,
+    r.dose, r.yield, r.time, r.grindSetting, r.grinderName ?? '',
+    r.rating, r.notes, r.country ?? '', r.process ?? '', (r.flavourTags ?? []).join(','),
+  ];
+  return toBase64Url(JSON.stringify(packed));
+};
+
+/** Absolute link that opens the recipe preview in this app. */
+export const recipeUrl = (r: SharedRecipe): string =>
+  new URL(viewToPath({ type: 'shared-recipe', payload: encodeRecipe(r) }), window.location.origin).href;
+
+const isNumberIn = (v: unknown, min: number, max: number): v is number =>
+  typeof v === 'number' && Number.isFinite(v) && v >= min && v <= max;
+
+export const decodeRecipe = (payload: string): Validation<SharedRecipe> => {
+  let packed: unknown;
+  try {
+    packed = JSON.parse(fromBase64Url(payload));
+  } catch {
+    return { ok: false, reason: 'The link is damaged or incomplete.' };
+  }
+  if (!Array.isArray(packed)) return { ok: false, reason: 'The link does not contain a recipe.' };
+  const [version, roaster, name, originType, roastType, dose, yieldWeight, time, grindSetting, grinderName, rating, notes, country, process, flavourTags] = packed;
+  if (version !== FORMAT_VERSION) return { ok: false, reason: `Recipe format ${String(version)} is not supported by this version.` };
+  if (![roaster, name, grindSetting, grinderName, notes, country, process, flavourTags].every(v => typeof v === 'string')) {
+    return { ok: false, reason: 'The recipe is missing fields.' };
+  }
+  if (!ORIGIN_TYPES.includes(originType as OriginType) || !ROAST_TYPES.includes(roastType as RoastType)) return { ok: false, reason: 'Unknown origin or roast type.' };
+  if (process && !PROCESSES.includes(process as Process)) return { ok: false, reason: `Unknown process "${String(process)}".` };
+  if (!isNumberIn(dose, 0, 100) || !isNumberIn(yieldWeight, 0, 500) || !isNumberIn(time, 0, 600) || !isNumberIn(rating, 0, 10)) {
+    return { ok: false, reason: 'The recipe has values out of range.' };
+  }
+  const tags = (flavourTags as string).split(',').filter(t => FLAVOUR_NOTES.includes(t));
+  return {
+    ok: true,
+    value: {
+      roaster: roaster as string,
+      name: name as string,
+      originType: originType as OriginType,
+      roastType: roastType as RoastType,
+      ...(country ? { country: country as string } : {}),
+      ...(process ? { process: process as Process } : {}),
+      ...(tags.length > 0 ? { flavourTags: tags } : {}),
+      dose,
+      yield: yieldWeight,
+      time,
+      grindSetting: grindSetting as string,
+      ...(grinderName ? { grinderName: grinderName as string } : {}),
+      rating,
+      notes: notes as string,
+    },
+  };
+};
@@ -0,0 +1,269 @@
+import { SCHEMA_VERSION, emptyArchive, parseArchive } from './schema';
+import type { Archive } from './schema';
+import { generateUUID } from './utils';
+
+// --- Persistence (IndexedDB) ---
+// Beans, shots, grinders, equipment and images each get their own object store; bean photos are
+// kept as Blobs and referenced from `Bean.imageId`. Schema version, the
+// quarantine and sync tombstones live in a small key/value `meta` store.
+const DB_NAME = 'bragu-pro';
+const DB_VERSION = 3;
+
+// Where the archive lived before IndexedDB; imported once, then removed.
+const LEGACY_STORAGE_KEYS = ['bragu_archive', 'bean_log_data_v1'];
+
+export interface LoadResult {
+  archive: Archive;
+  imageUrls: Record<string, string>;
+  error?: string;
+}
+
+export interface StorageUsage {
+  usage?: number;
+  quota?: number;
+  imageCount: number;
+  imageBytes: number;
+}
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const completion = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        const db = req.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('beans', { keyPath: 'id' });
+          db.createObjectStore('shots', { keyPath: 'id' }).createIndex('beanId', 'beanId');
+          db.createObjectStore('images', { keyPath: 'id' });
+          db.createObjectStore('meta');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('grinders', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore('equipment', { keyPath: 'id' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const newImageId = () => `img-${generateUUID()}`;
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, payload] = dataUrl.split(',', 2);
+  const type = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const binary = atob(payload ?? '');
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// --- Images ---
+export const storeImage = async (blob: Blob): Promise<string> => {
+  const db = await openDb();
+  const id = newImageId();
+  const tx = db.transaction('images', 'readwrite');
+  tx.objectStore('images').put({ id, blob } satisfies StoredImage);
+  await completion(tx);
+  return id;
+};
+
+/** Writes the data-URL images of a portable archive as Blobs; returns object URLs by id. */
+export const importImages = async (images: Record<string, string> = {}): Promise<Record<string, string>> => {
+  const entries = Object.entries(images);
+  if (entries.length === 0) return {};
+  const db = await openDb();
+  const tx = db.transaction('images', 'readwrite');
+  const urls: Record<string, string> = {};
+  try {
+    for (const [id, dataUrl] of entries) {
+      const blob = dataUrlToBlob(dataUrl);
+      tx.objectStore('images').put({ id, blob } satisfies StoredImage);
+      urls[id] = URL.createObjectURL(blob);
+    }
+  } catch (err) {
+    // One unreadable photo stores none of them, rather than half the set
+    tx.abort();
+    Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+    throw err;
+  }
+  await completion(tx);
+  return urls;
+};
+
+/** Reads the given images back as data URLs for a portable backup. */
+export const exportImages = async (ids: string[]): Promise<Record<string, string>> => {
+  const db = await openDb();
+  const store = db.transaction('images').objectStore('images');
+  const stored = await Promise.all(ids.map(id => promisify(store.get(id) as IDBRequest<StoredImage | undefined>)));
+  const images: Record<string, string> = {};
+  for (const image of stored) {
+    if (image) images[image.id] = await blobToDataUrl(image.blob);
+  }
+  return images;
+};
+
+// --- Archive ---
+const readLegacyArchive = (): { archive: Archive | null; error?: string } => {
+  const key = LEGACY_STORAGE_KEYS.find(k => localStorage.getItem(k) !== null);
+  if (!key) return { archive: null };
+  const saved = localStorage.getItem(key) as string;
+  try {
+    return { archive: parseArchive(JSON.parse(saved)) };
+  } catch (e) {
+    console.error('Failed to read legacy archive:', e);
+    try {
+      localStorage.setItem(`bragu_archive_unreadable_${Date.now()}`, saved);
+      localStorage.removeItem(key);
+    } catch {
+      // No room for a copy: leave the original where it is
+    }
+    return { archive: null, error: e instanceof Error ? e.message : String(e) };
+  }
+};
+
+const RECORD_STORES = ['beans', 'shots', 'grinders', 'equipment', 'meta'];
+
+const writeRecords = (tx: IDBTransaction, archive: Archive) => {
+  const beans = tx.objectStore('beans');
+  const shots = tx.objectStore('shots');
+  const grinders = tx.objectStore('grinders');
+  const equipment = tx.objectStore('equipment');
+  const meta = tx.objectStore('meta');
+  beans.clear();
+  archive.beans.forEach(b => beans.put(b));
+  shots.clear();
+  archive.shots.forEach(s => shots.put(s));
+  grinders.clear();
+  archive.grinders.forEach(g => grinders.put(g));
+  equipment.clear();
+  archive.equipment.forEach(e => equipment.put(e));
+  meta.put(SCHEMA_VERSION, 'schemaVersion');
+  meta.put(archive.quarantine, 'quarantine');
+  meta.put(archive.tombstones, 'tombstones');
+};
+
+/**
+ * Loads the archive from IndexedDB, importing the old localStorage blob the
+ * first time it runs. Records are re-validated on every load so a migration
+ * or a bad write surfaces in the quarantine instead of crashing the UI.
+ */
+const load = async (): Promise<LoadResult> => {
+  const db = await openDb();
+  const readTx = db.transaction(RECORD_STORES);
+  const [version, beans, shots, grinders, equipment, quarantine, tombstones] = await Promise.all([
+    promisify(readTx.objectStore('meta').get('schemaVersion')),
+    promisify(readTx.objectStore('beans').getAll()),
+    promisify(readTx.objectStore('shots').getAll()),
+    promisify(readTx.objectStore('grinders').getAll()),
+    promisify(readTx.objectStore('equipment').getAll()),
+    promisify(readTx.objectStore('meta').get('quarantine')),
+    promisify(readTx.objectStore('meta').get('tombstones')),
+  ]);
+
+  if (version === undefined) {
+    const legacy = readLegacyArchive();
+    const archive = legacy.archive ?? emptyArchive();
+    const imageUrls = await importImages(archive.images);
+    const tx = db.transaction(RECORD_STORES, 'readwrite');
+    writeRecords(tx, archive);
+    await completion(tx);
+    if (legacy.archive) LEGACY_STORAGE_KEYS.forEach(k => localStorage.removeItem(k));
+    return { archive: { ...archive, images: undefined }, imageUrls, error: legacy.error };
+  }
+
+  // Throws for an archive this build cannot read (e.g. written by a newer
+  // version); the caller must then not save over it.
+  const archive = parseArchive({ schemaVersion: version, beans, shots, grinders, equipment, quarantine, tombstones });
+
+  // Drop photos no bean refers to any more (replaced, or picked in a form that was abandoned)
+  const referenced = new Set<string>();
+  archive.beans.forEach(b => b.imageId && referenced.add(b.imageId));
+  archive.quarantine.forEach(q => {
+    const imageId = (q.record as { imageId?: unknown } | null)?.imageId;
+    if (typeof imageId === 'string') referenced.add(imageId);
+  });
+  const imageTx = db.transaction('images', 'readwrite');
+  const imageStore = imageTx.objectStore('images');
+  const images = await promisify(imageStore.getAll() as IDBRequest<StoredImage[]>);
+  const imageUrls: Record<string, string> = {};
+  for (const image of images) {
+    if (referenced.has(image.id)) imageUrls[image.id] = URL.createObjectURL(image.blob);
+    else imageStore.delete(image.id);
+  }
+  await completion(imageTx);
+
+  return { archive, imageUrls };
+};
+
+let loading: Promise<LoadResult> | null = null;
+
+// Memoised so a double-mounted effect cannot run the legacy import twice.
+export const loadArchive = (): Promise<LoadResult> => {
+  if (!loading) loading = load().catch(e => {
+    loading = null;
+    throw e;
+  });
+  return loading;
+};
+
+export const saveArchive = async (archive: Archive) => {
+  const db = await openDb();
+  const tx = db.transaction(RECORD_STORES, 'readwrite');
+  writeRecords(tx, archive);
+  await completion(tx);
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const db = await openDb();
+  const images = await promisify(db.transaction('images').objectStore('images').getAll() as IDBRequest<StoredImage[]>);
+  const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+  return {
+    usage: estimate.usage,
+    quota: estimate.quota,
+    imageCount: images.length,
+    imageBytes: images.reduce((acc, i) => acc + i.blob.size, 0),
+  };
+};
+
+// Ask the browser not to evict the archive under storage pressure.
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  if (await navigator.storage.persisted()) return true;
+  return navigator.storage.persist();
+};
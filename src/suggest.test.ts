@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { suggestNextShot } from './suggest';
+import { shot } from './testing/fixtures';
+
+describe('suggestNextShot', () => {
+  it('starts at the roast target without history', () => {
+    const suggestion = suggestNextShot([], 'Medium');
+    expect(suggestion).toMatchObject({ basis: 'defaults', dose: 18, yield: 37, direction: 'hold' });
+  });
+
+  it('returns to a proven recipe after a worse shot', () => {
+    const suggestion = suggestNextShot([
+      shot({ id: 'best', grindSetting: '1.2', rating: 9 }),
+      shot({ id: 'last', timestamp: 200, grindSetting: '1.6', time: 20, rating: 5 }),
+    ], 'Medium');
+    expect(suggestion).toMatchObject({ basis: 'best', grindSetting: '1.2', direction: 'hold' });
+  });
+
+  it('keeps the grind when the last shot ran inside the window', () => {
+    expect(suggestNextShot([shot()], 'Medium')).toMatchObject({ direction: 'hold', grindSetting: '1.4', grindDelta: 0 });
+  });
+
+  it('assumes finer is a lower number until there is history to fit', () => {
+    const suggestion = suggestNextShot([shot({ time: 36 })], 'Medium');
+    expect(suggestion).toMatchObject({ direction: 'coarser', grindSetting: '1.7' });
+    expect(suggestion.grindDelta).toBeCloseTo(0.3);
+  });
+
+  it('takes the minimum step along a fitted slope, even on a grinder that runs finer as numbers go up', () => {
+    // Time rises with the number here, so coarser means a lower setting
+    const suggestion = suggestNextShot([
+      shot({ id: 'a', timestamp: 100, grindSetting: '10', time: 10 }),
+      shot({ id: 'b', timestamp: 200, grindSetting: '11', time: 30 }),
+      shot({ id: 'c', timestamp: 300, grindSetting: '12', time: 50 }),
+      shot({ id: 'd', timestamp: 400, grindSetting: '12', time: 33 }),
+    ], 'Medium');
+    expect(suggestion).toMatchObject({ direction: 'coarser', grindSetting: '11', grindDelta: -1 });
+  });
+});
@@ -0,0 +1,162 @@
+import type { Grinder, GrindValue, RecipeTarget, RoastType, Shot } from './types';
+import { ROAST_TARGETS } from './metrics';
+import { formatGrind, grindNumber, snapGrind } from './grind';
+
+// --- Next-Shot Suggestions ---
+export interface Suggestion {
+  dose: number;
+  yield: number;
+  grindSetting: string;
+  grind?: GrindValue;
+  grindDelta?: number; // Numeric change from the base shot; undefined when the grind isn't numeric
+  direction: 'finer' | 'coarser' | 'hold';
+  expectedTime: number;
+  basis: 'defaults' | 'best' | 'last';
+  reasoning: string[];
+}
+
+// Without enough history to fit, assume a typical espresso grinder: one
+// adjustment step (finer = lower number) adds roughly this many seconds.
+const DEFAULT_SECONDS_PER_STEP = 3;
+const MAX_STEPS = 3;
+export const GOOD_RATING = 8;
+
+const round = (value: number, step: number) => Math.round(value / step) * step;
+
+const hasFraction = (text: string) => /[¼½¾⅓⅔]/.test(text);
+
+// Smallest adjustment the way the grind was written suggests: "1.4" -> 0.1, "15" -> 1, "2½" -> 0.25
+const stepSize = (text: string) =>
+  hasFraction(text) ? 0.25 : 10 ** -(text.match(/\d[.,](\d+)/)?.[1].length ?? 0);
+
+// Without a grinder profile, write the new value in the shape of the old text ("25 clicks" -> "24 clicks")
+const formatLike = (value: number, like: string) => {
+  if (hasFraction(like)) return String(+value.toFixed(2));
+  const places = Math.max(0, -Math.round(Math.log10(stepSize(like))));
+  const text = value.toFixed(places);
+  return like.replace(/\d+(?:[.,]\d+)?/, like.includes(',') ? text.replace('.', ',') : text);
+};
+
+/**
+ * Least-squares slope of extraction time against numeric grind across shots
+ * pulled on the same grinder with a similar dose; undefined when the history
+ * can't support a fit.
+ */
+const fitSecondsPerUnit = (shots: Shot[], dose: number, grinderId?: string): number | undefined => {
+  const pts = shots
+    .filter(s => Math.abs(s.dose - dose) <= 0.5 && s.grind?.grinderId === grinderId)
+    .flatMap(s => {
+      const g = grindNumber(s);
+      return g === undefined ? [] : [{ g, t: s.time }];
+    });
+  if (new Set(pts.map(p => p.g)).size < 3) return undefined;
+  const mg = pts.reduce((a, p) => a + p.g, 0) / pts.length;
+  const mt = pts.reduce((a, p) => a + p.t, 0) / pts.length;
+  const cov = pts.reduce((a, p) => a + (p.g - mg) * (p.t - mt), 0);
+  const varG = pts.reduce((a, p) => a + (p.g - mg) ** 2, 0);
+  const slope = cov / varG;
+  // The sign carries the grinder's direction: some scales run finer as numbers go up
+  return Number.isFinite(slope) && slope !== 0 ? slope : undefined;
+};
+
+/**
+ * Proposes the next shot for a bean from its history: repeat a proven recipe,
+ * otherwise move the grind to bring the last shot's time into the target
+ * window while steering the ratio towards its middle. The target is the bag's
+ * own when it has one, otherwise the roast's.
+ */
+export const suggestNextShot = (history: Shot[], roastType: RoastType, grinders: Grinder[] = [], target?: RecipeTarget): Suggestion => {
+  const targets = target ?? ROAST_TARGETS[roastType];
+  const dose = target?.dose ?? 18;
+  const targetTime = (targets.time.min + targets.time.max) / 2;
+  const targetRatio = (targets.ratio.min + targets.ratio.max) / 2;
+  const shots = [...history].sort((a, b) => b.timestamp - a.timestamp);
+  const last = shots[0];
+
+  if (!last) {
+    return {
+      dose,
+      yield: Math.round(dose * targetRatio),
+      grindSetting: '',
+      direction: 'hold',
+      expectedTime: targetTime,
+      basis: 'defaults',
+      reasoning: [`No shots yet: start at the ${target ? "bag's" : roastType} target of 1:${targetRatio.toFixed(1)} in about ${targetTime}s.`],
+    };
+  }
+
+  const inWindow = (s: Shot) => s.time >= targets.time.min && s.time <= targets.time.max;
+  const proven = shots.find(s => s.isOptimal) ?? shots.find(s => s.rating >= GOOD_RATING && inWindow(s));
+  if (proven && last.rating < proven.rating) {
+    return {
+      dose: proven.dose,
+      yield: proven.yield,
+      grindSetting: proven.grindSetting,
+      grind: proven.grind,
+      grindDelta: 0,
+      direction: 'hold',
+      expectedTime: proven.time,
+      basis: 'best',
+      reasoning: [
+        `Your ${proven.isOptimal ? 'optimal' : 'best-rated'} shot (${proven.rating.toFixed(1)}/10) beat the last one (${last.rating.toFixed(1)}/10).`,
+        'Return to that recipe before changing anything else.',
+      ],
+    };
+  }
+
+  const reasoning: string[] = [];
+  const error = last.time - targetTime;
+  const withinWindow = inWindow(last);
+  let direction: Suggestion['direction'] = 'hold';
+  if (!withinWindow) direction = error > 0 ? 'coarser' : 'finer';
+
+  // Ratio: nudge yield towards the middle of the target range, to the half gram
+  const ratio = last.yield / last.dose;
+  let nextYield = last.yield;
+  if (ratio < targets.ratio.min || ratio > targets.ratio.max) {
+    nextYield = round(last.dose * targetRatio, 0.5);
+    reasoning.push(`Ratio 1:${ratio.toFixed(1)} is outside ${targets.ratio.min}–${targets.ratio.max}; aim for ${nextYield}g out.`);
+  } else if (withinWindow && last.rating < GOOD_RATING) {
+    reasoning.push('Time and ratio are on target, so taste decides: stretch the ratio if it was sour, shorten it if bitter.');
+  }
+
+  const grind = grindNumber(last);
+  const grinder = grinders.find(g => g.id === last.grind?.grinderId);
+  if (direction === 'hold') {
+    if (withinWindow) reasoning.unshift(`Last shot ran ${last.time}s, inside the ${targets.time.min}–${targets.time.max}s window: keep the grind.`);
+    return { dose: last.dose, yield: nextYield, grindSetting: last.grindSetting, grind: last.grind, grindDelta: 0, direction, expectedTime: last.time, basis: 'last', reasoning };
+  }
+
+  const timing = `Last shot ran ${last.time}s against a ${targets.time.min}–${targets.time.max}s window`;
+  if (grind === undefined) {
+    reasoning.unshift(`${timing}: grind ${direction}.`);
+    reasoning.push(`"${last.grindSetting || 'No grind'}" isn't a number, so adjust by one step on your grinder.`);
+    return { dose: last.dose, yield: nextYield, grindSetting: last.grindSetting, direction, expectedTime: targetTime, basis: 'last', reasoning };
+  }
+
+  const step = grinder?.step ?? stepSize(last.grindSetting);
+  const fitted = fitSecondsPerUnit(shots, last.dose, grinder?.id);
+  const secondsPerUnit = fitted ?? -DEFAULT_SECONDS_PER_STEP / step;
+  // At least one step, taken the way the grinder's slope moves time towards the target
+  const steps = Math.max(-MAX_STEPS, Math.min(MAX_STEPS, Math.round(-error / secondsPerUnit / step) || -Math.sign(error) * Math.sign(secondsPerUnit)));
+  const delta = steps * step;
+  const nextGrind = grinder ? snapGrind(grind + delta, grinder) : Math.max(0, grind + delta);
+  const expectedTime = Math.round(last.time + (nextGrind - grind) * secondsPerUnit);
+
+  reasoning.unshift(`${timing}: grind ${direction} by ${Math.abs(steps)} step${Math.abs(steps) === 1 ? '' : 's'}.`);
+  reasoning.push(fitted !== undefined
+    ? `Fitted from your history: about ${Math.abs(fitted * step).toFixed(1)}s per step.`
+    : `Assuming about ${DEFAULT_SECONDS_PER_STEP}s per step until there are more shots to fit.`);
+
+  return {
+    dose: last.dose,
+    yield: nextYield,
+    grindSetting: grinder ? formatGrind(nextGrind, grinder) : formatLike(nextGrind, last.grindSetting),
+    grind: { ...(grinder ? { grinderId: grinder.id } : {}), value: nextGrind },
+    grindDelta: nextGrind - grind,
+    direction,
+    expectedTime,
+    basis: 'last',
+    reasoning,
+  };
+};
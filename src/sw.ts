@@ -0,0 +1,73 @@
+/// <reference lib="webworker" />
+// --- Service Worker ---
+// Built as its own entry (see vite.config.ts). At build time the precache
+// plugin swaps the placeholder below for this build's version and the list of
+// files it emitted, so every deploy gets a fresh cache and the installed app
+// runs entirely offline.
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+const PRECACHE: { version: string; files: string[] } = JSON.parse('__PRECACHE_MANIFEST__');
+const CACHE_PREFIX = 'bragupro-';
+const CACHE_NAME = `${CACHE_PREFIX}${PRECACHE.version}`;
+const SHELL = new URL('index.html', sw.registration.scope).href;
+
+// Everything under assets/ carries a content hash in its name, so a copy an
+// earlier build cached is still this build's file
+const isHashed = (file: string) => file.startsWith('assets/');
+
+const previousCopy = async (url: string): Promise<Response | undefined> => {
+  for (const key of await caches.keys()) {
+    if (!key.startsWith(CACHE_PREFIX) || key === CACHE_NAME) continue;
+    const cached = await (await caches.open(key)).match(url);
+    if (cached) return cached;
+  }
+  return undefined;
+};
+
+// Only files the last build didn't have are downloaded, so a deploy doesn't
+// fetch the label reader's engine and model again when they haven't changed
+const precache = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  const missing: string[] = [];
+  for (const file of PRECACHE.files) {
+    const url = new URL(file, sw.registration.scope).href;
+    const kept = isHashed(file) ? await previousCopy(url) : undefined;
+    if (kept) await cache.put(url, kept);
+    else missing.push(url);
+  }
+  await cache.addAll(missing);
+};
+
+sw.addEventListener('install', (event) => {
+  // No skipWaiting here: a new build waits until the app's update prompt asks
+  // for it, so an open session never mixes old and new bundles
+  event.waitUntil(precache());
+});
+
+sw.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k.startsWith(CACHE_PREFIX) && k !== CACHE_NAME).map(k => caches.delete(k))))
+      .then(() => sw.clients.claim()),
+  );
+});
+
+sw.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') sw.skipWaiting();
+  if (event.data?.type === 'GET_VERSION') event.ports[0]?.postMessage(PRECACHE.version);
+});
+
+sw.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== sw.location.origin) return;
+
+  // Every route is the same app shell; deep links have no file of their own
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(SHELL, { cacheName: CACHE_NAME }).then(cached => cached ?? fetch(request)));
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE_NAME }).then(cached => cached ?? fetch(request)),
+  );
+});
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { Bean, Shot } from './types';
+import type { Tombstone } from './schema';
+import { buryRecords, isSyncMessage, mergeRecords, reviveRecords } from './sync';
+import type { SyncRecords } from './sync';
+import { EMPTY_HISTORY, recordChange, restoredSnapshot, stepBack } from './history';
+import type { Snapshot } from './history';
+import { trashRecord } from './trash';
+import { bean, shot } from './testing/fixtures';
+
+const records = (beans: Bean[], shots: Shot[] = [], tombstones: Tombstone[] = []): SyncRecords =>
+  ({ beans, shots, grinders: [], equipment: [], tombstones });
+
+describe('mergeRecords', () => {
+  it('gives both devices the same archive, whichever side merges', () => {
+    const a = records([bean({ name: 'Edited on A', updatedAt: 300 }), bean({ id: 'b2', createdAt: 200 })]);
+    const b = records([bean({ name: 'Edited on B', updatedAt: 200 })], [shot()]);
+    const onA = mergeRecords(a, b).records;
+    expect(onA).toEqual(mergeRecords(b, a).records);
+    expect(onA.beans.map(x => [x.id, x.name])).toEqual([['b2', 'Bean'], ['b1', 'Edited on A']]);
+    expect(onA.shots.map(s => s.id)).toEqual(['s1']);
+  });
+
+  it('breaks an exact tie the same way on both sides', () => {
+    const a = records([bean({ name: 'Apple', updatedAt: 200 })]);
+    const b = records([bean({ name: 'Banana', updatedAt: 200 })]);
+    expect(mergeRecords(a, b).records.beans[0].name).toBe(mergeRecords(b, a).records.beans[0].name);
+  });
+
+  it('counts what changed on this device', () => {
+    const local = records([bean(), bean({ id: 'b2' })]);
+    const remote = records([bean({ name: 'Renamed', updatedAt: 200 }), bean({ id: 'b3' })], [], buryRecords('bean', ['b2'], 300));
+    expect(mergeRecords(local, remote).summary).toEqual({ added: 1, updated: 1, removed: 1 });
+  });
+
+  it('lets a tombstone remove only copies not edited after the delete', () => {
+    const local = records([bean({ updatedAt: 400 }), bean({ id: 'b2', updatedAt: 200 })]);
+    const remote = records([], [], buryRecords('bean', ['b1', 'b2'], 300));
+    const merged = mergeRecords(local, remote).records;
+    expect(merged.beans.map(b => b.id)).toEqual(['b1']);
+    expect(merged.tombstones).toHaveLength(2);
+  });
+
+  it('hands back shots whose bag is gone as orphans', () => {
+    const local = records([bean({ updatedAt: 200 })], [shot()]);
+    const remote = records([], [], buryRecords('bean', ['b1'], 300));
+    const result = mergeRecords(local, remote);
+    expect(result.records.shots).toEqual([]);
+    expect(result.orphans.map(s => s.id)).toEqual(['s1']);
+  });
+});
+
+describe('undo after a sync', () => {
+  // Edits bag b1 on this device, syncs, undoes the edit and syncs again
+  const undoneAfterSync = (edit: (b: Bean) => Bean) => {
+    const before: Snapshot = { ...records([bean()]), quarantine: [] };
+    const edited = records([edit(bean())]);
+    const other = mergeRecords(records([bean()]), edited).records;
+    const current: Snapshot = { ...mergeRecords(edited, other).records, quarantine: [] };
+    const step = stepBack(recordChange(EMPTY_HISTORY, 'Edit', before), current);
+    const undone = restoredSnapshot(step!.entry.snapshot, current, 500);
+    return mergeRecords(other, undone).records;
+  };
+
+  it('carries the undone edit to the other device', () => {
+    expect(undoneAfterSync(b => ({ ...b, name: 'Edited', updatedAt: 200 })).beans.map(b => b.name)).toEqual(['Bean']);
+  });
+
+  it('keeps a bag taken back out of the Trash', () => {
+    expect(undoneAfterSync(b => trashRecord(b, 200)).beans[0].deletedAt).toBeUndefined();
+  });
+});
+
+describe('reviveRecords', () => {
+  it('marks records restored over their tombstone as freshly edited', () => {
+    const revived = reviveRecords('bean', [bean(), bean({ id: 'b2' })], buryRecords('bean', ['b1'], 200), 500);
+    expect(revived.map(b => b.updatedAt)).toEqual([500, undefined]);
+  });
+});
+
+describe('isSyncMessage', () => {
+  it('accepts the protocol messages only', () => {
+    expect(isSyncMessage({ type: 'done' })).toBe(true);
+    expect(isSyncMessage({ type: 'hack' })).toBe(false);
+    expect(isSyncMessage(null)).toBe(false);
+  });
+});
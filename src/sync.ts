@@ -0,0 +1,140 @@
+import type { Bean, Equipment, Grinder, Shot } from './types';
+import type { Archive, RecordKind, Tombstone } from './schema';
+import { lastEdit, normalizeOptimal } from './merge';
+
+// --- Device Sync ---
+// Two devices swap their whole record set and both run the same merge, so
+// they end up holding identical archives without either being the "server".
+// Per record, the later edit wins; an exact tie goes to whichever copy sorts
+// higher as canonical JSON, so the result never depends on which side merges.
+// A tombstone removes any copy not edited after it was deleted.
+export type SyncRecords = Pick<Archive, 'beans' | 'shots' | 'grinders' | 'equipment' | 'tombstones'>;
+
+type SyncRecord = Bean | Shot | Grinder | Equipment;
+
+export interface SyncSummary {
+  added: number; // Records this device didn't have
+  updated: number;
+  removed: number; // Deleted on the other device
+}
+
+export interface SyncResult {
+  records: SyncRecords;
+  // Shots whose bag is gone on both sides; the caller quarantines them
+  orphans: Shot[];
+  summary: SyncSummary;
+}
+
+// Code-unit order rather than localeCompare, which differs between devices
+const compareText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Key order differs between devices (and between spreads of the same record)
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => compareText(a, b)))
+      : v);
+
+const newer = <T extends SyncRecord>(a: T, b: T): T => {
+  const diff = lastEdit(a) - lastEdit(b);
+  if (diff !== 0) return diff > 0 ? a : b;
+  return canonical(a) >= canonical(b) ? a : b;
+};
+
+const graveKey = (kind: RecordKind, id: string) => `${kind}:${id}`;
+
+const mergeTombstones = (local: Tombstone[], remote: Tombstone[]): Tombstone[] => {
+  const byKey = new Map<string, Tombstone>();
+  for (const t of [...local, ...remote]) {
+    const existing = byKey.get(graveKey(t.kind, t.id));
+    if (!existing || t.deletedAt > existing.deletedAt) byKey.set(graveKey(t.kind, t.id), t);
+  }
+  return [...byKey.values()].sort((a, b) => a.deletedAt - b.deletedAt || compareText(graveKey(a.kind, a.id), graveKey(b.kind, b.id)));
+};
+
+const mergeKind = <T extends SyncRecord>(kind: RecordKind, local: T[], remote: T[], graves: Map<string, number>): T[] => {
+  const byId = new Map<string, T>();
+  for (const record of [...local, ...remote]) {
+    const existing = byId.get(record.id);
+    byId.set(record.id, existing ? newer(existing, record) : record);
+  }
+  return [...byId.values()].filter(r => {
+    const deletedAt = graves.get(graveKey(kind, r.id));
+    return deletedAt === undefined || lastEdit(r) > deletedAt;
+  });
+};
+
+const byCreated = <T extends { id: string }>(time: (r: T) => number, newestFirst: boolean) => (a: T, b: T) =>
+  (newestFirst ? time(b) - time(a) : time(a) - time(b)) || compareText(a.id, b.id);
+
+const countChanges = <T extends SyncRecord>(before: T[], after: T[], summary: SyncSummary) => {
+  const previous = new Map<string, T>(before.map(r => [r.id, r]));
+  const kept = new Set<string>();
+  for (const record of after) {
+    kept.add(record.id);
+    const old = previous.get(record.id);
+    if (!old) summary.added++;
+    else if (canonical(old) !== canonical(record)) summary.updated++;
+  }
+  summary.removed += before.filter(r => !kept.has(r.id)).length;
+};
+
+export const mergeRecords = (local: SyncRecords, remote: SyncRecords): SyncResult => {
+  const tombstones = mergeTombstones(local.tombstones, remote.tombstones);
+  const graves = new Map<string, number>(tombstones.map(t => [graveKey(t.kind, t.id), t.deletedAt]));
+
+  const beans = mergeKind('bean', local.beans, remote.beans, graves).sort(byCreated<Bean>(b => b.createdAt, true));
+  const beanIds = new Set(beans.map(b => b.id));
+  const allShots = mergeKind('shot', local.shots, remote.shots, graves).sort(byCreated<Shot>(s => s.timestamp, true));
+  const records: SyncRecords = {
+    beans,
+    shots: normalizeOptimal(allShots.filter(s => beanIds.has(s.beanId))),
+    grinders: mergeKind('grinder', local.grinders, remote.grinders, graves).sort(byCreated<Grinder>(g => g.createdAt, false)),
+    equipment: mergeKind('equipment', local.equipment, remote.equipment, graves).sort(byCreated<Equipment>(e => e.createdAt, false)),
+    tombstones,
+  };
+
+  const summary: SyncSummary = { added: 0, updated: 0, removed: 0 };
+  countChanges(local.beans, records.beans, summary);
+  countChanges(local.shots, records.shots, summary);
+  countChanges(local.grinders, records.grinders, summary);
+  countChanges(local.equipment, records.equipment, summary);
+
+  return { records, orphans: allShots.filter(s => !beanIds.has(s.beanId)), summary };
+};
+
+/** Tombstones for records deleted for good at `now`. */
+export const buryRecords = (kind: RecordKind, ids: string[], now: number): Tombstone[] =>
+  ids.map(id => ({ kind, id, deletedAt: now }));
+
+/**
+ * A backup can bring back a record this device deleted for good. The import
+ * counts as a fresh edit, so the record outlives its tombstone here and on
+ * every device it syncs with.
+ */
+export const reviveRecords = <T extends SyncRecord>(
+  kind: RecordKind,
+  records: T[],
+  tombstones: Tombstone[],
+  now: number,
+): T[] => {
+  const buried = new Map<string, number>(tombstones.filter(t => t.kind === kind).map(t => [t.id, t.deletedAt]));
+  return records.map(r => (buried.get(r.id) ?? -Infinity) >= lastEdit(r) ? { ...r, updatedAt: now } : r);
+};
+
+// --- Sync Protocol ---
+// Both sides open with `hello`, merge what they receive, then ask for the
+// bag photos they are missing. A side that has answered and been answered
+// says `done`; `abort` carries a reason the other device shows.
+export type SyncMessage =
+  | { type: 'hello'; archive: SyncRecords & { schemaVersion: number }; imageIds: string[] }
+  | { type: 'want-images'; ids: string[] }
+  | { type: 'images'; images: Record<string, string> } // Image id -> data URL
+  | { type: 'done' }
+  | { type: 'abort'; reason: string };
+
+const SYNC_MESSAGE_TYPES = ['hello', 'want-images', 'images', 'done', 'abort'];
+
+// Shape only; the records in a hello are validated by parseArchive
+export const isSyncMessage = (v: unknown): v is SyncMessage =>
+  !!v && typeof v === 'object' && SYNC_MESSAGE_TYPES.includes((v as { type?: unknown }).type as string);
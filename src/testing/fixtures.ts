@@ -0,0 +1,11 @@
+import type { Bean, Shot } from '../types';
+
+// --- Test Fixtures ---
+// A plain bag and an on-target espresso of it; tests override what they check.
+export const bean = (fields: Partial<Bean> = {}): Bean => ({
+  id: 'b1', roaster: 'Roaster', name: 'Bean', originType: 'Single Origin', roastType: 'Medium', tastingNotes: '', createdAt: 100, ...fields,
+});
+
+export const shot = (fields: Partial<Shot> = {}): Shot => ({
+  id: 's1', beanId: 'b1', timestamp: 100, dose: 18, yield: 36, time: 28, grindSetting: '1.4', rating: 8, notes: '', ...fields,
+});
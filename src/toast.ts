@@ -0,0 +1,31 @@
+// --- Toasts ---
+// A short message at the foot of the screen, optionally offering undo or
+// redo. It lives here rather than in App state: screens are declared inside
+// App, so every App render remounts them, and a toast appearing or timing out
+// would wipe whatever the user was typing.
+export interface Toast {
+  message: string;
+  action?: 'undo' | 'redo';
+}
+
+const TOAST_MS = 6000;
+
+let current: Toast | null = null;
+let timer: number | undefined;
+const listeners = new Set<(toast: Toast | null) => void>();
+
+export const currentToast = () => current;
+
+/** Shows `toast` in place of any other, or clears it with null. */
+export const showToast = (toast: Toast | null) => {
+  window.clearTimeout(timer);
+  current = toast;
+  if (toast) timer = window.setTimeout(() => showToast(null), TOAST_MS);
+  listeners.forEach(l => l(current));
+};
+
+/** Listens for the toast changing; returns an unsubscribe. */
+export const subscribeToast = (listener: (toast: Toast | null) => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { liveRecords, restoreRecord, trashContents, trashRecord } from './trash';
+import { bean, shot } from './testing/fixtures';
+
+describe('trash', () => {
+  it('hides the shots of a trashed bag, and a restore brings them all back', () => {
+    const shots = [shot(), shot({ id: 's2' })];
+    const trashed = [trashRecord(bean(), 200)];
+    expect(liveRecords(trashed, shots)).toEqual({ beans: [], shots: [] });
+    expect(trashContents(trashed, shots).beans).toEqual([{ bean: trashed[0], shotCount: 2 }]);
+    expect(liveRecords([restoreRecord(trashed[0], 300)], shots).shots).toEqual(shots);
+  });
+
+  it('lists a shot trashed on its own with its bag', () => {
+    const shots = [trashRecord(shot(), 200), shot({ id: 's2' })];
+    expect(liveRecords([bean()], shots).shots.map(s => s.id)).toEqual(['s2']);
+    expect(trashContents([bean()], shots).shots).toEqual([{ shot: shots[0], bean: bean() }]);
+  });
+
+  it('counts trashing and restoring as edits', () => {
+    expect(trashRecord(bean(), 200)).toMatchObject({ deletedAt: 200, updatedAt: 200 });
+    const restored = restoreRecord(trashRecord(bean(), 200), 300);
+    expect(restored.updatedAt).toBe(300);
+    expect(restored).not.toHaveProperty('deletedAt');
+  });
+});
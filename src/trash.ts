@@ -0,0 +1,41 @@
+import type { Bean, Shot } from './types';
+
+// --- Trash ---
+// Deleting only stamps `deletedAt`, so a bag or shot can be restored until it
+// is purged. A trashed bag hides its shots without marking them, so restoring
+// the bag brings back exactly the history it had.
+export const liveRecords = (beans: Bean[], shots: Shot[]) => {
+  const live = beans.filter(b => b.deletedAt === undefined);
+  const liveIds = new Set(live.map(b => b.id));
+  return { beans: live, shots: shots.filter(s => s.deletedAt === undefined && liveIds.has(s.beanId)) };
+};
+
+export interface TrashContents {
+  beans: { bean: Bean; shotCount: number }[];
+  shots: { shot: Shot; bean: Bean }[]; // Trashed on their own, from a live bag
+}
+
+export const trashContents = (beans: Bean[], shots: Shot[]): TrashContents => {
+  const byId = new Map<string, Bean>(beans.map(b => [b.id, b]));
+  return {
+    beans: beans
+      .filter(b => b.deletedAt !== undefined)
+      .map(bean => ({ bean, shotCount: shots.filter(s => s.beanId === bean.id && s.deletedAt === undefined).length }))
+      .sort((a, b) => (b.bean.deletedAt ?? 0) - (a.bean.deletedAt ?? 0)),
+    shots: shots
+      .flatMap(shot => {
+        const bean = byId.get(shot.beanId);
+        return shot.deletedAt !== undefined && bean && bean.deletedAt === undefined ? [{ shot, bean }] : [];
+      })
+      .sort((a, b) => (b.shot.deletedAt ?? 0) - (a.shot.deletedAt ?? 0)),
+  };
+};
+
+// Both count as edits, so a merge carries the newer state across devices
+export const trashRecord = <T extends Bean | Shot>(record: T, now: number): T => ({ ...record, deletedAt: now, updatedAt: now });
+
+export const restoreRecord = <T extends Bean | Shot>(record: T, now: number): T => {
+  const restored = { ...record, updatedAt: now };
+  delete restored.deletedAt;
+  return restored;
+};
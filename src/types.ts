@@ -0,0 +1,205 @@
+// --- Domain Types ---
+export type OriginType = 'Single Origin' | 'Blend';
+export type RoastType = 'Light-Medium' | 'Medium' | 'Omni' | 'Medium-Dark' | 'Dark';
+
+export const ORIGIN_TYPES: OriginType[] = ['Single Origin', 'Blend'];
+export const ROAST_TYPES: RoastType[] = ['Light-Medium', 'Medium', 'Omni', 'Medium-Dark', 'Dark'];
+
+export type Process = 'Washed' | 'Natural' | 'Honey' | 'Anaerobic';
+
+export const PROCESSES: Process[] = ['Washed', 'Natural', 'Honey', 'Anaerobic'];
+
+export type GrindScale = 'stepless' | 'stepped' | 'rotations';
+
+export const GRIND_SCALES: { id: GrindScale; label: string }[] = [
+  { id: 'stepless', label: 'Stepless' },
+  { id: 'stepped', label: 'Stepped' },
+  { id: 'rotations', label: 'Rotations + Numbers' },
+];
+
+export interface Grinder {
+  id: string;
+  name: string;
+  scale: GrindScale;
+  step: number; // Smallest adjustment: display precision (stepless), click size (stepped), dial increment (rotations)
+  numbersPerRotation?: number; // Rotations scale only: numbers on the dial per full turn
+  isDefault?: boolean; // Part of the default setup for new shots
+  createdAt: number;
+  updatedAt?: number;
+}
+
+// A grind position on a grinder's scale. Rotation scales are flattened to
+// `rotations * numbersPerRotation + number` so every scale sorts and charts
+// as a plain number.
+export interface GrindValue {
+  grinderId?: string;
+  value: number;
+}
+
+// Everything on the bench besides the grinder, which has its own profile above
+export type EquipmentKind = 'machine' | 'basket' | 'puckScreen' | 'distribution';
+
+export const EQUIPMENT_KINDS: { id: EquipmentKind; label: string }[] = [
+  { id: 'machine', label: 'Machine' },
+  { id: 'basket', label: 'Basket' },
+  { id: 'puckScreen', label: 'Puck Screen' },
+  { id: 'distribution', label: 'Distribution' },
+];
+
+export interface Equipment {
+  id: string;
+  kind: EquipmentKind;
+  name: string;
+  notes: string;
+  isDefault?: boolean; // At most one per kind
+  createdAt: number;
+  updatedAt?: number;
+}
+
+export type BagStatus = 'active' | 'frozen' | 'finished';
+
+export const BAG_STATUSES: { id: BagStatus; label: string }[] = [
+  { id: 'active', label: 'Active' },
+  { id: 'frozen', label: 'Freezer' },
+  { id: 'finished', label: 'Finished' },
+];
+
+export interface Bean {
+  id: string;
+  roaster: string;
+  name: string;
+  originType: OriginType;
+  roastType: RoastType;
+  tastingNotes: string; // Free-form; the structured version is flavourTags
+  flavourTags?: string[]; // Note names from the flavour wheel
+  country?: string;
+  region?: string;
+  farm?: string;
+  process?: Process;
+  varietal?: string;
+  altitude?: number; // Metres above sea level
+  imageId?: string; // Key into the IndexedDB image store
+  roastDate?: string; // Calendar date, YYYY-MM-DD
+  openDate?: string; // Calendar date, YYYY-MM-DD
+  bagWeight?: number; // Grams in the bag when full; shot doses are deducted from it
+  status?: BagStatus; // Unset means active
+  target?: RecipeTarget; // Unset means the roast's preset
+  sessions?: DialInSession[]; // Oldest first; at most one is open
+  recipe?: SavedRecipe;
+  createdAt: number;
+  updatedAt?: number; // Last local edit; compared when merging backups
+  baseEdit?: number; // Last edit of the copy last taken from a backup; a later merge's common ancestor
+  deletedAt?: number; // In the Trash since; its shots are hidden with it
+}
+
+export type SensoryAttribute = 'sweetness' | 'acidity' | 'bitterness' | 'body' | 'finish';
+
+export const SENSORY_ATTRIBUTES: { id: SensoryAttribute; label: string }[] = [
+  { id: 'sweetness', label: 'Sweetness' },
+  { id: 'acidity', label: 'Acidity' },
+  { id: 'bitterness', label: 'Bitterness' },
+  { id: 'body', label: 'Body' },
+  { id: 'finish', label: 'Finish' },
+];
+
+// 0–10 each; attributes the user didn't score are left out
+export type SensoryScores = Partial<Record<SensoryAttribute, number>>;
+
+// Espresso was the only method before the others arrived, so a shot without
+// one is espresso
+export type BrewMethod = 'espresso' | 'pour-over' | 'aeropress';
+
+export const BREW_METHODS: { id: BrewMethod; label: string }[] = [
+  { id: 'espresso', label: 'Espresso' },
+  { id: 'pour-over', label: 'Pour-Over' },
+  { id: 'aeropress', label: 'AeroPress' },
+];
+
+// Seconds from the start of the shot, grams in the cup
+export type WeightSample = [seconds: number, grams: number];
+
+// What a bag is being dialled in toward. A target starts as the roast's (or
+// the brew method's) preset from dialin.ts and can be adjusted per bag.
+export interface RecipeTarget {
+  method?: BrewMethod; // Unset means espresso
+  dose: number;
+  ratio: { min: number; max: number }; // Yield / dose
+  time: { min: number; max: number }; // Seconds
+  taste?: SensoryScores; // Desired profile; attributes left out don't matter
+}
+
+// Consecutive shots logged while dialling a bag in; each carries the session's id
+export interface DialInSession {
+  id: string;
+  target: RecipeTarget; // As it was when the session started, so its deviations stay put
+  startedAt: number;
+  endedAt?: number; // Open until then
+  winnerId?: string; // Shot promoted to the bag's recipe when the session closed
+}
+
+// Copied from the shot it was promoted from, so later edits to that shot (or
+// deleting it) leave the bag's recipe alone
+export interface SavedRecipe {
+  shotId: string;
+  method?: BrewMethod;
+  dose: number;
+  yield: number;
+  time: number;
+  grindSetting: string;
+  grind?: GrindValue;
+  savedAt: number;
+}
+
+export interface Shot {
+  id: string;
+  beanId: string;
+  timestamp: number;
+  method?: BrewMethod; // Unset means espresso
+  dose: number;
+  yield: number; // Espresso: grams in the cup; other methods: grams of brew water
+  time: number; // Total extraction time in seconds, pre-infusion or bloom included
+  preInfusion?: number; // Espresso: seconds from start until pre-infusion ended
+  firstDrip?: number; // Espresso: seconds from start until the first drip
+  waterTemp?: number; // °C
+  bloomWater?: number; // Grams poured to bloom the bed
+  bloomTime?: number; // Seconds the bloom was left before the next pour
+  pours?: number; // Pour-over: pours after the bloom
+  tds?: number; // Total dissolved solids in percent, from a refractometer
+  weightCurve?: WeightSample[]; // Recorded from a connected scale, oldest first
+  grindSetting: string; // Grind as typed; kept verbatim even when it can't be parsed
+  grind?: GrindValue; // Structured reading of grindSetting, when it parses
+  equipmentIds?: string[]; // Setup used, at most one item per kind; the grinder lives on `grind`
+  rating: number;
+  sensory?: SensoryScores;
+  balance?: number; // -5 (sour) to +5 (bitter), 0 is balanced
+  notes: string;
+  isOptimal?: boolean; // Manual optimal marker
+  isReference?: boolean; // Recipe taken from someone's share link, not pulled here
+  sessionId?: string; // Dial-in session on its bag it was logged in
+  edits?: ShotEdit[]; // Changes made after logging, oldest first
+  updatedAt?: number; // Last local edit; compared when merging backups
+  baseEdit?: number; // Last edit of the copy last taken from a backup; a later merge's common ancestor
+  deletedAt?: number; // In the Trash since
+}
+
+// Fields of a logged shot whose later edits are recorded; `grinderId` stands
+// in for the grinder on `grind`, whose value follows from `grindSetting`
+export type ShotEditField =
+  | 'method' | 'dose' | 'yield' | 'time' | 'preInfusion' | 'firstDrip'
+  | 'waterTemp' | 'bloomWater' | 'bloomTime' | 'pours' | 'tds'
+  | 'grindSetting' | 'grinderId' | 'equipmentIds'
+  | 'rating' | 'sensory' | 'balance' | 'notes';
+
+// Values as they were saved; null when the field was empty
+export type ShotEditValue = number | string | string[] | SensoryScores | null;
+
+export interface ShotChange {
+  field: ShotEditField;
+  from: ShotEditValue;
+  to: ShotEditValue;
+}
+
+export interface ShotEdit {
+  at: number;
+  changes: ShotChange[];
+}
@@ -1,8 +1,35 @@
 import path from 'path';
+import fs from 'fs';
+import { createHash } from 'crypto';
 import { defineConfig } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwind from '@tailwindcss/vite';
 
+// Public files the installed app needs offline, next to what the bundle emits
+const PRECACHE_PUBLIC = ['manifest.json'];
+
+// Fills the service worker's precache list with this build's files and
+// versions it by their names (which carry content hashes) plus index.html and
+// the public files, so any change to the app ships a new cache
+const precacheManifest = (publicDir: string): Plugin => ({
+  name: 'bragu-precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const sw = Object.values(bundle).find(f => f.type === 'chunk' && f.name === 'sw');
+    if (!sw || sw.type !== 'chunk') return;
+    const files = [...Object.keys(bundle).filter(f => f !== sw.fileName && !f.endsWith('.map')), ...PRECACHE_PUBLIC].sort();
+    const hash = createHash('sha256').update(files.join('\n'));
+    const html = bundle['index.html'];
+    if (html?.type === 'asset') hash.update(html.source);
+    PRECACHE_PUBLIC.forEach(f => hash.update(fs.readFileSync(path.join(publicDir, f))));
+    const manifest = JSON.stringify({ version: hash.digest('hex').slice(0, 12), files });
+    // Escaped to sit inside the string literal JSON.parse reads it from
+    sw.code = sw.code.replace('__PRECACHE_MANIFEST__', JSON.stringify(manifest).slice(1, -1));
+  },
+});
+
 export default defineConfig(({ mode }) => {
     console.log('Building in mode:', mode);
     return {
@@ -11,7 +38,23 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       base: '/Bragu-Pro/',
-      plugins: [react(), tailwind()],
+      plugins: [react(), tailwind(), precacheManifest(path.resolve(__dirname, 'public'))],
+      build: {
+        rollupOptions: {
+          // The service worker is its own entry, emitted unhashed so its URL never changes
+          input: {
+            index: path.resolve(__dirname, 'index.html'),
+            sw: path.resolve(__dirname, 'src/sw.ts'),
+          },
+          output: {
+            entryFileNames: chunk => chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js',
+            // Tesseract fetches its model as <folder>/eng.traineddata.gz, so the hash goes on the folder
+            assetFileNames: asset => asset.names.some(n => n.endsWith('.traineddata.gz'))
+              ? 'assets/[name]-[hash]/[name][extname]'
+              : 'assets/[name]-[hash][extname]',
+          },
+        },
+      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, './src'),